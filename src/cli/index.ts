@@ -1,32 +1,43 @@
 import { Command } from 'commander'
 import ora, { type Ora } from 'ora'
 import { mkdir, writeFile } from 'fs/promises'
-import { join } from 'path'
+import { join, resolve } from 'path'
 
 import { ProjectAnalyzer } from '../context/analyzer'
+import { openProject } from '../context/project-source'
+import { analyzeRelease } from '../context/release'
+import { EgressFilter } from '../context/egress'
+import { analyzeReview } from '../context/review'
+import { isBlockedFile, redactSecrets } from '../context/secrets'
 import { SlidevGenError } from '../errors/SlidevGenError'
 import { SlidesGenerator } from '../generators/slides/slides-generator'
+import { EgressLog } from '../llm/egress'
+import { getApiKeyEnv, getProviderLabel, resolveApiKey } from '../llm/provider'
 import { ConfigManager } from '../utils/config-manager'
 
 import packageJson from '../../package.json' assert { type: 'json' }
 
 import type { ProjectConfig } from '../config/types'
+import type { ProjectSource } from '../context/project-source'
+import type { RedactionReport } from '../context/secrets'
+import type { AnalysisWarning } from '../context/types'
 
 interface CLIOptions extends Partial<ProjectConfig> {
     apiKey?: string
+    // Directory, .tar.gz export or git bundle (defaults to the cwd)
+    project?: string
     dryRun?: boolean
+    replay?: boolean
 }
 
 class CLI {
     private readonly program: Command
-    private readonly configManager: ConfigManager
     private readonly projectRoot: string
     private spinner: Ora | null = null
 
     constructor() {
         this.program = new Command()
         this.projectRoot = process.cwd()
-        this.configManager = new ConfigManager(this.projectRoot)
         this.setupProgram()
     }
 
@@ -73,6 +84,8 @@ class CLI {
             .version(packageJson.version)
 
         this.setupGenerateCommand()
+        this.setupReleaseCommand()
+        this.setupReviewCommand()
         this.setupPreviewCommand()
         this.setupDeployCommand()
     }
@@ -82,88 +95,298 @@ class CLI {
             .command('generate')
             .description('Generate a new presentation')
             .option('-o, --slides-path <dir>', 'output directory', './.slides')
-            .option('-m, --model <model>', 'OpenAI model to use', 'gpt-4')
+            .option(
+                '-p, --project <path>',
+                'project directory, .tar.gz export or git bundle to analyze',
+            )
+            .option('-m, --model <model>', 'model to use (overrides config)')
             .option('-t, --theme <theme>', 'Slidev theme to use', 'default')
-            .option('-k, --api-key <key>', 'OpenAI API key')
+            .option(
+                '-k, --api-key <key>',
+                'API key for the configured provider',
+            )
             .option(
                 '--dry-run',
                 'Analyze project without generating presentation',
                 false,
             )
-            .action(async (options: CLIOptions) => {
-                try {
-                    if (options.dryRun) {
-                        this.info('🔍 Running in dry-run mode (analysis only)')
-                    }
-                    this.info('🚀 Starting presentation generation...')
-                    this.info('')
+            .option(
+                '--focus <path>',
+                'scope the deck to a directory or glob, e.g. src/context',
+            )
+            .option(
+                '--no-cache',
+                'ignore the cached analysis from earlier runs',
+            )
+            .option(
+                '--replay',
+                'use recorded LLM responses only, failing when one is missing',
+            )
+            .action(
+                async ({ cache, replay, project, ...options }: CLIOptions) => {
+                    let source: ProjectSource | undefined
+                    try {
+                        if (options.dryRun) {
+                            this.info(
+                                '🔍 Running in dry-run mode (analysis only)',
+                            )
+                        }
+                        this.info('🚀 Starting presentation generation...')
+                        this.info('')
+
+                        source = await this.openProject(project)
+                        const projectRoot = source.root
+
+                        this.startSpinner('Loading configuration...')
+                        // Only an explicit --no-cache overrides the config file
+                        const config = await this.loadConfig(
+                            cache === false ? { ...options, cache } : options,
+                            replay,
+                            projectRoot,
+                        )
+                        if (!options.dryRun && !config.llmCache?.replay) {
+                            await this.getAPIKey(config, options.apiKey)
+                        }
+                        await this.simulateDelay(800)
+                        this.succeedSpinner('Configuration loaded successfully')
+
+                        // Initialize components
+                        this.startSpinner('Initializing project analyzer...')
+                        const egress = new EgressLog()
+                        const analyzer = new ProjectAnalyzer(
+                            projectRoot,
+                            options.dryRun ? 'dry-run' : options.apiKey,
+                            config,
+                            egress,
+                        )
+                        const generator = new SlidesGenerator(
+                            config.slidesPath,
+                            options.dryRun ? 'dry-run' : options.apiKey,
+                            config,
+                            egress,
+                        )
 
-                    this.startSpinner('Loading configuration...')
-                    const config = await this.loadConfig(options)
-                    if (!options.dryRun) {
-                        await this.getAPIKey(options.apiKey)
-                    }
-                    await this.simulateDelay(800)
-                    this.succeedSpinner('Configuration loaded successfully')
-
-                    // Initialize components
-                    this.startSpinner('Initializing project analyzer...')
-                    const analyzer = new ProjectAnalyzer(
-                        this.projectRoot,
-                        options.dryRun ? 'dry-run' : options.apiKey,
-                    )
-                    const generator = new SlidesGenerator(
-                        config.slidesPath,
-                        options.dryRun ? 'dry-run' : options.apiKey,
-                    )
+                        if (options.dryRun) {
+                            await this.simulateDelay(600)
+                        }
+
+                        this.succeedSpinner(
+                            'Components initialized successfully',
+                        )
 
-                    if (options.dryRun) {
-                        await this.simulateDelay(600)
+                        // Generate presentation
+                        this.startSpinner('Analyzing project structure...')
+                        const context = await analyzer.analyze()
+
+                        this.succeedSpinner('Project analysis complete')
+                        this.reportRedactions(analyzer.redactions)
+                        this.reportWarnings(analyzer.warnings)
+
+                        // Write analysis log in dry-run mode
+                        if (options.dryRun) {
+                            const { report } = generator.compact(context)
+                            await this.writeDebugLog(config.slidesPath, {
+                                timestamp: new Date().toISOString(),
+                                projectRoot,
+                                config,
+                                context,
+                                redactions: analyzer.redactions,
+                                compaction: report,
+                                fileSelectionCompaction:
+                                    analyzer.fileSelectionCompaction,
+                            })
+                            this.info(
+                                `✂️  Prompt context: ~${report.tokensAfter} of ${report.budget} tokens (${report.truncated.length} truncated, ${report.dropped.length} dropped)`,
+                            )
+                        }
+
+                        this.startSpinner('Generating presentation content...')
+                        if (!options.dryRun) {
+                            await generator.generate(context)
+                        } else {
+                            // Simulate generation time in dry-run mode
+                            await this.simulateDelay(3000)
+                        }
+                        this.succeedSpinner(
+                            'Presentation generated successfully',
+                        )
+
+                        this.info('\n✨ All done! Your presentation is ready!')
+                        if (options.dryRun) {
+                            this.info(
+                                '🔍 Note: This was a dry-run (analysis only)',
+                            )
+                            this.info(
+                                `📝 Analysis log written to: ${join(config.slidesPath, '.debug.log')}`,
+                            )
+                        }
+                        this.info(`📁 Location: ${config.slidesPath}`)
+                        if (!options.dryRun) {
+                            this.reportEgress(egress, config.slidesPath)
+                        }
+                        this.info(
+                            '💡 Tip: Run `slidev-gen preview` to view your presentation',
+                        )
+                    } catch (error) {
+                        this.failSpinner('Generation failed')
+                        // handleError exits, so the unpacked project is
+                        // removed first
+                        await source?.cleanup()
+                        this.handleError(error)
                     }
+                    await source?.cleanup()
+                },
+            )
+    }
 
-                    this.succeedSpinner('Components initialized successfully')
+    private setupReleaseCommand(): void {
+        this.program
+            .command('release')
+            .description('Generate release notes slides for a range of commits')
+            .argument('<range>', 'revision range, e.g. v1.0.0..v1.1.0')
+            .option('-o, --slides-path <dir>', 'output directory', './.slides')
+            .option(
+                '-p, --project <path>',
+                'project directory, .tar.gz export or git bundle to analyze',
+            )
+            .option('-t, --theme <theme>', 'Slidev theme to use', 'default')
+            .action(
+                async (range: string, { project, ...options }: CLIOptions) => {
+                    let source: ProjectSource | undefined
+                    try {
+                        this.info(`🚀 Generating release deck for ${range}...`)
+                        this.info('')
+
+                        source = await this.openProject(project)
+                        this.startSpinner('Loading configuration...')
+                        const config = await this.loadConfig(
+                            options,
+                            undefined,
+                            source.root,
+                        )
+                        this.succeedSpinner('Configuration loaded successfully')
 
-                    // Generate presentation
-                    this.startSpinner('Analyzing project structure...')
-                    const context = await analyzer.analyze()
+                        this.startSpinner('Analyzing release history...')
+                        const release = await analyzeRelease(source.root, range)
+                        this.succeedSpinner(
+                            `Found ${release.commits.length} commits between ${release.from} and ${release.to}`,
+                        )
 
-                    // Write analysis log in dry-run mode
-                    if (options.dryRun) {
-                        await this.writeDebugLog(config.slidesPath, {
-                            timestamp: new Date().toISOString(),
-                            projectRoot: this.projectRoot,
+                        this.startSpinner('Generating release slides...')
+                        const generator = new SlidesGenerator(
+                            config.slidesPath,
+                            undefined,
                             config,
-                            context,
-                        })
+                        )
+                        await generator.generateRelease(release)
+                        this.succeedSpinner(
+                            'Release slides generated successfully',
+                        )
+
+                        this.info('\n✨ All done! Your release deck is ready!')
+                        this.info(`📁 Location: ${config.slidesPath}`)
+                        this.info(
+                            '💡 Tip: Run `slidev-gen preview` to view your presentation',
+                        )
+                    } catch (error) {
+                        this.failSpinner('Release generation failed')
+                        // handleError exits, so the unpacked project is
+                        // removed first
+                        await source?.cleanup()
+                        this.handleError(error)
                     }
+                    await source?.cleanup()
+                },
+            )
+    }
 
-                    this.succeedSpinner('Project analysis complete')
+    private setupReviewCommand(): void {
+        this.program
+            .command('review')
+            .description('Generate a code review deck for a branch diff')
+            .argument('<range>', 'branch range, e.g. main...feature')
+            .option('-o, --slides-path <dir>', 'output directory', './.slides')
+            .option(
+                '-p, --project <path>',
+                'project directory, .tar.gz export or git bundle to analyze',
+            )
+            .option('-m, --model <model>', 'model to use (overrides config)')
+            .option('-t, --theme <theme>', 'Slidev theme to use', 'default')
+            .option(
+                '-k, --api-key <key>',
+                'API key for the configured provider',
+            )
+            .option(
+                '--replay',
+                'use recorded LLM responses only, failing when one is missing',
+            )
+            .action(
+                async (
+                    range: string,
+                    { replay, project, ...options }: CLIOptions,
+                ) => {
+                    let source: ProjectSource | undefined
+                    try {
+                        this.info(`🚀 Generating review deck for ${range}...`)
+                        this.info('')
+
+                        source = await this.openProject(project)
+                        this.startSpinner('Loading configuration...')
+                        const config = await this.loadConfig(
+                            options,
+                            replay,
+                            source.root,
+                        )
+                        if (!config.llmCache?.replay) {
+                            await this.getAPIKey(config, options.apiKey)
+                        }
+                        this.succeedSpinner('Configuration loaded successfully')
+
+                        this.startSpinner('Analyzing branch diff...')
+                        const filter = new EgressFilter(config)
+                        const review = await analyzeReview(source.root, range, {
+                            filter: path => filter.allows(path),
+                        })
+                        this.succeedSpinner(
+                            `Found ${review.files.length} changed files across ${review.modules.length} modules`,
+                        )
+                        // The review comes back redacted, the masks are recounted
+                        this.reportRedactions({
+                            blockedFiles: review.files
+                                .map(file => file.path)
+                                .filter(isBlockedFile),
+                            redactions: redactSecrets(review).redactions,
+                        })
 
-                    this.startSpinner('Generating presentation content...')
-                    if (!options.dryRun) {
-                        await generator.generate(context)
-                    } else {
-                        // Simulate generation time in dry-run mode
-                        await this.simulateDelay(3000)
-                    }
-                    this.succeedSpinner('Presentation generated successfully')
+                        this.startSpinner('Generating review slides...')
+                        const egress = new EgressLog()
+                        const generator = new SlidesGenerator(
+                            config.slidesPath,
+                            options.apiKey,
+                            config,
+                            egress,
+                        )
+                        await generator.generateReview(review)
+                        this.succeedSpinner(
+                            'Review slides generated successfully',
+                        )
 
-                    this.info('\n✨ All done! Your presentation is ready!')
-                    if (options.dryRun) {
-                        this.info('🔍 Note: This was a dry-run (analysis only)')
+                        this.info('\n✨ All done! Your review deck is ready!')
+                        this.info(`📁 Location: ${config.slidesPath}`)
+                        this.reportEgress(egress, config.slidesPath)
                         this.info(
-                            `📝 Analysis log written to: ${join(config.slidesPath, '.debug.log')}`,
+                            '💡 Tip: Run `slidev-gen preview` to view your presentation',
                         )
+                    } catch (error) {
+                        this.failSpinner('Review generation failed')
+                        // handleError exits, so the unpacked project is
+                        // removed first
+                        await source?.cleanup()
+                        this.handleError(error)
                     }
-                    this.info(`📁 Location: ${config.slidesPath}`)
-                    this.info(
-                        '💡 Tip: Run `slidev-gen preview` to view your presentation',
-                    )
-                } catch (error) {
-                    this.failSpinner('Generation failed')
-                    this.handleError(error)
-                }
-            })
+                    await source?.cleanup()
+                },
+            )
     }
 
     private setupPreviewCommand(): void {
@@ -205,13 +428,20 @@ class CLI {
             })
     }
 
-    private async loadConfig(options: CLIOptions): Promise<ProjectConfig> {
+    private async loadConfig(
+        options: CLIOptions,
+        replay?: boolean,
+        projectRoot = this.projectRoot,
+    ): Promise<ProjectConfig> {
         try {
-            const baseConfig = await this.configManager.loadConfig()
-            return {
-                ...baseConfig,
-                ...options,
+            const baseConfig = await new ConfigManager(projectRoot).loadConfig()
+            // The output stays next to the caller, also for other projects
+            const config = { ...baseConfig, ...options }
+            config.slidesPath = resolve(config.slidesPath)
+            if (replay) {
+                config.llmCache = { ...config.llmCache, replay }
             }
+            return config
         } catch (error) {
             if (error instanceof Error) {
                 throw new SlidevGenError(
@@ -224,21 +454,68 @@ class CLI {
         }
     }
 
-    private async getAPIKey(cliKey?: string): Promise<string> {
-        // 1. Try CLI provided key
-        if (cliKey) return cliKey
-
-        // 2. Try environment variable
-        const envKey = process.env.OPENAI_API_KEY
-        if (envKey) return envKey
+    /**
+     * Opens `--project`, or the working directory. Archives and bundles are
+     * unpacked into a temporary directory, removed by `cleanup`.
+     */
+    private async openProject(project?: string): Promise<ProjectSource> {
+        if (!project) return openProject(this.projectRoot)
+
+        this.startSpinner(`Opening ${project}...`)
+        const source = await openProject(project)
+        this.succeedSpinner(`Opened ${source.kind} ${project}`)
+        return source
+    }
 
-        // 3. If not found, error out
-        throw new SlidevGenError(
-            'APIKeyMissing',
-            'OpenAI API key not found. Please provide it via --api-key or set OPENAI_API_KEY environment variable.',
+    private reportEgress(egress: EgressLog, slidesPath: string): void {
+        const files = new Set(
+            egress.entries.flatMap(request =>
+                request.sources.map(source => source.path),
+            ),
+        )
+        this.info(
+            `📤 Sent ${egress.entries.length} request(s) with ${files.size} file(s), see ${join(slidesPath, 'egress.json')}`,
         )
     }
 
+    private reportRedactions({
+        blockedFiles,
+        redactions,
+    }: RedactionReport): void {
+        for (const path of blockedFiles) {
+            this.info(`🚫 Blocked ${path} from the prompt context`)
+        }
+        if (redactions.length === 0) return
+
+        const total = redactions.reduce((sum, r) => sum + r.count, 0)
+        this.info(`🔒 Redacted ${total} secret(s) before sending context:`)
+        for (const { path, kind, count } of redactions) {
+            this.info(`   ${path}: ${count} × ${kind}`)
+        }
+    }
+
+    private reportWarnings(warnings: AnalysisWarning[]): void {
+        for (const { stage, message } of warnings) {
+            this.info(`⚠️  Incomplete ${stage} analysis: ${message}`)
+        }
+    }
+
+    private async getAPIKey(
+        config: ProjectConfig,
+        cliKey?: string,
+    ): Promise<string | undefined> {
+        // Try the CLI provided key, then the provider's environment variable.
+        // Self-hosted OpenAI-compatible servers may not need a key at all.
+        try {
+            return resolveApiKey(config.provider, cliKey)
+        } catch {
+            throw new SlidevGenError(
+                'APIKeyMissing',
+                `${getProviderLabel(config.provider)} API key not found. Please provide it via --api-key or set ${getApiKeyEnv(config.provider)} environment variable.`,
+            )
+        }
+    }
+
     private async simulateDelay(ms: number = 1000): Promise<void> {
         await new Promise(resolve => setTimeout(resolve, ms))
     }
@@ -260,7 +537,17 @@ class CLI {
                 ],
             },
             dependencies: {
-                packageManager: 'bun' as const,
+                ecosystem: 'node' as const,
+                manifests: [
+                    {
+                        path: 'package.json',
+                        ecosystem: 'node' as const,
+                        packageManager: 'bun',
+                        packages: {
+                            'mock-package': '^1.0.0',
+                        },
+                    },
+                ],
                 packages: {
                     'mock-package': '^1.0.0',
                 },
@@ -269,11 +556,28 @@ class CLI {
                 recentCommits: ['feat: mock commit'],
                 majorChanges: ['Initial mock setup'],
                 contributors: ['Developer'],
+                contributorStats: [
+                    {
+                        name: 'Developer',
+                        email: 'developer@example.com',
+                        commits: 1,
+                    },
+                ],
+                tags: [],
+                totalCommits: 1,
+                fileChurn: [],
+                commitTypes: { feat: 1 },
             },
             codebase: {
                 mainLanguages: ['TypeScript'],
                 fileStructure:
                     'src/\n  cli/\n    index.ts\n  utils/\n    logger.ts',
+                tree: {
+                    name: '.',
+                    path: '',
+                    type: 'directory' as const,
+                    children: [],
+                },
                 significantFiles: ['src/cli/index.ts', 'src/utils/logger.ts'],
                 importantFiles: [
                     {
@@ -1,11 +1,112 @@
 import { z } from 'zod'
 
+export const ProviderNames = [
+    'openai',
+    'anthropic',
+    'azure',
+    'openai-compatible',
+] as const
+
+export const ProviderConfigSchema = z.object({
+    name: z.enum(ProviderNames).default('openai'),
+    // Endpoint override, required for self-hosted OpenAI-compatible servers
+    baseURL: z.string().optional(),
+    // Environment variable holding the API key (defaults per provider)
+    apiKeyEnv: z.string().optional(),
+})
+
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>
+
+export type ProviderName = ProviderConfig['name']
+
+export const ModelStages = [
+    'fileSelection',
+    'contentGeneration',
+    'diagramRepair',
+] as const
+
+export type ModelStage = (typeof ModelStages)[number]
+
+export const ModelRoutingSchema = z.object({
+    // Per-stage models, falling back to the top-level `model` when unset
+    fileSelection: z.string().optional(),
+    contentGeneration: z.string().optional(),
+    diagramRepair: z.string().optional(),
+    // Tried in order when a model call fails or returns an invalid object
+    fallbacks: z.array(z.string()).optional(),
+})
+
+export type ModelRouting = z.infer<typeof ModelRoutingSchema>
+
 export const ProjectConfigSchema = z.object({
     // Presentation settings
     slidesPath: z.string().default('./.slides'),
-    model: z.string().default('gpt-4'),
+    // Unset uses the per-stage defaults of the model router
+    model: z.string().optional(),
     theme: z.string().default('default'),
 
+    // File tree settings
+    tree: z
+        .object({
+            depth: z.number().int().positive().optional(),
+            maxEntries: z.number().int().positive().optional(),
+        })
+        .optional(),
+
+    // Import graph settings for the architecture diagram
+    architecture: z
+        .object({
+            // Directory levels kept as nodes, deeper modules are collapsed
+            depth: z.number().int().positive().optional(),
+        })
+        .optional(),
+
+    // Code and docs retrieved for the architecture, features and technical
+    // sections
+    retrieval: z
+        .object({
+            // Chunks per section
+            topK: z.number().int().positive().optional(),
+            // Longest chunk in lines
+            chunkLines: z.number().int().positive().optional(),
+        })
+        .optional(),
+
+    // Directory or glob the deck is about (defaults to the whole project)
+    focus: z.string().optional(),
+
+    // Files the analysis may read and send to the model provider
+    // (.gitignore-style globs relative to the project root)
+    include: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+
+    // Reuse the previous analysis and recorded LLM responses
+    cache: z.boolean().optional(),
+
+    // Recorded LLM responses (defaults to <slidesPath>/.cache/llm)
+    llmCache: z
+        .object({
+            dir: z.string().optional(),
+            // Fail instead of calling a model when no response is recorded
+            replay: z.boolean().optional(),
+            // Always call the model and record its responses, e.g. to
+            // regenerate fixtures
+            record: z.boolean().optional(),
+        })
+        .optional(),
+
+    // Prompt budget settings (tokens)
+    budget: z
+        .object({
+            maxTokens: z.number().int().positive().optional(),
+            maxFileTokens: z.number().int().positive().optional(),
+        })
+        .optional(),
+
+    // LLM provider settings
+    provider: ProviderConfigSchema.optional(),
+    models: ModelRoutingSchema.optional(),
+
     // Deployment settings
     deploymentType: z.enum(['github', 'netlify', 'vercel']).default('github'),
     customDomain: z.string().optional(),
@@ -1,122 +1,320 @@
-import { exec } from 'child_process'
 import { constants } from 'fs'
-import { access, readFile } from 'fs/promises'
-import { join } from 'path'
-import { promisify } from 'util'
+import { access, readFile, stat } from 'fs/promises'
+import { join, resolve } from 'path'
 
-import { createOpenAI } from '@ai-sdk/openai'
-import { generateObject } from 'ai'
 import dedent from 'dedent'
-import { execa } from 'execa'
 import { glob } from 'glob'
 import { z } from 'zod'
 
 import { SlidevGenError } from '../errors/SlidevGenError'
+import { compactDocuments } from '../llm/budget'
+import { contentSources } from '../llm/egress'
+import { createResponseCache } from '../llm/response-cache'
+import { ModelRouter } from '../llm/router'
+import { AnalysisCache, staleStages } from './cache'
+import { findDebtMarkers, summarizeDebt } from './debt'
+import { EgressFilter } from './egress'
+import { buildFileTree, loadGitignore } from './file-tree'
+import { FocusScope, readmeExcerpt } from './focus'
+import { GitRepository, parseConventionalCommit } from './git'
+import { buildImportGraph, collectImports } from './import-graph'
+import { analyzeInfrastructure } from './infrastructure'
+import { primaryEcosystem, readManifests } from './manifests'
+import { analyzeMetadata } from './metadata'
+import { extractPublicApi } from './public-api'
+import { analyzeQuality, isTestFile } from './quality'
+import { rankFiles } from './ranking'
+import { chunkDocument, LexicalIndex, retrievalQueries } from './retrieval'
+import { isBlockedFile, redactSecrets } from './secrets'
+import { extractUsage } from './usage'
+import { analyzeWorkspaces, getEntryPoints } from './workspaces'
 
-import type { ProjectContext } from './types'
+import type { ProjectConfig } from '../config/types'
+import type { CompactionReport } from '../llm/budget'
+import type { EgressLog } from '../llm/egress'
+import type { AnalysisStage, ImportantFileSelection } from './cache'
+import type { RankedFile } from './ranking'
+import type { RedactionReport } from './secrets'
+import type { AnalysisWarning, ProjectContext } from './types'
 
-const execAsync = promisify(exec)
+// Commits inspected for churn and commit type statistics
+const GIT_HISTORY_LIMIT = 1000
+
+// Ranked files offered to the file selection model
+const SHORTLIST_SIZE = 20
+
+// Files picked without the model (dry runs, failed model calls)
+const HEURISTIC_PICKS = 5
+
+// Chunks retrieved per slide section
+const RETRIEVAL_TOP_K = 5
+
+// Files above this size (bytes) aren't indexed for retrieval or scanned
+// for debt markers
+const MAX_INDEXED_FILE_SIZE = 200_000
+
+// README locations in order of preference, matched case-insensitively
+const readmeCandidates = [
+    'README.md',
+    'README.markdown',
+    'README.rst',
+    'README.txt',
+    'README',
+    'docs/index.md',
+    'docs/README.md',
+]
+
+const emptyGit: ProjectContext['git'] = {
+    recentCommits: [],
+    majorChanges: [],
+    contributors: [],
+    contributorStats: [],
+    tags: [],
+    totalCommits: 0,
+    fileChurn: [],
+    commitTypes: {},
+}
+
+/**
+ * The 3 most frequent file extensions.
+ */
+function topExtensions(files: string[]): string[] {
+    const langCount = files
+        .map(file => file.split('.').pop() || '')
+        .reduce((acc: Record<string, number>, ext: string) => {
+            acc[ext] = (acc[ext] || 0) + 1
+            return acc
+        }, {})
+
+    return Object.entries(langCount)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 3)
+        .map(([lang]) => lang)
+}
 
 export class ProjectAnalyzer {
-    private openai: ReturnType<typeof createOpenAI> | undefined
+    private readonly router: ModelRouter
+    private readonly filter: EgressFilter
+    private readonly focus?: FocusScope
+    private redactionReport: RedactionReport = {
+        blockedFiles: [],
+        redactions: [],
+    }
+    private analysisWarnings: AnalysisWarning[] = []
+    private fileSelectionReport?: CompactionReport
 
     constructor(
         private readonly projectRoot: string,
         private readonly apiKey?: string,
-    ) {}
-
-    private initializeOpenAI(): ReturnType<typeof createOpenAI> {
-        if (!this.openai) {
-            const key = this.apiKey ?? process.env.OPENAI_API_KEY
-            if (!key) {
-                throw new Error(
-                    'OpenAI API key must be provided either as constructor argument or in process.env.OPENAI_API_KEY',
-                )
-            }
-            this.openai = createOpenAI({
-                apiKey: key,
-                compatibility: 'strict',
-            })
-        }
-        return this.openai
+        private readonly config: Partial<ProjectConfig> = {},
+        egress?: EgressLog,
+    ) {
+        this.filter = new EgressFilter(config)
+        this.focus = config.focus ? new FocusScope(config.focus) : undefined
+        this.router = new ModelRouter(
+            config,
+            apiKey,
+            undefined,
+            createResponseCache({
+                ...config,
+                slidesPath: resolve(
+                    projectRoot,
+                    config.slidesPath ?? './.slides',
+                ),
+            }),
+            egress,
+        )
     }
 
+    /**
+     * Picks the files whose content is included in the context. The model
+     * chooses from a locally ranked shortlist; dry runs, and runs where the
+     * model call fails, take the top of the shortlist instead. The docs in
+     * the prompt are fitted into the model's budget, also in dry runs so the
+     * report shows what would be left out.
+     */
     private async getImportantFilePaths(
         context: Omit<ProjectContext, 'codebase'> & {
             codebase: Omit<ProjectContext['codebase'], 'importantFiles'>
         },
-    ): Promise<string[]> {
-        // In dry-run mode, return a subset of significant files
-        if (this.apiKey === 'dry-run') {
-            return context.codebase.significantFiles
-                .filter(file => !file.startsWith('.')) // Skip hidden files
-                .slice(0, 3) // Take up to 3 files
+        shortlist: RankedFile[],
+    ): Promise<{ paths: string[]; selection: ImportantFileSelection }> {
+        const heuristicPicks = {
+            paths: shortlist.slice(0, HEURISTIC_PICKS).map(file => file.path),
+            selection: 'heuristic' as const,
         }
 
+        if (shortlist.length === 0) return heuristicPicks
+
+        const prompt = (references: string) => dedent`
+            Based on the following project context, pick the top 5 most important source files that should be highlighted in the presentation.
+            
+            Available information:
+            1. Candidate Files (ranked, with the signals behind each rank):
+            ${shortlist
+                .map(
+                    file =>
+                        `- ${file.path}${file.reasons.length > 0 ? ` (${file.reasons.join(', ')})` : ''}`,
+                )
+                .join('\n')}
+
+            2. Main Languages: ${context.codebase.mainLanguages.join(', ')}
+            
+            3. Configuration Files: 
+            ${context.codebase.significantFiles.join('\n')}
+            
+            4. Recent Git Activity:
+            - Recent commits: ${context.git.recentCommits.join('\n- ')}
+            - Major changes: ${context.git.majorChanges.join('\n- ')}
+            
+            5. Tech Stack (${context.dependencies.ecosystem}):
+            ${Object.entries(context.dependencies.packages)
+                .map(([pkg, version]) => `- ${pkg}@${version}`)
+                .join('\n')}
+            
+            6. Documentation References:
+            ${references}
+
+            Based on this information, return an array of the most important candidate file paths, exactly as listed.
+            Focus on:
+            1. Main entry points and core modules
+            2. Files implementing key features mentioned in documentation
+            3. Files with significant recent changes
+            4. Files that demonstrate the project's architecture
+            `
+        const { documents, report } = compactDocuments(
+            [
+                {
+                    section: 'readme' as const,
+                    path: context.documentation.readme.path,
+                    document: context.documentation.readme,
+                },
+                ...context.documentation.additionalDocs.map(doc => ({
+                    section: 'documentation' as const,
+                    path: doc.path,
+                    document: doc,
+                })),
+            ].filter(({ document }) => document.content.length > 0),
+            {
+                models: this.router.getModelChain('fileSelection'),
+                ...this.config.budget,
+                base: prompt(''),
+            },
+        )
+        this.fileSelectionReport = report
+        const references = documents.map(doc => doc.content).join('\n')
+
+        if (this.apiKey === 'dry-run') return heuristicPicks
+
         try {
-            const openai = this.initializeOpenAI()
-            const { object } = await generateObject({
-                model: openai('o3-mini'),
+            const object = await this.router.generateObject('fileSelection', {
                 system: dedent`
                     You are a technical presentation expert analyzing a project's structure.
-                    Your task is to identify the most likely important source files based on:
-                    - File names and paths
-                    - Project structure
+                    Your task is to identify the most important source files among candidates that were ranked by:
+                    - Entry points declared in package.json
+                    - How many other files import them
                     - Git history
-                    - Dependencies and tech stack
+                    - File size
                     - Documentation references
                 `,
-                prompt: dedent`
-                    Based on the following project context, identify the top 5 most important source files that should be highlighted in the presentation.
-                    
-                    Available information:
-                    1. File Structure:
-                    ${context.codebase.fileStructure}
-
-                    2. Main Languages: ${context.codebase.mainLanguages.join(', ')}
-                    
-                    3. Configuration Files: 
-                    ${context.codebase.significantFiles.join('\n')}
-                    
-                    4. Recent Git Activity:
-                    - Recent commits: ${context.git.recentCommits.join('\n- ')}
-                    - Major changes: ${context.git.majorChanges.join('\n- ')}
-                    
-                    5. Tech Stack:
-                    ${Object.entries(context.dependencies.packages)
-                        .map(([pkg, version]) => `- ${pkg}@${version}`)
-                        .join('\n')}
-                    
-                    6. Documentation References:
-                    ${context.documentation.readme.content}
-                    ${context.documentation.additionalDocs
-                        .map(doc => doc.content)
-                        .join('\n')}
-
-                    Based on this information, return an array of the most important source file paths (relative to project root).
-                    Focus on:
-                    1. Main entry points and core modules
-                    2. Files implementing key features mentioned in documentation
-                    3. Files with significant recent changes
-                    4. Critical configuration and type definition files
-                    5. Files that demonstrate the project's architecture
-                    `,
+                prompt: prompt(references),
                 schema: z.object({
                     paths: z
                         .array(z.string())
                         .describe(
-                            'Array of important file paths relative to project root',
+                            'Array of important file paths from the candidate list',
                         ),
                 }),
+                sources: contentSources(documents),
             })
 
-            return object.paths
+            // Paths outside the shortlist are made up or weren't vetted
+            const candidates = new Set(shortlist.map(file => file.path))
+            const paths = object.paths.filter(path => candidates.has(path))
+            return paths.length > 0
+                ? { paths, selection: 'model' }
+                : heuristicPicks
         } catch (error) {
+            // Replay runs must not silently diverge from the recording
+            if (this.router.replay) throw error
             console.warn('Failed to get important file paths:', error)
-            return []
+            return heuristicPicks
         }
     }
 
+    /**
+     * Ranks source files without a model, by entry point status, import
+     * centrality, git churn, size and README mentions.
+     */
+    private async rankSourceFiles(
+        context: Pick<ProjectContext, 'documentation' | 'workspace' | 'git'>,
+    ): Promise<RankedFile[]> {
+        const files = (await this.listSourceFiles()).filter(
+            file => !isBlockedFile(file),
+        )
+        const read = (file: string) =>
+            readFile(join(this.projectRoot, file), 'utf-8')
+
+        const entryPoints = (context.workspace?.packages ?? []).flatMap(pkg =>
+            pkg.entryPoints.map(entry => join(pkg.path, entry)),
+        )
+        if (this.filter.allows('package.json')) {
+            try {
+                entryPoints.push(
+                    ...getEntryPoints(JSON.parse(await read('package.json'))),
+                )
+            } catch {
+                // No (valid) root package.json
+            }
+        }
+
+        const sizes = new Map<string, number>()
+        await Promise.all(
+            files.map(async file => {
+                sizes.set(file, (await stat(join(this.projectRoot, file))).size)
+            }),
+        )
+
+        return rankFiles(
+            {
+                files,
+                entryPoints,
+                imports: await collectImports(files, read),
+                churn: context.git.fileChurn,
+                sizes,
+                readme: context.documentation.readme.content,
+            },
+            SHORTLIST_SIZE,
+        )
+    }
+
+    /**
+     * Secrets masked and files blocked during the last `analyze()` run.
+     */
+    get redactions(): RedactionReport {
+        return this.redactionReport
+    }
+
+    /**
+     * What was truncated or left out of the docs in the file selection
+     * prompt during the last `analyze()` run, if it picked files.
+     */
+    get fileSelectionCompaction(): CompactionReport | undefined {
+        return this.fileSelectionReport
+    }
+
+    /**
+     * Stages that found nothing to analyze or failed during the last
+     * `analyze()` run.
+     */
+    get warnings(): AnalysisWarning[] {
+        return this.analysisWarnings
+    }
+
+    private warn(stage: AnalysisWarning['stage'], message: string): void {
+        this.analysisWarnings.push({ stage, message })
+    }
+
     private async readImportantFiles(
         paths: string[],
     ): Promise<Array<{ path: string; content: string }>> {
@@ -139,28 +337,294 @@ export class ProjectAnalyzer {
         )
     }
 
+    /**
+     * Analyzes the project, reusing the cached analysis from a previous run
+     * when possible. Only stages whose inputs changed since then are re-run,
+     * and the important file selection is kept as long as the file structure
+     * is unchanged. Set `cache: false` in the config to always start fresh.
+     * Stages that fail are left empty and reported in `warnings`. With a
+     * `focus`, docs, files, the tree and git history are scoped to it.
+     */
     async analyze(): Promise<ProjectContext> {
+        if (
+            this.focus &&
+            (await glob(this.focus.pattern, { cwd: this.projectRoot }))
+                .length === 0
+        ) {
+            throw new SlidevGenError(
+                'InvalidConfiguration',
+                `Focus "${this.focus.pattern}" matches nothing in the project`,
+            )
+        }
+
+        const cache =
+            this.config.cache === false
+                ? undefined
+                : new AnalysisCache(
+                      this.projectRoot,
+                      this.config.slidesPath ?? './.slides',
+                      this.config,
+                  )
+        const fingerprint = await cache?.fingerprint()
+        const cached = fingerprint && (await cache?.load(fingerprint))
+        const changed =
+            cached &&
+            (await cache?.changedPaths(cached.fingerprint, fingerprint))
+
+        // Heuristic picks of a dry run or a failed model call are retried
+        // once the model is available
+        const selectionUsable =
+            cached &&
+            cached.selection ===
+                (this.apiKey === 'dry-run' ? 'heuristic' : 'model') &&
+            cached.importantPaths.length > 0
+
+        this.analysisWarnings = []
+        this.fileSelectionReport = undefined
+        if (cached && selectionUsable && changed?.length === 0) {
+            this.analysisWarnings = cached.context.warnings ?? []
+            // Cached contexts are already redacted, the masks are recounted
+            this.redactionReport = {
+                blockedFiles: cached.importantPaths.filter(isBlockedFile),
+                redactions: redactSecrets(cached.context).redactions,
+            }
+            return cached.context
+        }
+
+        // Without a usable cache every stage runs
+        const stale =
+            cached && changed
+                ? staleStages(
+                      changed,
+                      cached.fingerprint.head !== fingerprint.head,
+                  )
+                : undefined
+        const isFresh = (stage: AnalysisStage) =>
+            stale !== undefined && !stale.has(stage)
+
+        // A failing stage leaves its part of the context empty instead of
+        // failing the whole analysis; cached stages keep their warnings
+        let failed = false
+        const runStage = async <T>(
+            stage: AnalysisWarning['stage'],
+            fresh: boolean,
+            fromCache: (context: ProjectContext) => T,
+            run: () => Promise<T>,
+            fallback: T,
+        ): Promise<T> => {
+            if (cached && fresh) {
+                this.analysisWarnings.push(
+                    ...(cached.context.warnings ?? []).filter(
+                        warning => warning.stage === stage,
+                    ),
+                )
+                return fromCache(cached.context)
+            }
+            try {
+                return await run()
+            } catch (error) {
+                failed = true
+                this.warn(
+                    stage,
+                    error instanceof Error ? error.message : String(error),
+                )
+                return fallback
+            }
+        }
+
         // Analyze project components in parallel
-        const [documentation, dependencies, git, codebase] = await Promise.all([
-            this.analyzeDocumentation(),
-            this.analyzeDependencies(),
-            this.analyzeGit(),
-            this.analyzeCodebase(),
+        const [
+            documentation,
+            dependencies,
+            metadata,
+            git,
+            codebase,
+            publicApi,
+            infrastructure,
+            technicalDebt,
+            focus,
+        ] = await Promise.all([
+            runStage(
+                'documentation',
+                isFresh('documentation'),
+                context => context.documentation,
+                () => this.analyzeDocumentation(),
+                { readme: { path: '', content: '' }, additionalDocs: [] },
+            ),
+            runStage(
+                'dependencies',
+                isFresh('dependencies'),
+                context => context.dependencies,
+                () => this.analyzeDependencies(),
+                { ecosystem: 'unknown', manifests: [], packages: {} },
+            ),
+            runStage(
+                'metadata',
+                isFresh('metadata'),
+                context => context.metadata,
+                () => this.analyzeMetadata(),
+                undefined,
+            ),
+            runStage(
+                'git',
+                isFresh('git'),
+                context => context.git,
+                () => this.analyzeGit(),
+                emptyGit,
+            ),
+            runStage(
+                'codebase',
+                false,
+                context => context.codebase,
+                () => this.analyzeCodebase(),
+                {
+                    mainLanguages: [],
+                    fileStructure: '',
+                    tree: {
+                        name: '.',
+                        path: '',
+                        type: 'directory',
+                        children: [],
+                    },
+                    significantFiles: [],
+                    importantFiles: [],
+                },
+            ),
+            runStage(
+                'publicApi',
+                isFresh('publicApi'),
+                context => context.publicApi,
+                () => this.analyzePublicApi(),
+                undefined,
+            ),
+            runStage(
+                'infrastructure',
+                isFresh('infrastructure'),
+                context => context.infrastructure,
+                () => this.analyzeInfrastructure(),
+                undefined,
+            ),
+            runStage(
+                'technicalDebt',
+                isFresh('technicalDebt'),
+                context => context.technicalDebt,
+                () => this.analyzeTechnicalDebt(),
+                undefined,
+            ),
+            runStage(
+                'focus',
+                false,
+                context => context.focus,
+                () => this.analyzeFocus(),
+                undefined,
+            ),
         ])
 
-        // Get important files if API key is available
-        const baseContext = { documentation, dependencies, git, codebase }
-        const importantFilePaths = await this.getImportantFilePaths(baseContext)
-        const importantFiles = await this.readImportantFiles(importantFilePaths)
+        // Workspace detection reuses the root package manager
+        const workspace = await runStage(
+            'workspace',
+            isFresh('dependencies'),
+            context => context.workspace,
+            () => this.analyzeWorkspaces(dependencies),
+            undefined,
+        )
 
-        // Return complete analysis
-        return {
+        // Framework detection reuses the declared dependencies
+        const quality = await runStage(
+            'quality',
+            isFresh('quality') && isFresh('dependencies'),
+            context => context.quality,
+            () => this.analyzeQuality(dependencies),
+            undefined,
+        )
+
+        // Usage is taken from the README and the root package.json
+        const usage = await runStage(
+            'usage',
+            isFresh('documentation') && isFresh('dependencies'),
+            context => context.usage,
+            () => this.analyzeUsage(documentation, dependencies),
+            undefined,
+        )
+
+        // Secrets are masked before anything is sent to a model or cached
+        const { value: baseContext, redactions } = redactSecrets({
+            documentation,
+            dependencies,
+            metadata,
+            workspace,
+            git,
+            codebase,
+            quality,
+            usage,
+            infrastructure,
+            technicalDebt,
+            focus,
+        })
+        const { paths: importantFilePaths, selection } =
+            cached &&
+            selectionUsable &&
+            cached.context.codebase.fileStructure ===
+                baseContext.codebase.fileStructure
+                ? { paths: cached.importantPaths, selection: cached.selection }
+                : await this.getImportantFilePaths(
+                      baseContext,
+                      await this.rankSourceFiles(baseContext),
+                  )
+        const retrieval = await runStage(
+            'retrieval',
+            false,
+            context => context.retrieval,
+            () => this.retrieveChunks(baseContext),
+            undefined,
+        )
+        const blockedFiles = importantFilePaths.filter(isBlockedFile)
+        const { value: analyzedFiles, redactions: fileRedactions } =
+            redactSecrets({
+                importantFiles: await this.readImportantFiles(
+                    importantFilePaths.filter(
+                        path =>
+                            !isBlockedFile(path) && this.filter.allows(path),
+                    ),
+                ),
+                publicApi,
+                retrieval,
+            })
+        this.redactionReport = {
+            blockedFiles,
+            redactions: [...redactions, ...fileRedactions],
+        }
+
+        const context = {
             ...baseContext,
             codebase: {
-                ...codebase,
-                importantFiles,
+                ...baseContext.codebase,
+                importantFiles: analyzedFiles.importantFiles,
             },
+            publicApi: analyzedFiles.publicApi,
+            retrieval: analyzedFiles.retrieval,
+            warnings:
+                this.analysisWarnings.length > 0
+                    ? this.analysisWarnings
+                    : undefined,
         }
+
+        // Failures may be transient, so their empty results aren't cached
+        if (cache && fingerprint && !failed) {
+            try {
+                await cache.save({
+                    fingerprint,
+                    context,
+                    importantPaths: importantFilePaths,
+                    selection,
+                })
+            } catch (error) {
+                console.warn('Failed to write analysis cache:', error)
+            }
+        }
+
+        // Return complete analysis
+        return context
     }
 
     /**
@@ -168,7 +632,8 @@ export class ProjectAnalyzer {
      * Output structure:
      * {
      *   readme: {
-     *     path: string,
+     *     path: string,              // First readme candidate present,
+     *                                // '' when there is none
      *     content: string,
      *   },
      *   additionalDocs: {
@@ -181,33 +646,64 @@ export class ProjectAnalyzer {
         ProjectContext['documentation']
     > {
         try {
-            // Read README.md
-            const readmePath = join(this.projectRoot, 'README.md')
-            const readmeContent = await readFile(readmePath, 'utf-8')
+            // The first README candidate present is used, in any casing;
+            // focused decks prefer the README of the focus directory
+            const candidates = this.focus?.directory
+                ? [
+                      ...readmeCandidates.map(
+                          candidate => `${this.focus?.directory}/${candidate}`,
+                      ),
+                      ...readmeCandidates,
+                  ]
+                : readmeCandidates
+            const found = await glob(candidates, {
+                cwd: this.projectRoot,
+                nocase: true,
+                nodir: true,
+            })
+            const rank = (path: string) =>
+                candidates.findIndex(
+                    candidate => candidate.toLowerCase() === path.toLowerCase(),
+                )
+            const readmePath = found.sort((a, b) => rank(a) - rank(b))[0]
+            if (!readmePath) {
+                this.warn('documentation', 'No README found in project root')
+            }
+            const readmeContent =
+                readmePath && this.filter.allows(readmePath)
+                    ? await readFile(
+                          join(this.projectRoot, readmePath),
+                          'utf-8',
+                      )
+                    : ''
 
             // Find additional docs (md files)
             const docFiles = await glob('**/*.md', {
                 cwd: this.projectRoot,
-                ignore: ['**/node_modules/**', 'README.md'],
+                ignore: ['**/node_modules/**', readmePath ?? 'README.md'],
                 nodir: true,
             })
 
             const additionalDocs = await Promise.all(
-                docFiles.map(async (file: string) => {
-                    const content = await readFile(
-                        join(this.projectRoot, file),
-                        'utf-8',
+                docFiles
+                    .filter(
+                        file => this.filter.allows(file) && this.inFocus(file),
                     )
-                    return {
-                        path: file,
-                        content,
-                    }
-                }),
+                    .map(async (file: string) => {
+                        const content = await readFile(
+                            join(this.projectRoot, file),
+                            'utf-8',
+                        )
+                        return {
+                            path: file,
+                            content,
+                        }
+                    }),
             )
 
             return {
                 readme: {
-                    path: 'README.md',
+                    path: readmePath ?? '',
                     content: readmeContent,
                 },
                 additionalDocs,
@@ -225,54 +721,36 @@ export class ProjectAnalyzer {
     }
 
     /**
-     * Analyzes project dependencies and package manager.
+     * Analyzes project dependencies across ecosystems.
      * Output structure:
      * {
-     *   packageManager: 'bun' | 'pnpm' | 'yarn' | 'npm',  // Determined by lock file presence
-     *   packages: {                                       // Merged dependencies from all types
-     *     [packageName: string]: string,                  // package: version pairs
-     *     ...                                             // Combines dependencies, devDependencies,
-     *   }                                                 // and peerDependencies
+     *   ecosystem: 'node' | 'python' | 'go' | ...,   // Ecosystem with the most packages
+     *   manifests: {                                 // One entry per manifest found
+     *     path: string,                              // e.g. package.json, go.mod
+     *     ecosystem: string,
+     *     packageManager: string,                    // Determined by lock file presence
+     *     packages: { [name: string]: string },
+     *   }[],
+     *   packages: {                                  // Merged packages from all manifests
+     *     [packageName: string]: string,
+     *   }
      * }
      */
     private async analyzeDependencies(): Promise<
         ProjectContext['dependencies']
     > {
         try {
-            // Read package.json
-            const pkgPath = join(this.projectRoot, 'package.json')
-            const pkgContent = await readFile(pkgPath, 'utf-8')
-            const pkg = JSON.parse(pkgContent) as {
-                dependencies?: Record<string, string>
-                devDependencies?: Record<string, string>
-                peerDependencies?: Record<string, string>
-            }
-
-            // Determine package manager
-            const hasYarnLock = await this.fileExists('yarn.lock')
-            const hasPnpmLock = await this.fileExists('pnpm-lock.yaml')
-            const hasBunLock =
-                (await this.fileExists('bun.lockb')) ||
-                (await this.fileExists('bun.lock'))
-
-            const packageManager = hasBunLock
-                ? 'bun'
-                : hasPnpmLock
-                  ? 'pnpm'
-                  : hasYarnLock
-                    ? 'yarn'
-                    : 'npm'
-
-            // Combine all dependencies
-            const packages = {
-                ...(pkg.dependencies || {}),
-                ...(pkg.devDependencies || {}),
-                ...(pkg.peerDependencies || {}),
-            }
+            const manifests = (await readManifests(this.projectRoot)).filter(
+                manifest => this.filter.allows(manifest.path),
+            )
 
             return {
-                packageManager,
-                packages,
+                ecosystem: primaryEcosystem(manifests),
+                manifests,
+                packages: Object.assign(
+                    {},
+                    ...manifests.map(manifest => manifest.packages),
+                ),
             }
         } catch (error) {
             if (error instanceof Error) {
@@ -287,68 +765,212 @@ export class ProjectAnalyzer {
     }
 
     /**
-     * Analyzes git history and contributors.
+     * Reads the project identity from the root package.json and the license
+     * file. Describes the whole project, also for focused decks.
+     * Output structure:
+     * {
+     *   name?: string,
+     *   version?: string,
+     *   description?: string,
+     *   keywords: string[],
+     *   license?: string,          // SPDX expression from package.json, else
+     *                              // detected from the license file
+     *   licenseFile?: string,      // LICENSE, LICENCE or COPYING (.md, .txt)
+     *   author?: string,           // Name only
+     *   repository?: string,       // Browsable URL, shorthands expanded
+     *   homepage?: string,
+     *   engines: { [runtime: string]: string },
+     *   entryPoints: string[],     // main/module/types/bin/exports
+     *   private?: boolean,
+     * } | undefined                // Undefined without package.json and
+     *                              // license file
+     */
+    private async analyzeMetadata(): Promise<ProjectContext['metadata']> {
+        try {
+            return await analyzeMetadata(this.projectRoot, {
+                filter: path => this.filter.allows(path),
+            })
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new SlidevGenError(
+                    'InvalidProjectStructure',
+                    `Failed to read project metadata: ${error.message}`,
+                    error,
+                )
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Analyzes npm/yarn/bun/pnpm workspaces, if the project is a monorepo.
+     * Output structure:
+     * {
+     *   tool: string,                      // pnpm, or the root package manager
+     *   packages: {
+     *     name: string,
+     *     path: string,                    // Package directory relative to root
+     *     version?: string,
+     *     description?: string,
+     *     dependencies: { [name: string]: string },
+     *     entryPoints: string[],           // main/module/types/bin/exports
+     *     internalDependencies: string[],  // Other workspace packages depended on
+     *   }[],
+     * } | undefined
+     */
+    private async analyzeWorkspaces(
+        dependencies: ProjectContext['dependencies'],
+    ): Promise<ProjectContext['workspace']> {
+        try {
+            const rootManifest = dependencies.manifests.find(
+                manifest => manifest.path === 'package.json',
+            )
+            const workspace = await analyzeWorkspaces(
+                this.projectRoot,
+                rootManifest?.packageManager ?? 'npm',
+                { filter: path => this.filter.allows(path) },
+            )
+            // Focused decks only show the packages in (or around) the focus
+            return workspace && this.focus
+                ? {
+                      ...workspace,
+                      packages: workspace.packages.filter(pkg =>
+                          this.inFocus(pkg.path, true),
+                      ),
+                  }
+                : workspace
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new SlidevGenError(
+                    'InvalidProjectStructure',
+                    `Failed to analyze workspaces: ${error.message}`,
+                    error,
+                )
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Analyzes git history, releases and contributors.
      * Output structure:
      * {
-     *   recentCommits: string[],  // Last 10 commits as ["hash message", ...]
-     *   majorChanges: string[],   // Last 5 significant commits (min 10 changes)
-     *                            // Format: ["hash message", "file changes", ...]
-     *   contributors: string[],   // List of contributor names, ordered by
-     *                           // number of commits (excluding merges)
+     *   recentCommits: string[],     // Last 10 commits as ["hash message", ...]
+     *   majorChanges: string[],      // Recent significant commits (min 10 changed lines)
+     *   contributors: string[],      // Contributor names, ordered by number of
+     *                                // commits (excluding merges)
+     *   contributorStats: { name, email, commits }[],
+     *   tags: { name, date, commit }[],    // Newest first
+     *   totalCommits: number,
+     *   firstCommitDate?: string,    // ISO date of the root commit
+     *   ageInDays?: number,          // Days since the first commit
+     *   fileChurn: { path, commits, insertions, deletions }[],
+     *                                // Most frequently changed files
+     *   commitTypes: { [type: string]: number },
+     *                                // Conventional commit types (feat, fix, ...)
      * }
+     * Churn and commit types cover the last GIT_HISTORY_LIMIT commits.
+     * Projects outside a git repository get empty history and a warning.
      */
     private async analyzeGit(): Promise<ProjectContext['git']> {
         try {
-            try {
-                await execa('git', ['rev-parse', '--git-dir'], {
-                    cwd: this.projectRoot,
-                })
-            } catch {
-                throw new Error('No git repository found in project root')
+            const git = new GitRepository(this.projectRoot)
+            if (!(await git.isRepository())) {
+                this.warn('git', 'No git repository found in project root')
+                return emptyGit
             }
 
-            // Get recent commits
-            const { stdout: recentCommitsOutput } = await execAsync(
-                'git log --pretty=format:"%h %s" -n 10',
-                { cwd: this.projectRoot },
-            )
-            const recentCommits = recentCommitsOutput
-                .split('\n')
-                .filter(Boolean)
-
-            // Get major changes (commits with more changes)
-            const { stdout: majorChangesOutput } = await execAsync(
-                'git log --pretty=format:"%h %s" --shortstat -n 10',
-                { cwd: this.projectRoot },
+            if (!(await git.hasCommits())) return emptyGit
+
+            // Focused decks only cover history touching the focus
+            const paths = this.focus ? [this.focus.pattern] : []
+
+            const [recent, history, contributorStats, tags, totalCommits] =
+                await Promise.all([
+                    git.log({ maxCount: 10, includeMerges: true, paths }),
+                    git.log({ maxCount: GIT_HISTORY_LIMIT, paths }),
+                    git.contributors('HEAD', paths),
+                    git.tags(),
+                    git.countCommits('HEAD', paths),
+                ])
+            const firstCommitDate = await git.firstCommitDate(paths)
+
+            const recentCommits = recent.map(
+                commit => `${commit.shortHash} ${commit.subject}`,
             )
-            // Filter commits with significant changes (more than 10 changes total)
-            const majorChanges = majorChangesOutput
-                .split('\n\n')
-                .filter(commit => {
-                    const stats = commit.split('\n')[1]
-                    if (!stats) return false
-                    const changes = (stats.match(/\d+/g) || []).map(Number)
-                    // Sum of insertions and deletions
-                    const totalChanges = changes.reduce((a, b) => a + b, 0)
-                    return totalChanges >= 10
-                })
-                .map(commit => commit.split('\n')[0])
+
+            // Filter commits with significant changes (at least 10 changed lines)
+            const majorChanges = recent
+                .filter(
+                    commit =>
+                        commit.files.reduce(
+                            (total, file) =>
+                                total + file.insertions + file.deletions,
+                            0,
+                        ) >= 10,
+                )
+                .map(commit => `${commit.shortHash} ${commit.subject}`)
                 .slice(0, 5) // Keep top 5 major changes
 
-            // Get contributors - using git log instead of shortlog for better compatibility
-            const { stdout: contributorsOutput } = await execAsync(
-                'git log --format="%aN" | sort -u',
-                { cwd: this.projectRoot },
-            )
-            const contributors = contributorsOutput
-                .split('\n')
-                .filter(Boolean)
-                .map(line => line.trim())
+            // Aggregate per-file churn across the analyzed history
+            const churn = new Map<
+                string,
+                { commits: number; insertions: number; deletions: number }
+            >()
+            for (const commit of history) {
+                for (const file of commit.files) {
+                    if (!this.filter.allows(file.path)) continue
+
+                    const entry = churn.get(file.path) ?? {
+                        commits: 0,
+                        insertions: 0,
+                        deletions: 0,
+                    }
+                    entry.commits++
+                    entry.insertions += file.insertions
+                    entry.deletions += file.deletions
+                    churn.set(file.path, entry)
+                }
+            }
+            const fileChurn = [...churn.entries()]
+                .map(([path, stats]) => ({ path, ...stats }))
+                .sort(
+                    (a, b) =>
+                        b.commits - a.commits ||
+                        b.insertions +
+                            b.deletions -
+                            (a.insertions + a.deletions),
+                )
+                .slice(0, 20)
+
+            // Count conventional commit types
+            const commitTypes: Record<string, number> = {}
+            for (const commit of history) {
+                const conventional = parseConventionalCommit(commit.subject)
+                if (conventional) {
+                    commitTypes[conventional.type] =
+                        (commitTypes[conventional.type] ?? 0) + 1
+                }
+            }
 
             return {
                 recentCommits,
                 majorChanges,
-                contributors,
+                contributors: contributorStats.map(
+                    contributor => contributor.name,
+                ),
+                contributorStats,
+                tags: tags.slice(0, 20),
+                totalCommits,
+                firstCommitDate,
+                ageInDays: firstCommitDate
+                    ? Math.floor(
+                          (Date.now() - new Date(firstCommitDate).getTime()) /
+                              (1000 * 60 * 60 * 24),
+                      )
+                    : undefined,
+                fileChurn,
+                commitTypes,
             }
         } catch (error) {
             if (error instanceof Error) {
@@ -367,39 +989,24 @@ export class ProjectAnalyzer {
      * Output structure:
      * {
      *   mainLanguages: string[],    // Top 3 file extensions by frequency
-     *   fileStructure: string,      // Tree output of project structure
-     *                               // (depth 3, excluding node_modules/dist/build/.git)
+     *   fileStructure: string,      // Text rendering of the file tree
+     *   tree: FileTreeNode,         // Structured file tree (default depth 3,
+     *                               // honoring root and nested .gitignore files)
      *   significantFiles: string[], // Present config files from a predefined list:
      *                              // [package.json, tsconfig.json, .eslintrc.js,
      *                              //  vite.config.ts, next.config.js, README.md]
+     *   importGraph?: {             // Relative JS/TS imports between directories,
+     *     modules: string[],        // collapsed to `architecture.depth` levels
+     *     edges: [string, string][],// (default 2); undefined without imports
+     *   },
      * }
      */
     private async analyzeCodebase(): Promise<ProjectContext['codebase']> {
         try {
-            // Get all source files
-            const allFiles = await glob(
-                '**/*.{js,jsx,ts,tsx,vue,svelte,py,rb,go,rs}',
-                {
-                    cwd: this.projectRoot,
-                    ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
-                    nodir: true,
-                },
-            )
+            const allowedFiles = await this.listSourceFiles()
 
             // Determine main languages
-            const extensions = allFiles.map(file => file.split('.').pop() || '')
-            const langCount = extensions.reduce(
-                (acc: Record<string, number>, ext: string) => {
-                    acc[ext] = (acc[ext] || 0) + 1
-                    return acc
-                },
-                {},
-            )
-
-            const mainLanguages = Object.entries(langCount)
-                .sort(([, a], [, b]) => (b as number) - (a as number))
-                .slice(0, 3)
-                .map(([lang]) => lang)
+            const mainLanguages = topExtensions(allowedFiles)
 
             // Get significant files
             const significantPaths = [
@@ -413,52 +1020,37 @@ export class ProjectAnalyzer {
             const significantFiles = (
                 await Promise.all(
                     significantPaths.map(async file => {
-                        const exists = await this.fileExists(file)
+                        const exists =
+                            this.filter.allows(file) &&
+                            (await this.fileExists(file))
                         return exists ? file : null
                     }),
                 )
             ).filter((file): file is string => file !== null)
 
-            // Read .gitignore patterns or use defaults
-            let ignorePattern: string
-            try {
-                const gitignorePath = join(this.projectRoot, '.gitignore')
-                const gitignoreContent = await readFile(gitignorePath, 'utf-8')
-                const patterns = gitignoreContent
-                    .split('\n')
-                    .map(line => line.trim())
-                    // Filter out comments and empty lines
-                    .filter(line => line && !line.startsWith('#'))
-                    // Remove wildcards and slashes for tree command
-                    .map(pattern => pattern.replace(/[/*]+/g, ''))
-                    .filter(Boolean)
-
-                if (patterns.length > 0) {
-                    // Add common patterns that might not be in gitignore
-                    const commonPatterns = ['node_modules', '.git']
-                    const allPatterns = [
-                        ...new Set([...patterns, ...commonPatterns]),
-                    ]
-                    ignorePattern = allPatterns.join('|')
-                } else {
-                    throw new Error('No valid patterns found')
-                }
-            } catch {
-                // Fallback to common ignore patterns
-                ignorePattern =
-                    'node_modules|dist|build|.git|coverage|.cache|.temp|tmp'
-            }
+            // Build the file tree in-process with .gitignore semantics
+            const { tree, text } = await buildFileTree(this.projectRoot, {
+                maxDepth: this.config.tree?.depth,
+                maxEntries: this.config.tree?.maxEntries,
+                filter: (path, isDirectory) =>
+                    this.filter.allows(path, isDirectory) &&
+                    this.inFocus(path, isDirectory),
+            })
 
-            // Generate file structure using ignore pattern
-            const { stdout: treeOutput } = await execAsync(
-                `tree -L 3 -I "${ignorePattern}" --dirsfirst`,
-                { cwd: this.projectRoot },
+            // Module graph for the architecture diagram
+            const importGraph = await buildImportGraph(
+                allowedFiles,
+                file => readFile(join(this.projectRoot, file), 'utf-8'),
+                { depth: this.config.architecture?.depth ?? 2 },
             )
 
             return {
                 mainLanguages,
-                fileStructure: treeOutput,
+                fileStructure: text,
+                tree,
                 significantFiles,
+                importGraph:
+                    importGraph.edges.length > 0 ? importGraph : undefined,
                 importantFiles: [], // Will be populated later by analyze()
             }
         } catch (error) {
@@ -473,6 +1065,381 @@ export class ProjectAnalyzer {
         }
     }
 
+    /**
+     * Analyzes the test suite and quality tooling.
+     * Output structure:
+     * {
+     *   testFrameworks: ('bun:test' | 'vitest' | 'jest' | 'pytest' | 'go test')[],
+     *   testFiles: number,         // Files named like tests (*.test.ts,
+     *                              // __tests__/, test_*.py, *_test.go, ...)
+     *   testCases: number,         // test()/it() calls, test functions
+     *   coverage?: {               // From coverage/coverage-summary.json,
+     *     report: string,          // coverage/lcov.info or lcov.info
+     *     lines?: number,          // Percentages
+     *     functions?: number,
+     *     branches?: number,
+     *   },
+     *   tooling: {                 // Lint/format tools configured in the
+     *     name: string,            // project root, package.json or
+     *     kind: 'lint' | 'format', // pyproject.toml
+     *     config: string,
+     *   }[],
+     * }
+     */
+    private async analyzeQuality(
+        dependencies: ProjectContext['dependencies'],
+    ): Promise<ProjectContext['quality']> {
+        try {
+            return await analyzeQuality(this.projectRoot, {
+                packages: dependencies.packages,
+                // Tool configs in the root apply to the focus as well
+                filter: path =>
+                    this.filter.allows(path) &&
+                    (!path.includes('/') || this.inFocus(path)),
+            })
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new SlidevGenError(
+                    'InvalidProjectStructure',
+                    `Failed to analyze test suite: ${error.message}`,
+                    error,
+                )
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Detects CI/CD pipelines, containers, infrastructure as code and
+     * deployment configs.
+     * Output structure:
+     * {
+     *   pipelines: {               // .github/workflows/*.yml, .gitlab-ci.yml
+     *     provider: 'github-actions' | 'gitlab-ci',
+     *     path: string,
+     *     name: string,
+     *     triggers: string[],      // e.g. push, pull_request
+     *     jobs: { id: string, name?: string, stage?: string, needs: string[] }[],
+     *   }[],
+     *   containers: { path: string, baseImages: string[], ports: string[] }[],
+     *   compose: { path: string, services: string[] }[],
+     *   terraform?: { providers: string[], resources: number, modules: string[] },
+     *   kubernetes: { path: string, kinds: string[] }[],
+     *   deployments: { platform: string, path: string }[], // netlify.toml,
+     *                              // vercel.json, fly.toml, render.yaml, ...
+     * } | undefined                // Undefined when nothing was detected
+     */
+    private async analyzeInfrastructure(): Promise<
+        ProjectContext['infrastructure']
+    > {
+        try {
+            return await analyzeInfrastructure(this.projectRoot, {
+                filter: path => this.filter.allows(path),
+            })
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new SlidevGenError(
+                    'InvalidProjectStructure',
+                    `Failed to analyze infrastructure: ${error.message}`,
+                    error,
+                )
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Collects TODO/FIXME/HACK/XXX comments, deprecation tags and "not
+     * implemented" stubs from source files, tests excluded.
+     * Output structure:
+     * {
+     *   total: number,
+     *   counts: Record<string, number>, // By kind: todo, fixme, hack, xxx,
+     *                              // deprecated, unimplemented
+     *   modules: {                 // Directories cut to `architecture.depth`
+     *     module: string,          // levels (default 2), like the import graph
+     *     count: number,
+     *     markers: {               // Top 5, stubs and FIXMEs first
+     *       kind: string,
+     *       path: string,
+     *       line: number,
+     *       text: string,
+     *     }[],
+     *   }[],                       // Top 10 modules by marker count
+     * } | undefined                // Undefined when nothing was found
+     */
+    private async analyzeTechnicalDebt(): Promise<
+        ProjectContext['technicalDebt']
+    > {
+        try {
+            const files = (await this.listSourceFiles()).filter(
+                file => !isBlockedFile(file) && !isTestFile(file),
+            )
+            const markers = await Promise.all(
+                files.map(async path => {
+                    const fullPath = join(this.projectRoot, path)
+                    if ((await stat(fullPath)).size > MAX_INDEXED_FILE_SIZE) {
+                        return []
+                    }
+                    return findDebtMarkers(
+                        path,
+                        await readFile(fullPath, 'utf-8'),
+                    )
+                }),
+            )
+            return summarizeDebt(
+                markers.flat(),
+                this.config.architecture?.depth ?? 2,
+            )
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new SlidevGenError(
+                    'InvalidProjectStructure',
+                    `Failed to scan for technical debt: ${error.message}`,
+                    error,
+                )
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Extracts getting started material, verbatim.
+     * Output structure:
+     * {
+     *   install: string[],         // Install commands from README shell blocks
+     *   run: string[],             // dev/start/build/test scripts and `bin`
+     *                              // entries, as the package manager runs them
+     *   examples: {                // Up to 2 short non-shell README code blocks
+     *     language: string,
+     *     code: string,
+     *     source: string,          // README.md#<heading>
+     *   }[],
+     * }
+     */
+    private async analyzeUsage(
+        documentation: ProjectContext['documentation'],
+        dependencies: ProjectContext['dependencies'],
+    ): Promise<ProjectContext['usage']> {
+        let packageJson = {}
+        if (this.filter.allows('package.json')) {
+            try {
+                packageJson = JSON.parse(
+                    await readFile(
+                        join(this.projectRoot, 'package.json'),
+                        'utf-8',
+                    ),
+                )
+            } catch {
+                // Projects without a (valid) package.json only get README commands
+            }
+        }
+
+        return extractUsage({
+            readme: documentation.readme.content,
+            readmePath: documentation.readme.path,
+            packageJson,
+            packageManager: dependencies.manifests.find(
+                manifest => manifest.path === 'package.json',
+            )?.packageManager,
+        })
+    }
+
+    /**
+     * Extracts the exported TypeScript API surface via the compiler API.
+     * Output structure:
+     * {
+     *   path: string,              // Module path relative to project root
+     *   exports: {
+     *     name: string,
+     *     kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable',
+     *     signature?: string,      // Call signature for functions
+     *     summary?: string,        // First paragraph of the JSDoc comment
+     *     members?: string[],      // Public class/interface/enum members
+     *   }[],
+     * }[] | undefined              // Undefined without tsconfig.json
+     */
+    private async analyzePublicApi(): Promise<ProjectContext['publicApi']> {
+        try {
+            return await extractPublicApi(this.projectRoot, {
+                filter: path => this.filter.allows(path) && this.inFocus(path),
+            })
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new SlidevGenError(
+                    'InvalidProjectStructure',
+                    `Failed to analyze public API: ${error.message}`,
+                    error,
+                )
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Summarizes the whole project for decks focused on part of it.
+     * Output structure:
+     * {
+     *   path: string,              // The focus directory or glob
+     *   project: {
+     *     description?: string,    // First paragraph of the root README
+     *     mainLanguages: string[], // Top 3 extensions of all source files
+     *     topLevel: string[],      // Root entries, directories end in '/'
+     *     totalCommits: number,
+     *   },
+     * } | undefined                // Undefined without a focus
+     */
+    private async analyzeFocus(): Promise<ProjectContext['focus']> {
+        if (!this.focus) return undefined
+        try {
+            let description: string | undefined
+            if (this.filter.allows('README.md')) {
+                try {
+                    description = readmeExcerpt(
+                        await readFile(
+                            join(this.projectRoot, 'README.md'),
+                            'utf-8',
+                        ),
+                    )
+                } catch {
+                    // Projects without a root README get no description
+                }
+            }
+
+            const { tree } = await buildFileTree(this.projectRoot, {
+                maxDepth: 1,
+                filter: (path, isDirectory) =>
+                    this.filter.allows(path, isDirectory),
+            })
+            const git = new GitRepository(this.projectRoot)
+
+            return {
+                path: this.focus.pattern,
+                project: {
+                    description,
+                    mainLanguages: topExtensions(
+                        await this.listSourceFiles(false),
+                    ),
+                    topLevel: (tree.children ?? []).map(node =>
+                        node.type === 'directory' ? `${node.name}/` : node.name,
+                    ),
+                    totalCommits: (await git.hasCommits())
+                        ? await git.countCommits()
+                        : 0,
+                },
+            }
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new SlidevGenError(
+                    'InvalidProjectStructure',
+                    `Failed to summarize the project: ${error.message}`,
+                    error,
+                )
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Retrieves the code and docs most relevant to the architecture,
+     * features and technical sections from a local BM25 index over chunks
+     * of every readable source file and doc.
+     * Output structure:
+     * {
+     *   architecture: {            // Same for features and technical
+     *     path: string,
+     *     startLine: number,       // 1-based, inclusive
+     *     endLine: number,
+     *     content: string,         // At most `retrieval.chunkLines` lines
+     *     score: number,
+     *   }[],                       // Top `retrieval.topK` (default 5)
+     * } | undefined                // Undefined when nothing was indexed
+     */
+    private async retrieveChunks(
+        context: Pick<
+            ProjectContext,
+            'documentation' | 'dependencies' | 'workspace' | 'codebase'
+        >,
+    ): Promise<ProjectContext['retrieval']> {
+        try {
+            const chunkLines = this.config.retrieval?.chunkLines
+            const topK = this.config.retrieval?.topK ?? RETRIEVAL_TOP_K
+
+            const files = (await this.listSourceFiles()).filter(
+                file =>
+                    !isBlockedFile(file) &&
+                    !isTestFile(file) &&
+                    !file.endsWith('.d.ts'),
+            )
+            const sources = await Promise.all(
+                files.map(async path => {
+                    const fullPath = join(this.projectRoot, path)
+                    // Large files are usually generated or minified
+                    if ((await stat(fullPath)).size > MAX_INDEXED_FILE_SIZE) {
+                        return []
+                    }
+                    return chunkDocument(
+                        path,
+                        await readFile(fullPath, 'utf-8'),
+                        chunkLines,
+                    )
+                }),
+            )
+            const docs = [
+                context.documentation.readme,
+                ...context.documentation.additionalDocs,
+            ]
+                .filter(doc => doc.content)
+                .map(doc => chunkDocument(doc.path, doc.content, chunkLines))
+
+            const chunks = [...sources, ...docs].flat()
+            if (chunks.length === 0) return undefined
+
+            const index = new LexicalIndex(chunks)
+            const queries = retrievalQueries(context)
+            return {
+                architecture: index.search(queries.architecture, topK),
+                features: index.search(queries.features, topK),
+                technical: index.search(queries.technical, topK),
+            }
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new SlidevGenError(
+                    'InvalidProjectStructure',
+                    `Failed to retrieve context: ${error.message}`,
+                    error,
+                )
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Source files that may be read and aren't ignored by .gitignore,
+     * relative to the project root. Only files in the focus are listed
+     * unless `scoped` is false.
+     */
+    private async listSourceFiles(scoped = true): Promise<string[]> {
+        const [files, gitignore] = await Promise.all([
+            glob('**/*.{js,jsx,ts,tsx,vue,svelte,py,rb,go,rs}', {
+                cwd: this.projectRoot,
+                ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
+                nodir: true,
+            }),
+            loadGitignore(this.projectRoot),
+        ])
+        return files.filter(
+            file =>
+                !gitignore.excludes(file) &&
+                this.filter.allows(file) &&
+                (!scoped || this.inFocus(file)),
+        )
+    }
+
+    private inFocus(path: string, isDirectory = false): boolean {
+        return this.focus?.contains(path, isDirectory) ?? true
+    }
+
     private async fileExists(path: string): Promise<boolean> {
         try {
             await access(join(this.projectRoot, path), constants.F_OK)
@@ -0,0 +1,123 @@
+import { mkdir } from 'fs/promises'
+import { join } from 'path'
+
+import { $ } from 'bun'
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test'
+
+import { AnalysisCache, staleStages } from './cache'
+
+describe('AnalysisCache', () => {
+    const TEST_REPO_ROOT = join(import.meta.dir, '__test_cache__')
+
+    beforeEach(async () => {
+        await $`rm -rf ${TEST_REPO_ROOT}`
+        await mkdir(join(TEST_REPO_ROOT, 'src'), { recursive: true })
+        await Bun.write(join(TEST_REPO_ROOT, 'src/index.ts'), 'export {}\n')
+        await $`git init -q && git config --local user.name "Test User" && git config --local user.email "test@example.com" && git add -A && git commit -q -m "Initial commit"`.cwd(
+            TEST_REPO_ROOT,
+        )
+    })
+
+    afterAll(async () => {
+        await $`rm -rf ${TEST_REPO_ROOT}`
+    })
+
+    test('staleStages maps changed paths to analysis stages', () => {
+        expect(staleStages(['docs/guide.md'])).toEqual(
+            new Set(['documentation', 'codebase']),
+        )
+        expect(staleStages(['packages/a/package.json'])).toEqual(
+            new Set(['dependencies', 'codebase', 'publicApi']),
+        )
+        expect(staleStages(['src/index.ts'], true)).toEqual(
+            new Set(['codebase', 'publicApi', 'technicalDebt', 'git']),
+        )
+        expect(staleStages(['src/index.test.ts'])).toEqual(
+            new Set(['codebase', 'publicApi', 'quality']),
+        )
+        expect(staleStages(['docs/README'])).toEqual(
+            new Set(['documentation', 'codebase']),
+        )
+        expect(staleStages(['.github/workflows/ci.yml'])).toEqual(
+            new Set(['codebase', 'infrastructure']),
+        )
+        expect(staleStages(['LICENSE'])).toEqual(
+            new Set(['metadata', 'codebase', 'quality']),
+        )
+        expect(staleStages([])).toEqual(new Set())
+    })
+
+    test('fingerprint hashes dirty files and skips the slides directory', async () => {
+        const cache = new AnalysisCache(TEST_REPO_ROOT, './.slides')
+        const clean = await cache.fingerprint()
+        expect(clean?.dirty).toEqual({})
+
+        await Bun.write(join(TEST_REPO_ROOT, '.slides/slides.md'), '# Slides')
+        await Bun.write(join(TEST_REPO_ROOT, 'src/index.ts'), 'export {}\n//\n')
+        await Bun.write(join(TEST_REPO_ROOT, 'src/new.ts'), 'export {}\n')
+
+        const dirty = await cache.fingerprint()
+        expect(Object.keys(dirty?.dirty ?? {}).sort()).toEqual([
+            'src/index.ts',
+            'src/new.ts',
+        ])
+        expect(dirty?.head).toBe(clean!.head)
+    })
+
+    test('changedPaths covers commits and uncommitted changes', async () => {
+        const cache = new AnalysisCache(TEST_REPO_ROOT, './.slides')
+        const before = await cache.fingerprint()
+
+        await Bun.write(join(TEST_REPO_ROOT, 'README.md'), '# Readme\n')
+        await $`git add -A && git commit -q -m "Add readme"`.cwd(TEST_REPO_ROOT)
+        await Bun.write(join(TEST_REPO_ROOT, 'src/index.ts'), 'export {}\n//\n')
+        const after = await cache.fingerprint()
+
+        expect(await cache.changedPaths(before!, after!)).toEqual([
+            'README.md',
+            'src/index.ts',
+        ])
+        expect(await cache.changedPaths(after!, after!)).toEqual([])
+    })
+
+    test('paths are relative to a project in a subdirectory', async () => {
+        const projectRoot = join(TEST_REPO_ROOT, 'packages/app')
+        await Bun.write(join(projectRoot, 'src/index.ts'), 'export {}\n')
+        await $`git add -A && git commit -q -m "Add app"`.cwd(TEST_REPO_ROOT)
+        const cache = new AnalysisCache(projectRoot, './.slides')
+        const before = await cache.fingerprint()
+
+        await Bun.write(join(TEST_REPO_ROOT, 'README.md'), '# Repo\n')
+        await Bun.write(join(projectRoot, 'README.md'), '# App\n')
+        await $`git add -A && git commit -q -m "Add readmes"`.cwd(
+            TEST_REPO_ROOT,
+        )
+        await Bun.write(join(TEST_REPO_ROOT, 'src/index.ts'), 'export {}\n//\n')
+        await Bun.write(join(projectRoot, 'src/index.ts'), 'export {}\n//\n')
+        await Bun.write(join(projectRoot, '.slides/slides.md'), '# Slides')
+        const after = await cache.fingerprint()
+
+        expect(Object.keys(after?.dirty ?? {})).toEqual(['src/index.ts'])
+        expect(after?.dirty['src/index.ts']).not.toBe('deleted')
+        expect(await cache.changedPaths(before!, after!)).toEqual([
+            'README.md',
+            'src/index.ts',
+        ])
+    })
+
+    test('load ignores entries from other configurations', async () => {
+        const cache = new AnalysisCache(TEST_REPO_ROOT, './.slides')
+        const fingerprint = (await cache.fingerprint())!
+        await Bun.write(
+            join(TEST_REPO_ROOT, '.slides/.cache/analysis.json'),
+            JSON.stringify({ fingerprint, context: {}, importantPaths: [] }),
+        )
+        // Entries that don't match the schema are ignored
+        expect(await cache.load(fingerprint)).toBeUndefined()
+
+        const other = new AnalysisCache(TEST_REPO_ROOT, './.slides', {
+            tree: { depth: 5 },
+        })
+        expect((await other.fingerprint())?.config).not.toBe(fingerprint.config)
+    })
+})
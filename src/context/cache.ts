@@ -0,0 +1,240 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'path'
+
+import { z } from 'zod'
+
+import { GitRepository } from './git'
+import { isInfrastructureFile } from './infrastructure'
+import { lockFiles, manifestFiles } from './manifests'
+import { isTestFile } from './quality'
+import { ProjectContextSchema } from './types'
+
+import type { ProjectConfig } from '../config/types'
+
+// Bump whenever the analysis output changes shape or meaning
+export const ANALYZER_VERSION = 14
+
+export type AnalysisStage =
+    | 'documentation'
+    | 'dependencies'
+    | 'metadata'
+    | 'git'
+    | 'codebase'
+    | 'publicApi'
+    | 'quality'
+    | 'infrastructure'
+    | 'technicalDebt'
+
+const AnalysisFingerprintSchema = z.object({
+    version: z.number(),
+    // Hash of the configuration affecting analysis
+    config: z.string(),
+    head: z.string(),
+    // Content hashes of uncommitted files ('deleted' for removed ones)
+    dirty: z.record(z.string()),
+})
+
+export type AnalysisFingerprint = z.infer<typeof AnalysisFingerprintSchema>
+
+const CachedAnalysisSchema = z.object({
+    fingerprint: AnalysisFingerprintSchema,
+    context: ProjectContextSchema,
+    // Paths picked for the important files
+    importantPaths: z.array(z.string()),
+    // Dry runs pick files by local ranking alone, so their picks aren't
+    // reused by model runs (and vice versa)
+    selection: z.enum(['model', 'heuristic']),
+})
+
+export type ImportantFileSelection = CachedAnalysis['selection']
+
+export type CachedAnalysis = z.infer<typeof CachedAnalysisSchema>
+
+const stageInputs: Record<AnalysisStage, (path: string) => boolean> = {
+    documentation: path =>
+        path.toLowerCase().endsWith('.md') ||
+        /^readme(\.[a-z]+)?$/i.test(basename(path)),
+    dependencies: path =>
+        [...manifestFiles, ...lockFiles, 'pnpm-workspace.yaml'].includes(
+            basename(path),
+        ),
+    metadata: path =>
+        path === 'package.json' ||
+        /^(licen[cs]e|copying)(\.(md|txt))?$/i.test(path),
+    // History only changes with HEAD
+    git: () => false,
+    // The tree walk is cheap, any change refreshes it
+    codebase: () => true,
+    publicApi: path =>
+        /\.[cm]?tsx?$/.test(path) ||
+        /(^|\/)tsconfig[^/]*\.json$/.test(path) ||
+        basename(path) === 'package.json',
+    // Tool configs live in the project root; ignored coverage reports only
+    // show up here when they are committed
+    quality: path =>
+        isTestFile(path) || !path.includes('/') || path.startsWith('coverage/'),
+    infrastructure: isInfrastructureFile,
+    technicalDebt: path =>
+        /\.(jsx?|tsx?|vue|svelte|py|rb|go|rs)$/.test(path) && !isTestFile(path),
+}
+
+/**
+ * Stages whose inputs include one of the changed paths, plus git history
+ * when HEAD moved.
+ */
+export function staleStages(
+    changed: string[],
+    headChanged = false,
+): Set<AnalysisStage> {
+    const stale = new Set(
+        (Object.keys(stageInputs) as AnalysisStage[]).filter(stage =>
+            changed.some(stageInputs[stage]),
+        ),
+    )
+    if (headChanged) stale.add('git')
+    return stale
+}
+
+/**
+ * Persists the analyzed project context under the slides directory, keyed
+ * by HEAD, hashes of uncommitted files, analyzer version and configuration.
+ */
+export class AnalysisCache {
+    private readonly git: GitRepository
+    private readonly path: string
+
+    constructor(
+        private readonly projectRoot: string,
+        private readonly slidesPath: string,
+        private readonly config: Partial<ProjectConfig> = {},
+    ) {
+        this.git = new GitRepository(projectRoot)
+        this.path = resolve(projectRoot, slidesPath, '.cache', 'analysis.json')
+    }
+
+    private hash(content: string | Buffer): string {
+        return createHash('sha1').update(content).digest('hex')
+    }
+
+    /**
+     * Fingerprint of the current working tree. Returns undefined when the
+     * project isn't a git repository with at least one commit.
+     */
+    async fingerprint(): Promise<AnalysisFingerprint | undefined> {
+        if (!(await this.git.hasCommits())) return undefined
+
+        // Generated slides live in the project but don't affect analysis
+        const slidesDir = relative(
+            this.projectRoot,
+            resolve(this.projectRoot, this.slidesPath),
+        )
+        const exclude =
+            slidesDir && !slidesDir.startsWith('..') && !isAbsolute(slidesDir)
+                ? [slidesDir]
+                : []
+
+        const [head, dirtyPaths] = await Promise.all([
+            this.git.resolve('HEAD'),
+            this.git.dirtyPaths(exclude),
+        ])
+
+        const dirty: Record<string, string> = {}
+        await Promise.all(
+            dirtyPaths.map(async path => {
+                try {
+                    const content = await readFile(join(this.projectRoot, path))
+                    dirty[path] = this.hash(content)
+                } catch {
+                    dirty[path] = 'deleted'
+                }
+            }),
+        )
+
+        return {
+            version: ANALYZER_VERSION,
+            config: this.hash(
+                JSON.stringify([
+                    this.config.tree,
+                    this.config.architecture,
+                    this.config.retrieval,
+                    this.config.focus,
+                    this.config.include,
+                    this.config.exclude,
+                    this.config.model,
+                    this.config.models,
+                    this.config.provider,
+                ]),
+            ),
+            head,
+            dirty,
+        }
+    }
+
+    /**
+     * Cached analysis compatible with `fingerprint` (same analyzer version
+     * and configuration), if any.
+     */
+    async load(
+        fingerprint: AnalysisFingerprint,
+    ): Promise<CachedAnalysis | undefined> {
+        let content: string
+        try {
+            content = await readFile(this.path, 'utf-8')
+        } catch {
+            return undefined
+        }
+
+        try {
+            const parsed = CachedAnalysisSchema.safeParse(JSON.parse(content))
+            if (
+                !parsed.success ||
+                parsed.data.fingerprint.version !== fingerprint.version ||
+                parsed.data.fingerprint.config !== fingerprint.config
+            ) {
+                return undefined
+            }
+            return parsed.data
+        } catch {
+            // Corrupt cache files are simply ignored
+            return undefined
+        }
+    }
+
+    /**
+     * Paths that changed between two fingerprints. Returns undefined when
+     * that can't be determined (e.g. the cached HEAD was rebased away).
+     */
+    async changedPaths(
+        previous: AnalysisFingerprint,
+        current: AnalysisFingerprint,
+    ): Promise<string[] | undefined> {
+        const changed = new Set<string>()
+
+        if (previous.head !== current.head) {
+            try {
+                const committed = await this.git.changedPaths(
+                    previous.head,
+                    current.head,
+                )
+                committed.forEach(path => changed.add(path))
+            } catch {
+                return undefined
+            }
+        }
+
+        for (const path of new Set([
+            ...Object.keys(previous.dirty),
+            ...Object.keys(current.dirty),
+        ])) {
+            if (previous.dirty[path] !== current.dirty[path]) changed.add(path)
+        }
+
+        return [...changed].sort()
+    }
+
+    async save(entry: CachedAnalysis): Promise<void> {
+        await mkdir(dirname(this.path), { recursive: true })
+        await writeFile(this.path, JSON.stringify(entry), 'utf-8')
+    }
+}
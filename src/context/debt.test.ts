@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'bun:test'
+import dedent from 'dedent'
+
+import { findDebtMarkers, summarizeDebt } from './debt'
+
+describe('debt', () => {
+    test('findDebtMarkers finds tags in comments', () => {
+        const markers = findDebtMarkers(
+            'src/cache.ts',
+            dedent`
+                // TODO(alice): evict old entries
+                /* FIXME: not thread safe */
+                const key = 'TODO' // HACK - reuse the hash
+                /**
+                 * XXX: check on Windows
+                 */
+                const todo = 'todo list'
+                const example = '// TODO: quoted, not a marker'
+                // Scans TODO/FIXME comments
+            `,
+        )
+
+        expect(markers).toEqual([
+            {
+                kind: 'todo',
+                path: 'src/cache.ts',
+                line: 1,
+                text: 'evict old entries',
+            },
+            {
+                kind: 'fixme',
+                path: 'src/cache.ts',
+                line: 2,
+                text: 'not thread safe',
+            },
+            {
+                kind: 'hack',
+                path: 'src/cache.ts',
+                line: 3,
+                text: 'reuse the hash',
+            },
+            {
+                kind: 'xxx',
+                path: 'src/cache.ts',
+                line: 5,
+                text: 'check on Windows',
+            },
+        ])
+    })
+
+    test('findDebtMarkers finds deprecations and stubs', () => {
+        const typescript = dedent`
+            /** @deprecated Use parseAll instead */
+            export function parse() {
+                throw new Error('Not implemented yet')
+            }
+        `
+        expect(
+            findDebtMarkers('src/parse.ts', typescript).map(marker => [
+                marker.kind,
+                marker.line,
+                marker.text,
+            ]),
+        ).toEqual([
+            ['deprecated', 1, 'Use parseAll instead'],
+            ['unimplemented', 3, "throw new Error('Not implemented yet')"],
+        ])
+
+        const python = dedent`
+            # TODO: batch requests
+            def fetch():
+                raise NotImplementedError
+        `
+        expect(
+            findDebtMarkers(
+                'src/docs.ts',
+                "// Finds `throw new Error('Not implemented')` stubs",
+            ),
+        ).toEqual([])
+
+        expect(
+            findDebtMarkers('client.py', python).map(marker => marker.kind),
+        ).toEqual(['todo', 'unimplemented'])
+        expect(
+            findDebtMarkers('src/lib.rs', 'fn run() {\n    todo!()\n}')[0]
+                ?.kind,
+        ).toBe('unimplemented')
+    })
+
+    test('summarizeDebt groups by module, busiest and most pressing first', () => {
+        const markers = [
+            ...findDebtMarkers('src/llm/router.ts', '// TODO: a\n// TODO: b'),
+            ...findDebtMarkers(
+                'src/llm/providers/openai.ts',
+                '// FIXME: retry on timeout',
+            ),
+            ...findDebtMarkers('index.ts', '// TODO: c'),
+        ]
+
+        const debt = summarizeDebt(markers, 2)
+
+        expect(debt?.total).toBe(4)
+        expect(debt?.counts).toEqual({ todo: 3, fixme: 1 })
+        expect(
+            debt?.modules.map(module => [module.module, module.count]),
+        ).toEqual([
+            ['src/llm', 3],
+            ['.', 1],
+        ])
+        expect(debt?.modules[0].markers[0]).toMatchObject({
+            kind: 'fixme',
+            path: 'src/llm/providers/openai.ts',
+        })
+        expect(summarizeDebt([])).toBeUndefined()
+    })
+})
@@ -0,0 +1,135 @@
+import { moduleOf } from './import-graph'
+
+import type { DebtMarker, TechnicalDebt } from './types'
+
+type DebtKind = DebtMarker['kind']
+
+// Markers listed per module and modules listed, the counts cover all
+const MAX_MARKERS_PER_MODULE = 5
+const MAX_MODULES = 10
+const MAX_TEXT_LENGTH = 160
+
+// Most pressing first: stubs fail at runtime, FIXMEs and HACKs are known bugs
+const kindOrder: DebtKind[] = [
+    'unimplemented',
+    'fixme',
+    'hack',
+    'deprecated',
+    'xxx',
+    'todo',
+]
+
+// Tags opening a line or block comment, e.g. `// TODO(alice): retry`.
+// Comment openers quoted in strings or docs don't count.
+const commentTag =
+    /(?:(?<![`'"])(?:\/\/|\/\*|#|<!--)|^\s*\*)\s*(TODO|FIXME|HACK|XXX)(?=[\s:(]|$)(?:\([^)]*\))?:?\s*(.*)/
+
+// JSDoc tags, Python decorators and Rust attributes
+const deprecation =
+    /(?:^\s*(?:\/\/|\/\*\*?|\*|#)?\s*@deprecated\b|^\s*#\[deprecated\b)\s*(.*)/
+
+const isComment = (line: string) => /^\s*(\/\/|\/\*|\*|#(?!\[))/.test(line)
+
+// Stubs that fail when called
+const stubs = [
+    /\bthrow\s+new\s+\w*Error\(\s*['"`]not\s+(?:yet\s+)?implemented/i,
+    /\braise\s+NotImplementedError\b/,
+    /\b(?:unimplemented|todo)!\s*\(/,
+    /\bpanic\(\s*"not\s+(?:yet\s+)?implemented/i,
+]
+
+/**
+ * Text after a marker, without the comment's closing delimiter.
+ */
+function markerText(text: string): string {
+    const cleaned = text
+        .replace(/\s*(\*\/|-->)\s*$/, '')
+        .replace(/^[\s:-]+/, '')
+        .trim()
+    return cleaned.length > MAX_TEXT_LENGTH
+        ? `${cleaned.slice(0, MAX_TEXT_LENGTH).trimEnd()}…`
+        : cleaned
+}
+
+/**
+ * TODO/FIXME/HACK/XXX comments, deprecation tags and "not implemented"
+ * stubs in a source file, one per line at most.
+ */
+export function findDebtMarkers(path: string, content: string): DebtMarker[] {
+    const markers: DebtMarker[] = []
+    content.split('\n').forEach((source, index) => {
+        const line = index + 1
+        const tag = commentTag.exec(source)
+        if (tag) {
+            markers.push({
+                kind: tag[1].toLowerCase() as DebtKind,
+                path,
+                line,
+                text: markerText(tag[2]),
+            })
+            return
+        }
+        const deprecated = deprecation.exec(source)
+        if (deprecated) {
+            markers.push({
+                kind: 'deprecated',
+                path,
+                line,
+                text: markerText(deprecated[1].replace(/^\(|\)?\]?$/g, '')),
+            })
+            return
+        }
+        if (!isComment(source) && stubs.some(stub => stub.test(source))) {
+            markers.push({
+                kind: 'unimplemented',
+                path,
+                line,
+                text: markerText(source),
+            })
+        }
+    })
+    return markers
+}
+
+/**
+ * Groups markers by directory module, cut to `depth` levels. Modules with
+ * the most markers come first and list their most pressing markers.
+ * Returns undefined when there are no markers.
+ */
+export function summarizeDebt(
+    markers: DebtMarker[],
+    depth = Infinity,
+): TechnicalDebt | undefined {
+    if (markers.length === 0) return undefined
+
+    const counts: Record<string, number> = {}
+    const modules = new Map<string, DebtMarker[]>()
+    for (const marker of markers) {
+        counts[marker.kind] = (counts[marker.kind] ?? 0) + 1
+        const module = moduleOf(marker.path, depth)
+        modules.set(module, [...(modules.get(module) ?? []), marker])
+    }
+
+    return {
+        total: markers.length,
+        counts,
+        modules: [...modules.entries()]
+            .sort(
+                (a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]),
+            )
+            .slice(0, MAX_MODULES)
+            .map(([module, found]) => ({
+                module,
+                count: found.length,
+                markers: [...found]
+                    .sort(
+                        (a, b) =>
+                            kindOrder.indexOf(a.kind) -
+                                kindOrder.indexOf(b.kind) ||
+                            a.path.localeCompare(b.path) ||
+                            a.line - b.line,
+                    )
+                    .slice(0, MAX_MARKERS_PER_MODULE),
+            })),
+    }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test'
+
+import { EgressFilter } from './egress'
+
+describe('EgressFilter', () => {
+    test('allows everything without rules', () => {
+        const filter = new EgressFilter()
+        expect(filter.allows('src/index.ts')).toBe(true)
+        expect(filter.allows('docs', true)).toBe(true)
+    })
+
+    test('excludes matching paths and everything below them', () => {
+        const filter = new EgressFilter({
+            exclude: ['docs/internal/', '*.sql'],
+        })
+
+        expect(filter.allows('docs/internal', true)).toBe(false)
+        expect(filter.allows('docs/internal/plan.md')).toBe(false)
+        expect(filter.allows('db/seed.sql')).toBe(false)
+        expect(filter.allows('docs/guide.md')).toBe(true)
+    })
+
+    test('only allows included paths, walking their parents', () => {
+        const filter = new EgressFilter({
+            include: ['src/**/*.ts', '/README.md', 'docs/api/'],
+            exclude: ['src/generated/'],
+        })
+
+        expect(filter.allows('src/cli/index.ts')).toBe(true)
+        expect(filter.allows('README.md')).toBe(true)
+        expect(filter.allows('docs/README.md')).toBe(false)
+        expect(filter.allows('src/styles.css')).toBe(false)
+        expect(filter.allows('package.json')).toBe(false)
+        expect(filter.allows('src/generated/schema.ts')).toBe(false)
+        expect(filter.allows('docs/api/index.md')).toBe(true)
+
+        expect(filter.allows('src', true)).toBe(true)
+        expect(filter.allows('src/cli', true)).toBe(true)
+        expect(filter.allows('src/generated', true)).toBe(false)
+        expect(filter.allows('scripts', true)).toBe(false)
+        expect(filter.allows('docs', true)).toBe(true)
+        expect(filter.allows('docs/guides', true)).toBe(false)
+    })
+})
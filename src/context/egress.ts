@@ -0,0 +1,85 @@
+import { IgnoreMatcher } from './file-tree'
+
+export interface EgressRules {
+    // Only matching paths may be read (everything when omitted)
+    include?: string[]
+    // Matching paths are never read, even when included
+    exclude?: string[]
+}
+
+interface IncludeScope {
+    // Directory the pattern is anchored to, with a trailing slash
+    prefix: string
+    // Whether matches may be nested below `prefix` (globs in the directory)
+    deep: boolean
+}
+
+/**
+ * Directories an include pattern can match files in, or undefined when the
+ * pattern isn't anchored and may match at any depth.
+ */
+function includeScope(pattern: string): IncludeScope | undefined {
+    const line = pattern.replace(/\/$/, '')
+    if (!line.includes('/')) return undefined
+
+    const path = line.replace(/^\//, '')
+    const dir = path.slice(0, path.lastIndexOf('/') + 1)
+    const literal = dir.split(/[*?[]/)[0]
+    return {
+        prefix: literal.slice(0, literal.lastIndexOf('/') + 1),
+        deep: literal !== dir,
+    }
+}
+
+/**
+ * Decides which project files may be read into the context, and so sent to
+ * the model provider. Patterns use .gitignore syntax (relative to the
+ * project root) and match a path or any of its parent directories.
+ */
+export class EgressFilter {
+    private readonly include?: IgnoreMatcher
+    private readonly exclude = new IgnoreMatcher()
+    private readonly includeScopes: Array<IncludeScope | undefined> = []
+
+    constructor({ include, exclude }: EgressRules = {}) {
+        if (include && include.length > 0) {
+            this.include = new IgnoreMatcher()
+            this.include.add(include.join('\n'))
+            this.includeScopes = include.map(includeScope)
+        }
+        this.exclude.add((exclude ?? []).join('\n'))
+    }
+
+    private matches(
+        matcher: IgnoreMatcher,
+        path: string,
+        isDirectory: boolean,
+    ): boolean {
+        const segments = path.split('/')
+        return segments.some((_, index) =>
+            matcher.isIgnored(
+                segments.slice(0, index + 1).join('/'),
+                index < segments.length - 1 || isDirectory,
+            ),
+        )
+    }
+
+    /**
+     * Whether a file may be read. For directories, whether they may contain
+     * files that can be read, so walks can skip them.
+     */
+    allows(path: string, isDirectory = false): boolean {
+        if (this.matches(this.exclude, path, isDirectory)) return false
+        if (!this.include) return true
+        if (this.matches(this.include, path, isDirectory)) return true
+        if (!isDirectory) return false
+
+        const dir = `${path}/`
+        return this.includeScopes.some(
+            scope =>
+                scope === undefined ||
+                scope.prefix.startsWith(dir) ||
+                (scope.deep && dir.startsWith(scope.prefix)),
+        )
+    }
+}
@@ -0,0 +1,173 @@
+import { mkdir } from 'fs/promises'
+import { join } from 'path'
+
+import { $ } from 'bun'
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test'
+
+import {
+    buildFileTree,
+    IgnoreMatcher,
+    listTreeFiles,
+    loadGitignore,
+    renderFileTree,
+} from './file-tree'
+
+describe('file tree', () => {
+    const TEST_TREE_ROOT = join(import.meta.dir, '__test_tree__')
+
+    beforeEach(async () => {
+        await $`rm -rf ${TEST_TREE_ROOT}`
+        await mkdir(join(TEST_TREE_ROOT, 'src/nested/deep'), {
+            recursive: true,
+        })
+        await mkdir(join(TEST_TREE_ROOT, 'logs'), { recursive: true })
+        await Promise.all([
+            Bun.write(join(TEST_TREE_ROOT, 'package.json'), '{}'),
+            Bun.write(join(TEST_TREE_ROOT, 'src/index.ts'), ''),
+            Bun.write(join(TEST_TREE_ROOT, 'src/debug.log'), ''),
+            Bun.write(join(TEST_TREE_ROOT, 'src/keep.log'), ''),
+            Bun.write(join(TEST_TREE_ROOT, 'src/nested/deep/file.ts'), ''),
+            Bun.write(join(TEST_TREE_ROOT, 'src/nested/generated.ts'), ''),
+            Bun.write(join(TEST_TREE_ROOT, 'logs/app.txt'), ''),
+            Bun.write(
+                join(TEST_TREE_ROOT, '.gitignore'),
+                '*.log\n!keep.log\n/logs/\n',
+            ),
+            Bun.write(
+                join(TEST_TREE_ROOT, 'src/nested/.gitignore'),
+                'generated.ts\n',
+            ),
+        ])
+    })
+
+    afterAll(async () => {
+        await $`rm -rf ${TEST_TREE_ROOT}`
+    })
+
+    describe('IgnoreMatcher', () => {
+        test('matches unanchored patterns at any depth', () => {
+            const matcher = new IgnoreMatcher()
+            matcher.add('*.log\nbuild/')
+
+            expect(matcher.isIgnored('debug.log', false)).toBe(true)
+            expect(matcher.isIgnored('src/debug.log', false)).toBe(true)
+            expect(matcher.isIgnored('src/build', true)).toBe(true)
+            expect(matcher.isIgnored('src/build', false)).toBe(false)
+        })
+
+        test('anchors patterns containing a slash', () => {
+            const matcher = new IgnoreMatcher()
+            matcher.add('/dist\ndocs/*.md')
+
+            expect(matcher.isIgnored('dist', true)).toBe(true)
+            expect(matcher.isIgnored('packages/dist', true)).toBe(false)
+            expect(matcher.isIgnored('docs/guide.md', false)).toBe(true)
+            expect(matcher.isIgnored('docs/api/guide.md', false)).toBe(false)
+        })
+
+        test('supports double-star patterns', () => {
+            const matcher = new IgnoreMatcher()
+            matcher.add('**/fixtures\nout/**\na/**/b')
+
+            expect(matcher.isIgnored('test/fixtures', true)).toBe(true)
+            expect(matcher.isIgnored('out/x/y.js', false)).toBe(true)
+            expect(matcher.isIgnored('a/b', true)).toBe(true)
+            expect(matcher.isIgnored('a/x/y/b', true)).toBe(true)
+        })
+
+        test('applies negations and nested rules in order', () => {
+            const matcher = new IgnoreMatcher()
+            matcher.add('*.log\n!important.log')
+            matcher.add('*.log', 'packages/app')
+
+            expect(matcher.isIgnored('important.log', false)).toBe(false)
+            expect(matcher.isIgnored('packages/app/important.log', false)).toBe(
+                true,
+            )
+        })
+    })
+
+    describe('loadGitignore', () => {
+        test('excludes files of root and nested .gitignore files', async () => {
+            const matcher = await loadGitignore(TEST_TREE_ROOT)
+
+            expect(matcher.excludes('src/index.ts')).toBe(false)
+            expect(matcher.excludes('src/keep.log')).toBe(false)
+            expect(matcher.excludes('src/debug.log')).toBe(true)
+            expect(matcher.excludes('src/nested/generated.ts')).toBe(true)
+            expect(matcher.excludes('logs/app.txt')).toBe(true)
+        })
+    })
+
+    describe('buildFileTree', () => {
+        test('honors root and nested .gitignore files', async () => {
+            const { tree, text, truncated } = await buildFileTree(
+                TEST_TREE_ROOT,
+                { maxDepth: 4 },
+            )
+            const files = listTreeFiles(tree)
+
+            expect(truncated).toBe(false)
+            expect(files).toContain('src/index.ts')
+            expect(files).toContain('src/keep.log')
+            expect(files).toContain('src/nested/deep/file.ts')
+            expect(files).not.toContain('src/debug.log')
+            expect(files).not.toContain('src/nested/generated.ts')
+            expect(files).not.toContain('logs/app.txt')
+            expect(text).toStartWith('.\n├── src')
+        })
+
+        test('limits depth', async () => {
+            const { tree, text } = await buildFileTree(TEST_TREE_ROOT)
+
+            // Matches `tree -L 3`: the deep directory is listed, its files aren't
+            expect(text).toContain('deep')
+            expect(listTreeFiles(tree)).not.toContain('src/nested/deep/file.ts')
+        })
+
+        test('caps the number of entries', async () => {
+            const { tree, text, truncated } = await buildFileTree(
+                TEST_TREE_ROOT,
+                { maxEntries: 2 },
+            )
+
+            expect(truncated).toBe(true)
+            expect(tree.children?.at(-1)?.type).toBe('truncated')
+            expect(text).toContain('… ')
+        })
+    })
+
+    describe('renderFileTree', () => {
+        test('renders in tree --dirsfirst format', () => {
+            const text = renderFileTree({
+                name: '.',
+                path: '',
+                type: 'directory',
+                children: [
+                    {
+                        name: 'src',
+                        path: 'src',
+                        type: 'directory',
+                        children: [
+                            { name: 'a.ts', path: 'src/a.ts', type: 'file' },
+                            { name: 'b.ts', path: 'src/b.ts', type: 'file' },
+                        ],
+                    },
+                    { name: 'README.md', path: 'README.md', type: 'file' },
+                ],
+            })
+
+            expect(text).toBe(
+                [
+                    '.',
+                    '├── src',
+                    '│   ├── a.ts',
+                    '│   └── b.ts',
+                    '└── README.md',
+                    '',
+                    '1 directory, 3 files',
+                ].join('\n'),
+            )
+        })
+    })
+})
@@ -0,0 +1,334 @@
+import { readdir, readFile } from 'fs/promises'
+import { dirname, join } from 'path'
+
+import { glob } from 'glob'
+
+import type { FileTreeNode } from './types'
+
+interface IgnoreRule {
+    // Directory (relative to project root) of the .gitignore declaring the rule
+    base: string
+    regex: RegExp
+    negated: boolean
+    dirOnly: boolean
+}
+
+export interface FileTreeOptions {
+    // Directory levels rendered below the root
+    maxDepth?: number
+    // Total number of entries before the walk stops
+    maxEntries?: number
+    // Entries rejected here are left out, on top of .gitignore rules
+    filter?: (path: string, isDirectory: boolean) => boolean
+}
+
+export interface FileTree {
+    tree: FileTreeNode
+    text: string
+    truncated: boolean
+}
+
+// Always skipped, regardless of .gitignore content
+const alwaysIgnored = ['.git']
+
+// Used when the project has no root .gitignore
+const fallbackPatterns = [
+    'node_modules/',
+    'dist/',
+    'build/',
+    'coverage/',
+    '.cache/',
+    '.temp/',
+    'tmp/',
+]
+
+/**
+ * Converts a gitignore glob to a regular expression source.
+ */
+function globToRegex(glob: string): string {
+    let source = ''
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i]
+
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                const atStart = i === 0 || glob[i - 1] === '/'
+                const atEnd = i + 2 === glob.length || glob[i + 2] === '/'
+                if (atStart && atEnd) {
+                    if (glob[i + 2] === '/') {
+                        // `**/` matches zero or more directories
+                        source += '(?:.*/)?'
+                        i += 2
+                    } else {
+                        source += '.*'
+                        i += 1
+                    }
+                    continue
+                }
+            }
+            source += '[^/]*'
+        } else if (char === '?') {
+            source += '[^/]'
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1)
+            if (end === -1) {
+                source += '\\['
+            } else {
+                const body = glob.slice(i + 1, end).replace(/^!/, '^')
+                source += `[${body.replace(/\\/g, '\\\\')}]`
+                i = end
+            }
+        } else if (char === '\\' && i + 1 < glob.length) {
+            source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+        }
+    }
+    return source
+}
+
+/**
+ * Parses .gitignore content into rules scoped to `base`.
+ * Supports comments, escaped characters, negation (`!`), directory-only
+ * patterns (trailing `/`), anchored patterns (containing `/`) and `**`.
+ */
+export function parseGitignore(content: string, base = ''): IgnoreRule[] {
+    const rules: IgnoreRule[] = []
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        // Trailing spaces are ignored unless escaped
+        let line = rawLine.replace(/(?<!\\)\s+$/, '')
+        if (!line || line.startsWith('#')) continue
+
+        const negated = line.startsWith('!')
+        if (negated) line = line.slice(1)
+        if (line.startsWith('\\#') || line.startsWith('\\!')) {
+            line = line.slice(1)
+        }
+
+        const dirOnly = line.endsWith('/')
+        if (dirOnly) line = line.slice(0, -1)
+        if (!line) continue
+
+        // A slash anywhere but the end anchors the pattern to `base`
+        const anchored = line.includes('/')
+        if (line.startsWith('/')) line = line.slice(1)
+
+        const pattern = globToRegex(line)
+        rules.push({
+            base,
+            regex: new RegExp(
+                anchored ? `^${pattern}$` : `^(?:.*/)?${pattern}$`,
+            ),
+            negated,
+            dirOnly,
+        })
+    }
+
+    return rules
+}
+
+/**
+ * Gitignore matcher holding rules from the root and nested .gitignore
+ * files. Later rules win, so nested files override their parents.
+ */
+export class IgnoreMatcher {
+    private readonly rules: IgnoreRule[] = []
+
+    add(content: string, base = ''): void {
+        this.rules.push(...parseGitignore(content, base))
+    }
+
+    isIgnored(path: string, isDirectory: boolean): boolean {
+        const name = path.split('/').pop() ?? path
+        if (alwaysIgnored.includes(name)) return true
+
+        let ignored = false
+        for (const rule of this.rules) {
+            if (rule.dirOnly && !isDirectory) continue
+
+            const prefix = rule.base ? `${rule.base}/` : ''
+            if (prefix && !path.startsWith(prefix)) continue
+
+            if (rule.regex.test(path.slice(prefix.length))) {
+                ignored = !rule.negated
+            }
+        }
+        return ignored
+    }
+
+    /**
+     * Whether a file is ignored, by its own path or one of its parent
+     * directories, for listings that don't walk the tree.
+     */
+    excludes(path: string): boolean {
+        const segments = path.split('/')
+        return segments.some((_, index) =>
+            this.isIgnored(
+                segments.slice(0, index + 1).join('/'),
+                index < segments.length - 1,
+            ),
+        )
+    }
+}
+
+async function readGitignore(dir: string): Promise<string | null> {
+    try {
+        return await readFile(join(dir, '.gitignore'), 'utf-8')
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Matcher for the root .gitignore (or the fallback patterns when there is
+ * none) and every nested .gitignore file of the project.
+ */
+export async function loadGitignore(
+    projectRoot: string,
+): Promise<IgnoreMatcher> {
+    const matcher = new IgnoreMatcher()
+    const rootGitignore = await readGitignore(projectRoot)
+    matcher.add(rootGitignore ?? fallbackPatterns.join('\n'))
+
+    // Parents first, so nested rules override theirs
+    const nested = await glob('**/.gitignore', {
+        cwd: projectRoot,
+        ignore: ['**/node_modules/**', '.gitignore'],
+    })
+    for (const path of nested.sort(
+        (a, b) => a.split('/').length - b.split('/').length,
+    )) {
+        const content = await readGitignore(join(projectRoot, dirname(path)))
+        if (content) matcher.add(content, dirname(path))
+    }
+    return matcher
+}
+
+/**
+ * Walks the project in-process, applying .gitignore semantics (including
+ * nested .gitignore files), and returns both a structured tree and a
+ * `tree --dirsfirst` style text rendering.
+ */
+export async function buildFileTree(
+    projectRoot: string,
+    { maxDepth = 3, maxEntries = 1000, filter }: FileTreeOptions = {},
+): Promise<FileTree> {
+    const matcher = new IgnoreMatcher()
+    const rootGitignore = await readGitignore(projectRoot)
+    matcher.add(rootGitignore ?? fallbackPatterns.join('\n'))
+
+    let entries = 0
+    let truncated = false
+
+    const walk = async (
+        path: string,
+        depth: number,
+    ): Promise<FileTreeNode[]> => {
+        const dir = join(projectRoot, path)
+        if (path) {
+            const nested = await readGitignore(dir)
+            if (nested) matcher.add(nested, path)
+        }
+
+        const dirents = await readdir(dir, { withFileTypes: true })
+        const children = dirents
+            .map(dirent => ({
+                name: dirent.name,
+                path: path ? `${path}/${dirent.name}` : dirent.name,
+                isDirectory: dirent.isDirectory(),
+            }))
+            .filter(
+                entry =>
+                    !matcher.isIgnored(entry.path, entry.isDirectory) &&
+                    (!filter || filter(entry.path, entry.isDirectory)),
+            )
+            .sort((a, b) =>
+                a.isDirectory === b.isDirectory
+                    ? a.name.localeCompare(b.name)
+                    : a.isDirectory
+                      ? -1
+                      : 1,
+            )
+
+        const nodes: FileTreeNode[] = []
+        for (const [index, child] of children.entries()) {
+            if (entries >= maxEntries) {
+                truncated = true
+                nodes.push({
+                    name: `… ${children.length - index} more`,
+                    path: child.path,
+                    type: 'truncated',
+                })
+                break
+            }
+            entries++
+
+            if (child.isDirectory) {
+                nodes.push({
+                    name: child.name,
+                    path: child.path,
+                    type: 'directory',
+                    children:
+                        depth < maxDepth
+                            ? await walk(child.path, depth + 1)
+                            : undefined,
+                })
+            } else {
+                nodes.push({ name: child.name, path: child.path, type: 'file' })
+            }
+        }
+        return nodes
+    }
+
+    const tree: FileTreeNode = {
+        name: '.',
+        path: '',
+        type: 'directory',
+        children: await walk('', 1),
+    }
+
+    return { tree, text: renderFileTree(tree), truncated }
+}
+
+/**
+ * Renders a tree in the format of `tree --dirsfirst`, including the
+ * directory/file summary line.
+ */
+export function renderFileTree(tree: FileTreeNode): string {
+    const lines = [tree.name]
+    let directories = 0
+    let files = 0
+
+    const render = (nodes: FileTreeNode[], prefix: string) => {
+        nodes.forEach((node, index) => {
+            const last = index === nodes.length - 1
+            lines.push(`${prefix}${last ? '└── ' : '├── '}${node.name}`)
+
+            if (node.type === 'directory') {
+                directories++
+                render(
+                    node.children ?? [],
+                    `${prefix}${last ? '    ' : '│   '}`,
+                )
+            } else if (node.type === 'file') {
+                files++
+            }
+        })
+    }
+    render(tree.children ?? [], '')
+
+    lines.push(
+        '',
+        `${directories} ${directories === 1 ? 'directory' : 'directories'}, ${files} ${files === 1 ? 'file' : 'files'}`,
+    )
+    return lines.join('\n')
+}
+
+/**
+ * Flattens a tree into the list of file paths it contains.
+ */
+export function listTreeFiles(tree: FileTreeNode): string[] {
+    if (tree.type === 'file') return [tree.path]
+    return (tree.children ?? []).flatMap(listTreeFiles)
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test'
+
+import { FocusScope, readmeExcerpt } from './focus'
+
+describe('FocusScope', () => {
+    test('normalizes the pattern and finds its directory', () => {
+        expect(new FocusScope('./src/context/')).toMatchObject({
+            pattern: 'src/context',
+            directory: 'src/context',
+        })
+        expect(new FocusScope('packages/*/src')).toMatchObject({
+            pattern: 'packages/*/src',
+            directory: 'packages',
+        })
+        expect(new FocusScope('*.md').directory).toBe('')
+    })
+
+    test('contains files in the focus and the directories leading to it', () => {
+        const focus = new FocusScope('src/context')
+
+        expect(focus.contains('src/context/analyzer.ts')).toBe(true)
+        expect(focus.contains('src', true)).toBe(true)
+        expect(focus.contains('src/llm/router.ts')).toBe(false)
+        expect(focus.contains('src/llm', true)).toBe(false)
+        expect(focus.contains('package.json')).toBe(false)
+        // Anchored to the project root
+        expect(focus.contains('lib/src/context/a.ts')).toBe(false)
+    })
+
+    test('matches globs', () => {
+        const focus = new FocusScope('packages/*')
+
+        expect(focus.contains('packages/a/src/index.ts')).toBe(true)
+        expect(focus.contains('apps/web/index.ts')).toBe(false)
+    })
+})
+
+describe('readmeExcerpt', () => {
+    test('returns the first paragraph without title and badges', () => {
+        const readme = [
+            '# Project',
+            '[![CI](https://example.com/ci.svg)](https://example.com)',
+            '',
+            'Generates slides',
+            'from your code.',
+            '',
+            '## Install',
+        ].join('\n')
+
+        expect(readmeExcerpt(readme)).toBe('Generates slides from your code.')
+        expect(readmeExcerpt('# Title only')).toBeUndefined()
+    })
+
+    test('cuts long paragraphs', () => {
+        const excerpt = readmeExcerpt('word '.repeat(200))
+        expect(excerpt?.length).toBeLessThanOrEqual(501)
+        expect(excerpt?.endsWith('…')).toBe(true)
+    })
+})
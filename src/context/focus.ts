@@ -0,0 +1,66 @@
+import { EgressFilter } from './egress'
+
+// Longest README excerpt kept for the wider project
+const MAX_DESCRIPTION_LENGTH = 500
+
+/**
+ * Part of the project a focused deck is about: a directory or a glob
+ * relative to the project root, such as `src/context` or `packages/*`.
+ */
+export class FocusScope {
+    // Normalized pattern, also used as git pathspec
+    readonly pattern: string
+    // Directory before the first wildcard ('' for the project root)
+    readonly directory: string
+    private readonly matcher: EgressFilter
+
+    constructor(pattern: string) {
+        this.pattern = pattern
+            .trim()
+            .replace(/^(\.\/|\/)+/, '')
+            .replace(/\/+$/, '')
+        const literal = this.pattern.split(/[*?[]/)[0]
+        this.directory =
+            literal === this.pattern
+                ? this.pattern
+                : literal
+                      .slice(0, literal.lastIndexOf('/') + 1)
+                      .replace(/\/$/, '')
+        // Anchored, so `src` doesn't match nested src directories
+        this.matcher = new EgressFilter({ include: [`/${this.pattern}`] })
+    }
+
+    /**
+     * Whether a file lies in the focus. For directories, whether they are in
+     * it or may contain files that are, so walks can skip the others.
+     */
+    contains(path: string, isDirectory = false): boolean {
+        return this.matcher.allows(path, isDirectory)
+    }
+}
+
+/**
+ * First paragraph of a README below its title, without markup that doesn't
+ * help a summary (badges, images, HTML).
+ */
+export function readmeExcerpt(content: string): string | undefined {
+    const paragraph = content
+        .split(/\n\s*\n/)
+        .map(block =>
+            block
+                .split('\n')
+                .filter(
+                    line =>
+                        !/^\s*#/.test(line) &&
+                        !/^\s*(!?\[!\[|!\[|<)/.test(line) &&
+                        line.trim() !== '',
+                )
+                .join(' ')
+                .trim(),
+        )
+        .find(Boolean)
+    if (!paragraph) return undefined
+    return paragraph.length > MAX_DESCRIPTION_LENGTH
+        ? `${paragraph.slice(0, MAX_DESCRIPTION_LENGTH).trimEnd()}…`
+        : paragraph
+}
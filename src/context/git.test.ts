@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test'
+
+import { parseConventionalCommit, parseUnifiedDiff } from './git'
+
+describe('parseConventionalCommit', () => {
+    test('parses type, scope and breaking marker', () => {
+        expect(parseConventionalCommit('feat(cli)!: add release deck')).toEqual(
+            {
+                type: 'feat',
+                scope: 'cli',
+                breaking: true,
+                description: 'add release deck',
+            },
+        )
+    })
+
+    test('parses subjects without a scope', () => {
+        expect(parseConventionalCommit('Fix: handle empty repos')).toEqual({
+            type: 'fix',
+            scope: undefined,
+            breaking: false,
+            description: 'handle empty repos',
+        })
+    })
+
+    test('returns null for free-form subjects', () => {
+        expect(parseConventionalCommit('Initial commit')).toBeNull()
+        expect(parseConventionalCommit('Merge branch main: x')).toBeNull()
+    })
+})
+
+describe('parseUnifiedDiff', () => {
+    test('parses added, renamed, deleted and binary files', () => {
+        const files = parseUnifiedDiff(
+            [
+                'diff --git a/src/new.ts b/src/new.ts',
+                'new file mode 100644',
+                'index 0000000..1111111',
+                '--- /dev/null',
+                '+++ b/src/new.ts',
+                '@@ -0,0 +1,2 @@',
+                '+export const a = 1',
+                '+export const b = 2',
+                'diff --git a/src/old name.ts b/src/new name.ts',
+                'similarity index 90%',
+                'rename from src/old name.ts',
+                'rename to src/new name.ts',
+                'index 2222222..3333333 100644',
+                '--- a/src/old name.ts',
+                '+++ b/src/new name.ts',
+                '@@ -10,3 +10,3 @@ export function run() {',
+                ' const x = 1',
+                '-const y = 2',
+                '+const y = 3',
+                '\\ No newline at end of file',
+                'diff --git a/src/gone.ts b/src/gone.ts',
+                'deleted file mode 100644',
+                '--- a/src/gone.ts',
+                '+++ /dev/null',
+                '@@ -1 +0,0 @@',
+                '-gone',
+                'diff --git a/logo.png b/logo.png',
+                'Binary files a/logo.png and b/logo.png differ',
+            ].join('\n'),
+        )
+
+        expect(
+            files.map(({ path, oldPath, status, binary }) => ({
+                path,
+                oldPath,
+                status,
+                binary,
+            })),
+        ).toEqual([
+            {
+                path: 'src/new.ts',
+                oldPath: undefined,
+                status: 'added',
+                binary: false,
+            },
+            {
+                path: 'src/new name.ts',
+                oldPath: 'src/old name.ts',
+                status: 'renamed',
+                binary: false,
+            },
+            {
+                path: 'src/gone.ts',
+                oldPath: undefined,
+                status: 'deleted',
+                binary: false,
+            },
+            {
+                path: 'logo.png',
+                oldPath: undefined,
+                status: 'modified',
+                binary: true,
+            },
+        ])
+
+        expect(files[0]).toMatchObject({ insertions: 2, deletions: 0 })
+        expect(files[1].hunks).toEqual([
+            {
+                header: '@@ -10,3 +10,3 @@ export function run() {',
+                oldStart: 10,
+                newStart: 10,
+                lines: [
+                    { type: 'context', content: 'const x = 1' },
+                    { type: 'removed', content: 'const y = 2' },
+                    { type: 'added', content: 'const y = 3' },
+                ],
+            },
+        ])
+    })
+})
@@ -0,0 +1,478 @@
+import { execa } from 'execa'
+
+export interface GitFileChange {
+    path: string
+    insertions: number
+    deletions: number
+}
+
+export interface GitCommit {
+    hash: string
+    shortHash: string
+    authorName: string
+    authorEmail: string
+    date: string
+    subject: string
+    files: GitFileChange[]
+}
+
+export interface GitTag {
+    name: string
+    date: string
+    commit: string
+}
+
+export interface GitContributor {
+    name: string
+    email: string
+    commits: number
+}
+
+export interface ConventionalCommit {
+    type: string
+    scope?: string
+    breaking: boolean
+    description: string
+}
+
+export interface GitDiffLine {
+    type: 'context' | 'added' | 'removed'
+    content: string
+}
+
+export interface GitDiffHunk {
+    // The `@@ -a,b +c,d @@ section` line
+    header: string
+    oldStart: number
+    newStart: number
+    lines: GitDiffLine[]
+}
+
+export interface GitDiffFile {
+    path: string
+    // Previous path for renames
+    oldPath?: string
+    status: 'added' | 'modified' | 'deleted' | 'renamed'
+    binary: boolean
+    insertions: number
+    deletions: number
+    hunks: GitDiffHunk[]
+}
+
+export interface GitLogOptions {
+    // Revision range, e.g. `v1.0.0..v1.1.0` (defaults to HEAD)
+    range?: string
+    maxCount?: number
+    // Limit history to these paths
+    paths?: string[]
+    includeMerges?: boolean
+    // Only commits whose message (including the body) matches this pattern
+    grep?: string
+}
+
+// ASCII record/unit separators can't appear in commit metadata
+const RECORD_SEPARATOR = '\x1e'
+const FIELD_SEPARATOR = '\x1f'
+
+/**
+ * Parses a conventional commit subject such as `feat(cli)!: add release`.
+ * Returns null for subjects that don't follow the convention.
+ */
+export function parseConventionalCommit(
+    subject: string,
+): ConventionalCommit | null {
+    const match = subject.match(/^(\w+)(?:\(([^)]*)\))?(!)?:\s+(.+)$/)
+    if (!match) return null
+
+    return {
+        type: match[1].toLowerCase(),
+        scope: match[2] || undefined,
+        breaking: match[3] === '!',
+        description: match[4],
+    }
+}
+
+/**
+ * Parses `--numstat` lines. Binary files report `-` for both counts.
+ */
+function parseNumstat(lines: string[]): GitFileChange[] {
+    return lines
+        .map(line => line.split('\t'))
+        .filter(parts => parts.length >= 3)
+        .map(([insertions, deletions, ...path]) => ({
+            // Renames are reported as `old => new`, keep the new path
+            path: path
+                .join('\t')
+                .replace(/\{[^}]* => ([^}]*)\}/, '$1')
+                .replace(/^.* => /, '')
+                .replace(/\/\//g, '/'),
+            insertions: Number(insertions) || 0,
+            deletions: Number(deletions) || 0,
+        }))
+}
+
+/**
+ * Parses unified `git diff` output into files and hunks.
+ */
+export function parseUnifiedDiff(patch: string): GitDiffFile[] {
+    const files: GitDiffFile[] = []
+    let file: GitDiffFile | undefined
+    let hunk: GitDiffHunk | undefined
+
+    const stripPrefix = (path: string) => path.replace(/^[ab]\//, '')
+
+    for (const line of patch.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            // Paths from this line are only a fallback (ambiguous with spaces)
+            const match = line.match(/^diff --git a\/(.+) b\/(.+)$/)
+            file = {
+                path: match?.[2] ?? '',
+                status: 'modified',
+                binary: false,
+                insertions: 0,
+                deletions: 0,
+                hunks: [],
+            }
+            hunk = undefined
+            files.push(file)
+            continue
+        }
+        if (!file) continue
+
+        if (!hunk) {
+            if (line.startsWith('new file mode')) {
+                file.status = 'added'
+            } else if (line.startsWith('deleted file mode')) {
+                file.status = 'deleted'
+            } else if (line.startsWith('rename from ')) {
+                file.status = 'renamed'
+                file.oldPath = line.slice('rename from '.length)
+            } else if (line.startsWith('rename to ')) {
+                file.path = line.slice('rename to '.length)
+            } else if (line.startsWith('Binary files ')) {
+                file.binary = true
+            } else if (line.startsWith('+++ ') && line !== '+++ /dev/null') {
+                file.path = stripPrefix(line.slice(4))
+            } else if (
+                line.startsWith('--- ') &&
+                line !== '--- /dev/null' &&
+                file.status === 'deleted'
+            ) {
+                file.path = stripPrefix(line.slice(4))
+            }
+        }
+
+        const header = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/)
+        if (header) {
+            hunk = {
+                header: line,
+                oldStart: Number(header[1]),
+                newStart: Number(header[2]),
+                lines: [],
+            }
+            file.hunks.push(hunk)
+        } else if (hunk) {
+            if (line.startsWith('+')) {
+                hunk.lines.push({ type: 'added', content: line.slice(1) })
+                file.insertions++
+            } else if (line.startsWith('-')) {
+                hunk.lines.push({ type: 'removed', content: line.slice(1) })
+                file.deletions++
+            } else if (line.startsWith(' ')) {
+                hunk.lines.push({ type: 'context', content: line.slice(1) })
+            }
+            // `\ No newline at end of file` and blank trailing lines are skipped
+        }
+    }
+
+    return files
+}
+
+/**
+ * Thin wrapper around the git CLI. Every call passes arguments as an array
+ * through execa, so revisions and paths are never interpreted by a shell.
+ */
+export class GitRepository {
+    constructor(private readonly cwd: string) {}
+
+    async run(args: string[]): Promise<string> {
+        const { stdout } = await execa('git', args, { cwd: this.cwd })
+        return stdout
+    }
+
+    async isRepository(): Promise<boolean> {
+        try {
+            await this.run(['rev-parse', '--git-dir'])
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    /**
+     * Whether HEAD points at a commit (false for freshly initialized repos).
+     */
+    async hasCommits(): Promise<boolean> {
+        try {
+            await this.run(['rev-parse', '--verify', 'HEAD'])
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    /**
+     * Whether `ref` resolves to a commit (tags are peeled).
+     */
+    async isCommit(ref: string): Promise<boolean> {
+        if (ref.startsWith('-')) return false
+        try {
+            await this.run([
+                'rev-parse',
+                '--verify',
+                '--quiet',
+                `${ref}^{commit}`,
+            ])
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    async log({
+        range = 'HEAD',
+        maxCount,
+        paths = [],
+        includeMerges = false,
+        grep,
+    }: GitLogOptions = {}): Promise<GitCommit[]> {
+        const format = ['%H', '%h', '%aN', '%aE', '%aI', '%s'].join(
+            FIELD_SEPARATOR,
+        )
+        const output = await this.run([
+            'log',
+            `--format=${RECORD_SEPARATOR}${format}`,
+            '--numstat',
+            ...(includeMerges ? [] : ['--no-merges']),
+            ...(maxCount ? [`--max-count=${maxCount}`] : []),
+            ...(grep ? [`--grep=${grep}`] : []),
+            range,
+            '--',
+            ...paths,
+        ])
+
+        return output
+            .split(RECORD_SEPARATOR)
+            .filter(record => record.trim())
+            .map(record => {
+                const [header, ...stats] = record.split('\n')
+                const [
+                    hash,
+                    shortHash,
+                    authorName,
+                    authorEmail,
+                    date,
+                    subject,
+                ] = header.split(FIELD_SEPARATOR)
+                return {
+                    hash,
+                    shortHash,
+                    authorName,
+                    authorEmail,
+                    date,
+                    subject,
+                    files: parseNumstat(stats.filter(Boolean)),
+                }
+            })
+    }
+
+    async countCommits(range = 'HEAD', paths: string[] = []): Promise<number> {
+        const output = await this.run([
+            'rev-list',
+            '--count',
+            range,
+            '--',
+            ...paths,
+        ])
+        return Number(output.trim()) || 0
+    }
+
+    /**
+     * Contributors ordered by number of commits (excluding merges).
+     */
+    async contributors(
+        range = 'HEAD',
+        paths: string[] = [],
+    ): Promise<GitContributor[]> {
+        const output = await this.run([
+            'shortlog',
+            '--summary',
+            '--numbered',
+            '--email',
+            '--no-merges',
+            range,
+            '--',
+            ...paths,
+        ])
+
+        return output
+            .split('\n')
+            .map(line => line.match(/^\s*(\d+)\s+(.+?)\s+<([^>]*)>\s*$/))
+            .filter((match): match is RegExpMatchArray => match !== null)
+            .map(([, commits, name, email]) => ({
+                name,
+                email,
+                commits: Number(commits),
+            }))
+    }
+
+    /**
+     * Full hash `ref` resolves to.
+     */
+    async resolve(ref = 'HEAD'): Promise<string> {
+        return (await this.run(['rev-parse', '--verify', ref])).trim()
+    }
+
+    /**
+     * Paths changed between two revisions, relative to (and limited to) the
+     * working directory.
+     */
+    async changedPaths(from: string, to: string): Promise<string[]> {
+        const output = await this.run([
+            '-c',
+            'core.quotePath=false',
+            'diff',
+            '--name-only',
+            '--no-renames',
+            '--relative',
+            from,
+            to,
+            '--',
+        ])
+        return output.split('\n').filter(Boolean)
+    }
+
+    /**
+     * Uncommitted (staged, unstaged and untracked) paths in the working
+     * directory, relative to it, skipping `exclude`d directories.
+     */
+    async dirtyPaths(exclude: string[] = []): Promise<string[]> {
+        const [prefix, output] = await Promise.all([
+            this.run(['rev-parse', '--show-prefix']),
+            this.run([
+                'status',
+                '--porcelain=v1',
+                '-z',
+                '--untracked-files=all',
+                '--no-renames',
+                '--',
+                '.',
+                ...exclude.map(path => `:(exclude)${path}`),
+            ]),
+        ])
+        // Entries are `XY path`, NUL separated, with paths relative to the
+        // repository root whatever the working directory
+        return output
+            .split('\0')
+            .filter(Boolean)
+            .map(entry => entry.slice(3 + prefix.trim().length))
+    }
+
+    async mergeBase(base: string, head: string): Promise<string> {
+        return (await this.run(['merge-base', base, head])).trim()
+    }
+
+    /**
+     * Diff between two revisions, with rename detection.
+     */
+    async diff(
+        from: string,
+        to: string,
+        paths: string[] = [],
+    ): Promise<GitDiffFile[]> {
+        const output = await this.run([
+            // Keep non-ASCII paths unquoted
+            '-c',
+            'core.quotePath=false',
+            'diff',
+            '--no-color',
+            '--no-ext-diff',
+            '--find-renames',
+            '--unified=3',
+            from,
+            to,
+            '--',
+            ...paths,
+        ])
+        return parseUnifiedDiff(output)
+    }
+
+    /**
+     * Files tracked at `ref`, optionally limited to paths.
+     */
+    async listFiles(ref: string, paths: string[] = []): Promise<string[]> {
+        const output = await this.run([
+            'ls-tree',
+            '-r',
+            '--name-only',
+            ref,
+            '--',
+            ...paths,
+        ])
+        return output.split('\n').filter(Boolean)
+    }
+
+    /**
+     * Content of `path` at `ref`.
+     */
+    async readFile(ref: string, path: string): Promise<string> {
+        return this.run(['show', `${ref}:${path}`])
+    }
+
+    /**
+     * Tags ordered from newest to oldest.
+     */
+    async tags(): Promise<GitTag[]> {
+        const output = await this.run([
+            'for-each-ref',
+            '--sort=-creatordate',
+            `--format=%(refname:short)${FIELD_SEPARATOR}%(creatordate:iso-strict)${FIELD_SEPARATOR}%(*objectname:short)${FIELD_SEPARATOR}%(objectname:short)`,
+            'refs/tags',
+        ])
+
+        return output
+            .split('\n')
+            .filter(Boolean)
+            .map(line => {
+                const [name, date, peeled, object] = line.split(FIELD_SEPARATOR)
+                // Annotated tags point at a tag object; prefer the commit
+                return { name, date, commit: peeled || object }
+            })
+    }
+
+    /**
+     * Date of the earliest commit reachable from HEAD, or of the earliest one
+     * touching `paths`.
+     */
+    async firstCommitDate(paths: string[] = []): Promise<string | undefined> {
+        if (paths.length > 0) {
+            const dates = await this.run([
+                'log',
+                '--reverse',
+                '--format=%aI',
+                '--',
+                ...paths,
+            ])
+            return dates.split('\n')[0] || undefined
+        }
+
+        const roots = await this.run(['rev-list', '--max-parents=0', 'HEAD'])
+        const dates = await Promise.all(
+            roots
+                .split('\n')
+                .filter(Boolean)
+                .map(root => this.run(['log', '-1', '--format=%aI', root])),
+        )
+        return dates.map(date => date.trim()).sort()[0]
+    }
+}
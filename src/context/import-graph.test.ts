@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+    buildImportGraph,
+    moduleOf,
+    parseRelativeImports,
+    resolveImport,
+} from './import-graph'
+
+describe('import graph', () => {
+    test('parseRelativeImports finds static, dynamic and require imports', () => {
+        expect(
+            parseRelativeImports(
+                [
+                    "import { a } from './a'",
+                    "import type { B } from '../b/types'",
+                    "export * from './c.js'",
+                    "import './side-effect'",
+                    "const d = await import('./d')",
+                    "const e = require('../e')",
+                    "import zod from 'zod'",
+                ].join('\n'),
+            ),
+        ).toEqual([
+            './a',
+            '../b/types',
+            './c.js',
+            './side-effect',
+            './d',
+            '../e',
+        ])
+    })
+
+    test('resolveImport tries source extensions and index files', () => {
+        const files = new Set([
+            'src/cli/index.ts',
+            'src/llm/router.ts',
+            'src/context/index.ts',
+        ])
+
+        expect(
+            resolveImport('src/cli/index.ts', '../llm/router.js', files),
+        ).toBe('src/llm/router.ts')
+        expect(resolveImport('src/cli/index.ts', '../context', files)).toBe(
+            'src/context/index.ts',
+        )
+        expect(
+            resolveImport('src/cli/index.ts', '../../package.json', files),
+        ).toBe('package.json')
+    })
+
+    test('moduleOf collapses directories to the given depth', () => {
+        expect(moduleOf('index.ts', 2)).toBe('.')
+        expect(moduleOf('src/cli/index.ts', 2)).toBe('src/cli')
+        expect(moduleOf('src/generators/slides/mermaid.ts', 2)).toBe(
+            'src/generators',
+        )
+        expect(moduleOf('src/generators/slides/mermaid.ts')).toBe(
+            'src/generators/slides',
+        )
+    })
+
+    test('buildImportGraph collapses imports to directory modules', async () => {
+        const sources: Record<string, string> = {
+            'src/cli/index.ts': [
+                "import { ProjectAnalyzer } from '../context/analyzer'",
+                "import { SlidesGenerator } from '../generators/slides/slides-generator'",
+            ].join('\n'),
+            'src/context/analyzer.ts':
+                "import { ModelRouter } from '../llm/router'",
+            'src/generators/slides/slides-generator.ts': [
+                "import { ModelRouter } from '../../llm/router'",
+                "import { createMermaidGraph } from './mermaid'",
+            ].join('\n'),
+            'src/generators/slides/mermaid.ts': '',
+            'src/llm/router.ts': '',
+            'README.md': '',
+        }
+
+        const graph = await buildImportGraph(
+            Object.keys(sources),
+            async path => sources[path],
+            { depth: 2 },
+        )
+
+        expect(graph).toEqual({
+            modules: ['src/cli', 'src/context', 'src/generators', 'src/llm'],
+            edges: [
+                ['src/cli', 'src/context'],
+                ['src/cli', 'src/generators'],
+                ['src/context', 'src/llm'],
+                ['src/generators', 'src/llm'],
+            ],
+        })
+    })
+
+    test('buildImportGraph skips tests and imports outside the files', async () => {
+        const sources: Record<string, string> = {
+            'src/a/index.ts': [
+                "import { b } from '../b'",
+                "import { mock } from '../../llm/mock'",
+            ].join('\n'),
+            'src/a/index.test.ts': "import { fixture } from '../fixtures/a'",
+            'src/b.ts': '',
+            'test/helpers.spec.ts': "import { a } from '../src/a'",
+        }
+
+        const graph = await buildImportGraph(
+            Object.keys(sources),
+            async path => sources[path],
+        )
+
+        expect(graph).toEqual({
+            modules: ['src', 'src/a'],
+            edges: [['src/a', 'src']],
+        })
+    })
+})
@@ -0,0 +1,128 @@
+import { extname, posix } from 'path'
+
+import { isTestFile } from './quality'
+
+import type { ModuleGraph } from './types'
+
+export const sourceExtensions = [
+    '.ts',
+    '.tsx',
+    '.mts',
+    '.cts',
+    '.js',
+    '.jsx',
+    '.mjs',
+    '.cjs',
+]
+
+export interface ImportGraphOptions {
+    // Files whose imports are followed (JS/TS files other than tests by
+    // default)
+    sources?: string[]
+    // Directory levels kept in module names, deeper modules are collapsed
+    depth?: number
+    // Sources read at most
+    maxFiles?: number
+}
+
+export function isSourceFile(path: string): boolean {
+    return sourceExtensions.includes(extname(path)) && !path.endsWith('.d.ts')
+}
+
+/**
+ * Extracts relative import specifiers from JS/TS source.
+ */
+export function parseRelativeImports(source: string): string[] {
+    const pattern =
+        /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"](\.{1,2}\/[^'"]*)['"]/g
+    return [...source.matchAll(pattern)].map(match => match[1])
+}
+
+/**
+ * Resolves a relative import in `from` to a file in `files`, trying source
+ * extensions and index files. Unresolved imports yield the normalized path.
+ */
+export function resolveImport(
+    from: string,
+    specifier: string,
+    files: Set<string>,
+): string {
+    const resolved = posix.normalize(posix.join(posix.dirname(from), specifier))
+    // `./file.js` may point at `file.ts` in TypeScript projects
+    const withoutExtension = resolved.replace(/\.[cm]?[jt]sx?$/, '')
+    const candidates = [
+        resolved,
+        ...sourceExtensions.map(ext => `${withoutExtension}${ext}`),
+        ...sourceExtensions.map(ext => `${resolved}/index${ext}`),
+    ]
+    return candidates.find(candidate => files.has(candidate)) ?? resolved
+}
+
+/**
+ * Directory module of a file, cut to `depth` levels. Files in the project
+ * root belong to the `.` module.
+ */
+export function moduleOf(path: string, depth = Infinity): string {
+    const dir = posix.dirname(path)
+    return dir === '.' ? dir : dir.split('/').slice(0, depth).join('/')
+}
+
+/**
+ * Resolved relative imports of each source file. Imports that don't resolve
+ * to one of `files` (fixtures, mocked paths, ignored files) are left out.
+ */
+export async function collectImports(
+    files: string[],
+    read: (path: string) => Promise<string>,
+    {
+        sources = files.filter(file => isSourceFile(file) && !isTestFile(file)),
+        maxFiles = 2000,
+    }: Omit<ImportGraphOptions, 'depth'> = {},
+): Promise<Map<string, string[]>> {
+    const fileSet = new Set(files)
+    const imports = new Map<string, string[]>()
+    for (const file of sources.slice(0, maxFiles)) {
+        imports.set(
+            file,
+            parseRelativeImports(await read(file))
+                .map(specifier => resolveImport(file, specifier, fileSet))
+                .filter(target => fileSet.has(target)),
+        )
+    }
+    return imports
+}
+
+/**
+ * Builds the directory-level module graph of a project from the relative
+ * imports in its JS/TS sources. Modules are sorted, and so are edges, so the
+ * same sources always give the same graph.
+ */
+export async function buildImportGraph(
+    files: string[],
+    read: (path: string) => Promise<string>,
+    { depth = Infinity, ...options }: ImportGraphOptions = {},
+): Promise<ModuleGraph> {
+    const imports = await collectImports(files, read, options)
+
+    const edges = new Map<string, [string, string]>()
+    for (const [file, targets] of imports) {
+        const from = moduleOf(file, depth)
+        for (const target of targets) {
+            const to = moduleOf(target, depth)
+            if (from !== to) edges.set(`${from} ${to}`, [from, to])
+        }
+    }
+
+    const sortedEdges = [...edges.values()].sort(
+        (a, b) => a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]),
+    )
+    return {
+        modules: [
+            ...new Set([
+                ...[...imports.keys()].map(file => moduleOf(file, depth)),
+                ...sortedEdges.flat(),
+            ]),
+        ].sort(),
+        edges: sortedEdges,
+    }
+}
@@ -0,0 +1,151 @@
+import { describe, expect, test } from 'bun:test'
+import dedent from 'dedent'
+
+import {
+    isInfrastructureFile,
+    parseCompose,
+    parseDockerfile,
+    parseGithubWorkflow,
+    parseGitlabCi,
+    parseKubernetesKinds,
+    parseTerraform,
+} from './infrastructure'
+
+describe('infrastructure', () => {
+    test('isInfrastructureFile matches CI, container and deploy configs', () => {
+        expect(isInfrastructureFile('.github/workflows/ci.yml')).toBe(true)
+        expect(isInfrastructureFile('services/api/Dockerfile')).toBe(true)
+        expect(isInfrastructureFile('infra/main.tf')).toBe(true)
+        expect(isInfrastructureFile('vercel.json')).toBe(true)
+        expect(isInfrastructureFile('apps/web/vercel.json')).toBe(false)
+        expect(isInfrastructureFile('src/index.ts')).toBe(false)
+    })
+
+    test('parseGithubWorkflow reads triggers, jobs and needs', () => {
+        expect(
+            parseGithubWorkflow(
+                '.github/workflows/ci.yml',
+                dedent`
+                    name: CI
+                    on:
+                      push:
+                        branches: [main]
+                      pull_request:
+                    jobs:
+                      test:
+                        runs-on: ubuntu-latest
+                      deploy:
+                        name: Deploy
+                        needs: test
+                `,
+            ),
+        ).toEqual({
+            provider: 'github-actions',
+            path: '.github/workflows/ci.yml',
+            name: 'CI',
+            triggers: ['push', 'pull_request'],
+            jobs: [
+                { id: 'test', name: undefined, needs: [] },
+                { id: 'deploy', name: 'Deploy', needs: ['test'] },
+            ],
+        })
+    })
+
+    test('parseGitlabCi orders jobs by stage unless needs are given', () => {
+        const pipeline = parseGitlabCi(
+            '.gitlab-ci.yml',
+            dedent`
+                stages: [build, test, deploy]
+                variables:
+                  NODE_ENV: test
+                .template:
+                  image: node
+                compile:
+                  stage: build
+                unit:
+                  stage: test
+                lint:
+                  stage: test
+                  needs: []
+                release:
+                  stage: deploy
+            `,
+        )
+        expect(
+            pipeline.jobs.map(job => [job.id, job.stage, job.needs]),
+        ).toEqual([
+            ['compile', 'build', []],
+            ['unit', 'test', ['compile']],
+            ['lint', 'test', []],
+            ['release', 'deploy', ['unit', 'lint']],
+        ])
+    })
+
+    test('parseGitlabCi keeps the pages job', () => {
+        const pipeline = parseGitlabCi(
+            '.gitlab-ci.yml',
+            dedent`
+                build:
+                  stage: build
+                pages:
+                  stage: deploy
+                  script: cp -r dist public
+            `,
+        )
+        expect(
+            pipeline.jobs.map(job => [job.id, job.stage, job.needs]),
+        ).toEqual([
+            ['build', 'build', []],
+            ['pages', 'deploy', ['build']],
+        ])
+    })
+
+    test('parseDockerfile skips build stages as base images', () => {
+        expect(
+            parseDockerfile(dedent`
+                FROM --platform=linux/amd64 node:20 AS build
+                RUN npm ci
+                FROM build AS test
+                FROM nginx:alpine
+                EXPOSE 80 443
+            `),
+        ).toEqual({
+            baseImages: ['node:20', 'nginx:alpine'],
+            ports: ['80', '443'],
+        })
+    })
+
+    test('parseCompose lists services', () => {
+        expect(
+            parseCompose(dedent`
+                services:
+                  api:
+                    build: .
+                  db:
+                    image: postgres:16
+            `),
+        ).toEqual(['api', 'db'])
+    })
+
+    test('parseKubernetesKinds reads kinds across documents', () => {
+        expect(
+            parseKubernetesKinds(
+                'apiVersion: apps/v1\nkind: Deployment\n---\napiVersion: v1\nkind: Service\n',
+            ),
+        ).toEqual(['Deployment', 'Service'])
+        expect(parseKubernetesKinds('name: not kubernetes')).toEqual([])
+    })
+
+    test('parseTerraform counts resources and collects providers', () => {
+        expect(
+            parseTerraform([
+                'provider "aws" {\n  region = "eu-west-1"\n}\nresource "aws_s3_bucket" "assets" {}',
+                'resource "random_id" "suffix" {}\nmodule "vpc" {\n  source = "./vpc"\n}',
+            ]),
+        ).toEqual({
+            providers: ['aws', 'random'],
+            resources: 2,
+            modules: ['vpc'],
+        })
+    })
+})
@@ -0,0 +1,339 @@
+import { readFile } from 'fs/promises'
+import { basename, join } from 'path'
+
+import { glob } from 'glob'
+
+import { readYaml } from './yaml'
+
+import type { Infrastructure, Pipeline } from './types'
+
+type YamlMap = Record<string, unknown>
+
+// Hosting platforms recognized by their config file in the project root
+const deploymentConfigs: Record<string, string> = {
+    'netlify.toml': 'netlify',
+    'vercel.json': 'vercel',
+    'fly.toml': 'fly',
+    'render.yaml': 'render',
+    Procfile: 'heroku',
+    'app.yaml': 'app-engine',
+}
+
+// Top-level .gitlab-ci.yml keys that aren't jobs
+const gitlabKeywords = new Set([
+    'stages',
+    'variables',
+    'default',
+    'include',
+    'workflow',
+    'image',
+    'services',
+    'cache',
+    'before_script',
+    'after_script',
+])
+
+const gitlabDefaultStages = ['.pre', 'build', 'test', 'deploy', '.post']
+
+const isMap = (value: unknown): value is YamlMap =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const strings = (value: unknown): string[] =>
+    Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === 'string')
+        : typeof value === 'string'
+          ? [value]
+          : []
+
+const isDockerfile = (name: string) =>
+    name === 'Dockerfile' ||
+    name.startsWith('Dockerfile.') ||
+    name.endsWith('.Dockerfile') ||
+    name === 'Containerfile'
+
+const isComposeFile = (name: string) =>
+    /^(docker-)?compose(\.[\w-]+)?\.ya?ml$/.test(name)
+
+/**
+ * Whether a path may hold CI, container, infrastructure-as-code or
+ * deployment configuration.
+ */
+export function isInfrastructureFile(path: string): boolean {
+    const name = basename(path)
+    return (
+        path.startsWith('.github/workflows/') ||
+        name === '.gitlab-ci.yml' ||
+        isDockerfile(name) ||
+        /\.(tf|ya?ml)$/.test(name) ||
+        (name === path && name in deploymentConfigs)
+    )
+}
+
+/**
+ * Triggers and jobs of a GitHub Actions workflow.
+ */
+export function parseGithubWorkflow(path: string, content: string): Pipeline {
+    const [workflow] = readYaml(content)
+    const root = isMap(workflow) ? workflow : {}
+    const on = root.on
+    const jobs = isMap(root.jobs) ? root.jobs : {}
+
+    return {
+        provider: 'github-actions',
+        path,
+        name:
+            typeof root.name === 'string'
+                ? root.name
+                : basename(path).replace(/\.ya?ml$/, ''),
+        triggers: isMap(on) ? Object.keys(on) : strings(on),
+        jobs: Object.entries(jobs).map(([id, job]) => ({
+            id,
+            name:
+                isMap(job) && typeof job.name === 'string'
+                    ? job.name
+                    : undefined,
+            needs: isMap(job) ? strings(job.needs) : [],
+        })),
+    }
+}
+
+/**
+ * Stages and jobs of a GitLab CI pipeline. Jobs without `needs` wait for
+ * every job of the previous stage, as GitLab runs them.
+ */
+export function parseGitlabCi(path: string, content: string): Pipeline {
+    const [pipeline] = readYaml(content)
+    const root = isMap(pipeline) ? pipeline : {}
+    const declaredStages = strings(root.stages)
+    const stages =
+        declaredStages.length > 0 ? declaredStages : gitlabDefaultStages
+
+    const jobs = Object.entries(root)
+        .filter(
+            ([id, job]) =>
+                !gitlabKeywords.has(id) && !id.startsWith('.') && isMap(job),
+        )
+        .map(([id, job]) => {
+            const definition = job as YamlMap
+            return {
+                id,
+                stage:
+                    typeof definition.stage === 'string'
+                        ? definition.stage
+                        : 'test',
+                needs:
+                    'needs' in definition
+                        ? (Array.isArray(definition.needs)
+                              ? definition.needs
+                              : [definition.needs]
+                          ).flatMap(need =>
+                              isMap(need) ? strings(need.job) : strings(need),
+                          )
+                        : undefined,
+            }
+        })
+
+    const stageIndex = (stage: string) => stages.indexOf(stage)
+    return {
+        provider: 'gitlab-ci',
+        path,
+        name: 'GitLab CI',
+        triggers: [],
+        jobs: jobs.map(job => {
+            // The closest earlier stage that has jobs
+            const previous = jobs
+                .filter(
+                    other => stageIndex(other.stage) < stageIndex(job.stage),
+                )
+                .map(other => stageIndex(other.stage))
+            const previousStage = Math.max(-1, ...previous)
+            return {
+                id: job.id,
+                stage: job.stage,
+                needs:
+                    job.needs ??
+                    jobs
+                        .filter(
+                            other =>
+                                previousStage >= 0 &&
+                                stageIndex(other.stage) === previousStage,
+                        )
+                        .map(other => other.id),
+            }
+        }),
+    }
+}
+
+/**
+ * Base images (skipping earlier build stages) and exposed ports of a
+ * Dockerfile.
+ */
+export function parseDockerfile(
+    content: string,
+): Pick<Infrastructure['containers'][number], 'baseImages' | 'ports'> {
+    const stages = new Set<string>()
+    const baseImages: string[] = []
+    const ports: string[] = []
+
+    // Line continuations are joined first
+    for (const line of content.replace(/\\\r?\n/g, ' ').split('\n')) {
+        const from = line.match(
+            /^\s*FROM\s+(?:--\S+\s+)*(\S+)(?:\s+AS\s+(\S+))?/i,
+        )
+        if (from) {
+            if (!stages.has(from[1])) baseImages.push(from[1])
+            if (from[2]) stages.add(from[2])
+        }
+        const expose = line.match(/^\s*EXPOSE\s+(.+)$/i)
+        if (expose) ports.push(...expose[1].trim().split(/\s+/))
+    }
+
+    return { baseImages: [...new Set(baseImages)], ports: [...new Set(ports)] }
+}
+
+/**
+ * Service names of a docker-compose file.
+ */
+export function parseCompose(content: string): string[] {
+    const [compose] = readYaml(content)
+    return isMap(compose) && isMap(compose.services)
+        ? Object.keys(compose.services)
+        : []
+}
+
+/**
+ * Kubernetes object kinds declared in a YAML file (any document with both
+ * `apiVersion` and `kind`).
+ */
+export function parseKubernetesKinds(content: string): string[] {
+    if (!/^apiVersion:/m.test(content) || !/^kind:/m.test(content)) return []
+    return [
+        ...new Set(
+            readYaml(content).flatMap(document =>
+                isMap(document) &&
+                typeof document.apiVersion === 'string' &&
+                typeof document.kind === 'string'
+                    ? [document.kind]
+                    : [],
+            ),
+        ),
+    ]
+}
+
+/**
+ * Providers, resource count and modules of Terraform sources.
+ */
+export function parseTerraform(
+    contents: string[],
+): NonNullable<Infrastructure['terraform']> {
+    const source = contents.join('\n')
+    const names = (pattern: RegExp) =>
+        [
+            ...new Set([...source.matchAll(pattern)].map(match => match[1])),
+        ].sort()
+
+    // Providers are also implied by the prefix of resource types
+    const resourceTypes = [
+        ...source.matchAll(/^\s*(?:resource|data)\s+"([^"]+)"\s+"[^"]+"/gm),
+    ].map(match => match[1].split('_')[0])
+
+    return {
+        providers: [
+            ...new Set([
+                ...names(/^\s*provider\s+"([^"]+)"/gm),
+                ...resourceTypes,
+            ]),
+        ].sort(),
+        resources: (source.match(/^\s*resource\s+"[^"]+"\s+"[^"]+"/gm) ?? [])
+            .length,
+        modules: names(/^\s*module\s+"([^"]+)"/gm),
+    }
+}
+
+/**
+ * Detects CI pipelines, containers, infrastructure as code and deployment
+ * configs. Returns undefined when the project has none of them. Only paths
+ * accepted by `filter` are read.
+ */
+export async function analyzeInfrastructure(
+    projectRoot: string,
+    { filter = () => true }: { filter?: (path: string) => boolean } = {},
+): Promise<Infrastructure | undefined> {
+    const files = (
+        await glob(
+            [
+                '.github/workflows/*.{yml,yaml}',
+                '.gitlab-ci.yml',
+                '**/{Dockerfile,Dockerfile.*,*.Dockerfile,Containerfile}',
+                '**/*.{tf,yml,yaml}',
+                ...Object.keys(deploymentConfigs),
+            ],
+            {
+                cwd: projectRoot,
+                dot: true,
+                ignore: [
+                    '**/node_modules/**',
+                    '**/dist/**',
+                    '**/build/**',
+                    '**/vendor/**',
+                    '**/.git/**',
+                    '**/.terraform/**',
+                    '**/pnpm-lock.yaml',
+                ],
+                nodir: true,
+            },
+        )
+    )
+        .filter(filter)
+        .sort()
+    const read = (path: string) => readFile(join(projectRoot, path), 'utf-8')
+
+    const pipelines: Pipeline[] = []
+    const containers: Infrastructure['containers'] = []
+    const compose: Infrastructure['compose'] = []
+    const kubernetes: Infrastructure['kubernetes'] = []
+    const terraform: string[] = []
+    const deployments: Infrastructure['deployments'] = []
+
+    for (const path of files) {
+        const name = basename(path)
+        try {
+            if (path.startsWith('.github/workflows/')) {
+                pipelines.push(parseGithubWorkflow(path, await read(path)))
+            } else if (path === '.gitlab-ci.yml') {
+                pipelines.push(parseGitlabCi(path, await read(path)))
+            } else if (isDockerfile(name)) {
+                containers.push({ path, ...parseDockerfile(await read(path)) })
+            } else if (isComposeFile(name)) {
+                compose.push({ path, services: parseCompose(await read(path)) })
+            } else if (name.endsWith('.tf')) {
+                terraform.push(await read(path))
+            } else if (path in deploymentConfigs) {
+                deployments.push({ platform: deploymentConfigs[path], path })
+            } else if (/\.ya?ml$/.test(name)) {
+                const kinds = parseKubernetesKinds(await read(path))
+                if (kinds.length > 0) kubernetes.push({ path, kinds })
+            }
+        } catch (error) {
+            console.warn(`Failed to read infrastructure config ${path}:`, error)
+        }
+    }
+
+    const infrastructure: Infrastructure = {
+        pipelines,
+        containers,
+        compose,
+        terraform: terraform.length > 0 ? parseTerraform(terraform) : undefined,
+        kubernetes,
+        deployments,
+    }
+    const detected =
+        pipelines.length +
+            containers.length +
+            compose.length +
+            terraform.length +
+            kubernetes.length +
+            deployments.length >
+        0
+    return detected ? infrastructure : undefined
+}
@@ -0,0 +1,165 @@
+import { describe, expect, test } from 'bun:test'
+import dedent from 'dedent'
+
+import {
+    parseCargoToml,
+    parseComposerJson,
+    parseGemfile,
+    parseGoMod,
+    parsePipfile,
+    parsePyproject,
+    parseRequirementsTxt,
+    primaryEcosystem,
+} from './manifests'
+
+describe('manifests', () => {
+    test('parsePyproject reads PEP 621 and poetry dependencies', () => {
+        const packages = parsePyproject(dedent`
+            [project]
+            name = "service"
+            dependencies = [
+                "fastapi>=0.110",
+                "uvicorn[standard]==0.29.0; python_version >= '3.9'",
+            ]
+
+            [project.optional-dependencies]
+            dev = ["pytest"]
+
+            [tool.poetry.dependencies]
+            python = "^3.11"
+            httpx = { version = "^0.27", extras = ["http2"] }
+
+            [tool.poetry.group.dev.dependencies]
+            ruff = "^0.4"
+        `)
+
+        expect(packages).toEqual({
+            fastapi: '>=0.110',
+            uvicorn: '==0.29.0',
+            pytest: '*',
+            httpx: '^0.27',
+            ruff: '^0.4',
+        })
+    })
+
+    test('parseRequirementsTxt skips comments and options', () => {
+        const packages = parseRequirementsTxt(dedent`
+            # runtime
+            -r base.txt
+            Django==5.0  # pinned
+            celery
+            git+https://github.com/org/repo.git
+        `)
+
+        expect(packages).toEqual({ Django: '==5.0', celery: '*' })
+    })
+
+    test('parsePipfile reads packages and dev-packages', () => {
+        const packages = parsePipfile(dedent`
+            [packages]
+            requests = "*"
+
+            [dev-packages]
+            black = "==24.1.0"
+        `)
+
+        expect(packages).toEqual({ requests: '*', black: '==24.1.0' })
+    })
+
+    test('parseGoMod reads single and block requires', () => {
+        const packages = parseGoMod(dedent`
+            module example.com/service
+
+            go 1.22
+
+            require github.com/google/uuid v1.6.0
+
+            require (
+                github.com/spf13/cobra v1.8.0
+                golang.org/x/sync v0.7.0 // indirect
+            )
+        `)
+
+        expect(packages).toEqual({
+            'github.com/google/uuid': 'v1.6.0',
+            'github.com/spf13/cobra': 'v1.8.0',
+            'golang.org/x/sync': 'v0.7.0',
+        })
+    })
+
+    test('parseCargoToml reads all dependency tables', () => {
+        const packages = parseCargoToml(dedent`
+            [package]
+            name = "cli"
+            version = "0.1.0"
+
+            [dependencies]
+            serde = { version = "1.0", features = ["derive"] }
+            tokio = "1"
+            local = { path = "../local" }
+
+            [dev-dependencies]
+            insta = "1.38"
+
+            [target.'cfg(unix)'.dependencies]
+            nix = "0.28"
+        `)
+
+        expect(packages).toEqual({
+            serde: '1.0',
+            tokio: '1',
+            local: 'path:../local',
+            insta: '1.38',
+            nix: '0.28',
+        })
+    })
+
+    test('parseGemfile reads gems with optional versions', () => {
+        const packages = parseGemfile(dedent`
+            source "https://rubygems.org"
+
+            gem "rails", "~> 7.1"
+            gem 'puma'
+        `)
+
+        expect(packages).toEqual({ rails: '~> 7.1', puma: '*' })
+    })
+
+    test('parseComposerJson skips platform requirements', () => {
+        const packages = parseComposerJson(
+            JSON.stringify({
+                require: {
+                    php: '^8.2',
+                    'ext-json': '*',
+                    'laravel/framework': '^11.0',
+                },
+                'require-dev': { 'phpunit/phpunit': '^11.0' },
+            }),
+        )
+
+        expect(packages).toEqual({
+            'laravel/framework': '^11.0',
+            'phpunit/phpunit': '^11.0',
+        })
+    })
+
+    test('primaryEcosystem picks the ecosystem with most packages', () => {
+        expect(primaryEcosystem([])).toBe('unknown')
+        expect(
+            primaryEcosystem([
+                {
+                    path: 'package.json',
+                    ecosystem: 'node',
+                    packageManager: 'npm',
+                    packages: { prettier: '^3.0.0' },
+                },
+                {
+                    path: 'Cargo.toml',
+                    ecosystem: 'rust',
+                    packageManager: 'cargo',
+                    packages: { serde: '1.0', tokio: '1' },
+                },
+            ]),
+        ).toBe('rust')
+    })
+})
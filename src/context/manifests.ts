@@ -0,0 +1,419 @@
+import { constants } from 'fs'
+import { access, readFile } from 'fs/promises'
+import { join } from 'path'
+
+import type { DependencyManifest, Ecosystem } from './types'
+
+type TomlTables = Map<string, Map<string, string>>
+
+interface ManifestParser {
+    file: string
+    ecosystem: Ecosystem
+    parse: (
+        content: string,
+        exists: (path: string) => Promise<boolean>,
+    ) => Promise<Pick<DependencyManifest, 'packageManager' | 'packages'>>
+}
+
+/**
+ * Minimal TOML reader covering what dependency manifests use: tables,
+ * `key = value` pairs and values spanning several lines (arrays, inline
+ * tables). Values are returned raw and interpreted by the helpers below.
+ */
+export function readTomlTables(content: string): TomlTables {
+    const tables: TomlTables = new Map([['', new Map()]])
+    let current = tables.get('') as Map<string, string>
+    let pendingKey: string | null = null
+    let pendingValue = ''
+
+    const depth = (value: string) => {
+        let level = 0
+        for (const char of value.replace(/"[^"]*"|'[^']*'/g, '')) {
+            if (char === '[' || char === '{') level++
+            if (char === ']' || char === '}') level--
+        }
+        return level
+    }
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/\s+#.*$/, '').trim()
+        if (!line || line.startsWith('#')) continue
+
+        if (pendingKey) {
+            pendingValue += ` ${line}`
+            if (depth(pendingValue) <= 0) {
+                current.set(pendingKey, pendingValue)
+                pendingKey = null
+            }
+            continue
+        }
+
+        const header = line.match(/^\[\[?([^\]]+)\]\]?$/)
+        if (header) {
+            const name = header[1].trim()
+            current = tables.get(name) ?? new Map()
+            tables.set(name, current)
+            continue
+        }
+
+        const pair = line.match(/^("[^"]+"|'[^']+'|[\w.-]+)\s*=\s*(.*)$/)
+        if (!pair) continue
+
+        const key = unquote(pair[1])
+        const value = pair[2]
+        if (depth(value) > 0) {
+            pendingKey = key
+            pendingValue = value
+        } else {
+            current.set(key, value)
+        }
+    }
+
+    return tables
+}
+
+function unquote(value: string): string {
+    return value.trim().replace(/^["']|["']$/g, '')
+}
+
+/**
+ * Interprets a raw TOML value as a list of strings.
+ */
+function tomlArray(value: string): string[] {
+    return [...value.matchAll(/"([^"]*)"|'([^']*)'/g)].map(
+        match => match[1] ?? match[2],
+    )
+}
+
+/**
+ * Interprets a raw TOML dependency value: either a version string or an
+ * inline table such as `{ version = "1.0", features = [...] }`.
+ */
+function tomlVersion(value: string): string {
+    if (value.trim().startsWith('{')) {
+        const version = value.match(/version\s*=\s*["']([^"']*)["']/)
+        if (version) return version[1]
+        const source = value.match(/(git|path)\s*=\s*["']([^"']*)["']/)
+        return source ? `${source[1]}:${source[2]}` : '*'
+    }
+    return unquote(value) || '*'
+}
+
+/**
+ * Splits a PEP 508 requirement (`requests[security]>=2.0; python_version>"3"`)
+ * into name and version specifier.
+ */
+function parseRequirement(requirement: string): [string, string] | null {
+    const spec = requirement.split(';')[0].trim()
+    const match = spec.match(/^([A-Za-z0-9][\w.-]*)(?:\[[^\]]*\])?\s*(.*)$/)
+    if (!match) return null
+    return [match[1], match[2].trim() || '*']
+}
+
+function collectTables(
+    tables: TomlTables,
+    names: (name: string) => boolean,
+): Record<string, string> {
+    const packages: Record<string, string> = {}
+    for (const [name, entries] of tables) {
+        if (!names(name)) continue
+        for (const [pkg, value] of entries) {
+            packages[pkg] = tomlVersion(value)
+        }
+    }
+    return packages
+}
+
+export function parsePackageJson(content: string): Record<string, string> {
+    const pkg = JSON.parse(content) as {
+        dependencies?: Record<string, string>
+        devDependencies?: Record<string, string>
+        peerDependencies?: Record<string, string>
+    }
+
+    // Combine all dependencies
+    return {
+        ...(pkg.dependencies || {}),
+        ...(pkg.devDependencies || {}),
+        ...(pkg.peerDependencies || {}),
+    }
+}
+
+export function parsePyproject(content: string): Record<string, string> {
+    const tables = readTomlTables(content)
+    const packages: Record<string, string> = {}
+
+    // PEP 621 dependencies are arrays of requirement strings
+    const project = tables.get('project')
+    const requirements = [
+        ...tomlArray(project?.get('dependencies') ?? ''),
+        ...[...(tables.get('project.optional-dependencies')?.values() ?? [])]
+            .map(tomlArray)
+            .flat(),
+    ]
+    for (const requirement of requirements) {
+        const parsed = parseRequirement(requirement)
+        if (parsed) packages[parsed[0]] = parsed[1]
+    }
+
+    // Poetry uses tables of `name = version`
+    const poetry = collectTables(
+        tables,
+        name =>
+            name === 'tool.poetry.dependencies' ||
+            name === 'tool.poetry.dev-dependencies' ||
+            /^tool\.poetry\.group\.[^.]+\.dependencies$/.test(name),
+    )
+    delete poetry.python
+
+    return { ...packages, ...poetry }
+}
+
+export function parseRequirementsTxt(content: string): Record<string, string> {
+    const packages: Record<string, string> = {}
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/\s+#.*$/, '').trim()
+        // Skip comments, options (-r, -e, --index-url) and direct URLs
+        if (!line || line.startsWith('#') || line.startsWith('-')) continue
+        if (line.includes('://')) continue
+        const parsed = parseRequirement(line)
+        if (parsed) packages[parsed[0]] = parsed[1]
+    }
+    return packages
+}
+
+export function parsePipfile(content: string): Record<string, string> {
+    return collectTables(
+        readTomlTables(content),
+        name => name === 'packages' || name === 'dev-packages',
+    )
+}
+
+export function parseGoMod(content: string): Record<string, string> {
+    const packages: Record<string, string> = {}
+    let inRequireBlock = false
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/\/\/.*$/, '').trim()
+        if (!line) continue
+
+        if (inRequireBlock) {
+            if (line === ')') {
+                inRequireBlock = false
+                continue
+            }
+            const [name, version] = line.split(/\s+/)
+            if (name && version) packages[name] = version
+            continue
+        }
+
+        if (line === 'require (') {
+            inRequireBlock = true
+            continue
+        }
+
+        const single = line.match(/^require\s+(\S+)\s+(\S+)/)
+        if (single) packages[single[1]] = single[2]
+    }
+
+    return packages
+}
+
+export function parseCargoToml(content: string): Record<string, string> {
+    return collectTables(readTomlTables(content), name =>
+        /^(?:target\..+\.)?(?:dev-|build-)?dependencies$/.test(name),
+    )
+}
+
+export function parseGemfile(content: string): Record<string, string> {
+    const packages: Record<string, string> = {}
+    for (const match of content.matchAll(
+        /^\s*gem\s+["']([^"']+)["'](?:\s*,\s*["']([^"']+)["'])?/gm,
+    )) {
+        packages[match[1]] = match[2] ?? '*'
+    }
+    return packages
+}
+
+export function parseComposerJson(content: string): Record<string, string> {
+    const composer = JSON.parse(content) as {
+        require?: Record<string, string>
+        'require-dev'?: Record<string, string>
+    }
+    const packages = {
+        ...(composer.require || {}),
+        ...(composer['require-dev'] || {}),
+    }
+    // Platform requirements aren't packages
+    for (const name of Object.keys(packages)) {
+        if (name === 'php' || name.startsWith('ext-')) delete packages[name]
+    }
+    return packages
+}
+
+const manifestParsers: ManifestParser[] = [
+    {
+        file: 'package.json',
+        ecosystem: 'node',
+        parse: async (content, exists) => {
+            // Determine package manager by lock file presence
+            const packageManager =
+                (await exists('bun.lockb')) || (await exists('bun.lock'))
+                    ? 'bun'
+                    : (await exists('pnpm-lock.yaml'))
+                      ? 'pnpm'
+                      : (await exists('yarn.lock'))
+                        ? 'yarn'
+                        : 'npm'
+            return { packageManager, packages: parsePackageJson(content) }
+        },
+    },
+    {
+        file: 'pyproject.toml',
+        ecosystem: 'python',
+        parse: async (content, exists) => {
+            const packageManager = (await exists('uv.lock'))
+                ? 'uv'
+                : (await exists('poetry.lock')) ||
+                    content.includes('[tool.poetry')
+                  ? 'poetry'
+                  : (await exists('pdm.lock'))
+                    ? 'pdm'
+                    : 'pip'
+            return { packageManager, packages: parsePyproject(content) }
+        },
+    },
+    {
+        file: 'requirements.txt',
+        ecosystem: 'python',
+        parse: async content => ({
+            packageManager: 'pip',
+            packages: parseRequirementsTxt(content),
+        }),
+    },
+    {
+        file: 'requirements-dev.txt',
+        ecosystem: 'python',
+        parse: async content => ({
+            packageManager: 'pip',
+            packages: parseRequirementsTxt(content),
+        }),
+    },
+    {
+        file: 'Pipfile',
+        ecosystem: 'python',
+        parse: async content => ({
+            packageManager: 'pipenv',
+            packages: parsePipfile(content),
+        }),
+    },
+    {
+        file: 'go.mod',
+        ecosystem: 'go',
+        parse: async content => ({
+            packageManager: 'go',
+            packages: parseGoMod(content),
+        }),
+    },
+    {
+        file: 'Cargo.toml',
+        ecosystem: 'rust',
+        parse: async content => ({
+            packageManager: 'cargo',
+            packages: parseCargoToml(content),
+        }),
+    },
+    {
+        file: 'Gemfile',
+        ecosystem: 'ruby',
+        parse: async content => ({
+            packageManager: 'bundler',
+            packages: parseGemfile(content),
+        }),
+    },
+    {
+        file: 'composer.json',
+        ecosystem: 'php',
+        parse: async content => ({
+            packageManager: 'composer',
+            packages: parseComposerJson(content),
+        }),
+    },
+]
+
+export const manifestFiles = manifestParsers.map(parser => parser.file)
+
+// Lock files whose presence decides the package manager
+export const lockFiles = [
+    'bun.lockb',
+    'bun.lock',
+    'pnpm-lock.yaml',
+    'yarn.lock',
+    'uv.lock',
+    'poetry.lock',
+    'pdm.lock',
+]
+
+/**
+ * Reads every known dependency manifest in `dir`.
+ * Paths in the result are relative to `root`.
+ */
+export async function readManifests(
+    root: string,
+    dir = '',
+): Promise<DependencyManifest[]> {
+    const exists = async (path: string) => {
+        try {
+            await access(join(root, dir, path), constants.F_OK)
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    const manifests = await Promise.all(
+        manifestParsers.map(async parser => {
+            const path = dir ? join(dir, parser.file) : parser.file
+            if (!(await exists(parser.file))) return null
+
+            const content = await readFile(join(root, path), 'utf-8')
+            try {
+                const parsed = await parser.parse(content, exists)
+                return { path, ecosystem: parser.ecosystem, ...parsed }
+            } catch (error) {
+                throw new Error(
+                    `Failed to parse ${path}: ${error instanceof Error ? error.message : String(error)}`,
+                )
+            }
+        }),
+    )
+
+    return manifests.filter(
+        (manifest): manifest is DependencyManifest => manifest !== null,
+    )
+}
+
+/**
+ * The ecosystem contributing the most packages, or `unknown` when no
+ * manifest was found.
+ */
+export function primaryEcosystem(manifests: DependencyManifest[]): Ecosystem {
+    const counts = new Map<Ecosystem, number>()
+    for (const manifest of manifests) {
+        counts.set(
+            manifest.ecosystem,
+            (counts.get(manifest.ecosystem) ?? 0) +
+                Object.keys(manifest.packages).length,
+        )
+    }
+
+    let primary: Ecosystem = 'unknown'
+    let max = -1
+    for (const [ecosystem, count] of counts) {
+        if (count > max) {
+            primary = ecosystem
+            max = count
+        }
+    }
+    return primary
+}
@@ -0,0 +1,147 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+
+import {
+    analyzeMetadata,
+    detectLicense,
+    parsePackageMetadata,
+    repositoryUrl,
+} from './metadata'
+
+const MIT_LICENSE = [
+    'MIT License',
+    '',
+    'Copyright (c) 2024 Jane Doe',
+    '',
+    'Permission is hereby granted, free of charge, to any person obtaining a copy',
+].join('\n')
+
+describe('metadata', () => {
+    test('parsePackageMetadata reads the project identity', () => {
+        const metadata = parsePackageMetadata(
+            JSON.stringify({
+                name: 'slidev-gen',
+                version: '1.2.0',
+                description: 'Generate slides from code',
+                keywords: ['slides', 'slidev'],
+                license: 'MIT',
+                author: 'Jane Doe <jane@example.com> (https://example.com)',
+                repository: {
+                    type: 'git',
+                    url: 'git+https://github.com/acme/slidev-gen.git',
+                },
+                homepage: 'https://acme.dev',
+                engines: { node: '>=18' },
+                main: './dist/index.js',
+                bin: { 'slidev-gen': './dist/cli.js' },
+            }),
+        )
+
+        expect(metadata).toEqual({
+            name: 'slidev-gen',
+            version: '1.2.0',
+            description: 'Generate slides from code',
+            keywords: ['slides', 'slidev'],
+            license: 'MIT',
+            author: 'Jane Doe',
+            repository: 'https://github.com/acme/slidev-gen',
+            homepage: 'https://acme.dev',
+            engines: { node: '>=18' },
+            entryPoints: ['dist/index.js', 'dist/cli.js'],
+            private: undefined,
+        })
+    })
+
+    test('parsePackageMetadata reads legacy licenses and author objects', () => {
+        const metadata = parsePackageMetadata(
+            JSON.stringify({
+                licenses: [{ type: 'MIT' }, { type: 'Apache-2.0' }],
+                author: { name: 'Jane Doe', email: 'jane@example.com' },
+                private: true,
+            }),
+        )
+
+        expect(metadata).toMatchObject({
+            license: 'MIT OR Apache-2.0',
+            author: 'Jane Doe',
+            keywords: [],
+            engines: {},
+            entryPoints: [],
+            private: true,
+        })
+    })
+
+    test('repositoryUrl expands shorthands and git URLs', () => {
+        expect(repositoryUrl('acme/tool')).toBe('https://github.com/acme/tool')
+        expect(repositoryUrl('gitlab:acme/tool')).toBe(
+            'https://gitlab.com/acme/tool',
+        )
+        expect(repositoryUrl('git@github.com:acme/tool.git')).toBe(
+            'https://github.com/acme/tool',
+        )
+        expect(repositoryUrl({ url: 'git://github.com/acme/tool.git' })).toBe(
+            'https://github.com/acme/tool',
+        )
+        expect(repositoryUrl(undefined)).toBeUndefined()
+    })
+
+    test('detectLicense recognizes common licenses', () => {
+        expect(detectLicense(MIT_LICENSE)).toBe('MIT')
+        expect(
+            detectLicense('Apache License\n  Version 2.0, January 2004'),
+        ).toBe('Apache-2.0')
+        expect(
+            detectLicense(
+                'GNU LESSER GENERAL PUBLIC LICENSE\n  Version 3, 29 June 2007',
+            ),
+        ).toBe('LGPL-3.0')
+        expect(detectLicense('All rights reserved.')).toBeUndefined()
+    })
+
+    describe('analyzeMetadata', () => {
+        let projectRoot: string
+
+        beforeEach(async () => {
+            projectRoot = await mkdtemp(join(tmpdir(), 'slidev-gen-test-'))
+        })
+
+        afterEach(async () => {
+            await rm(projectRoot, { recursive: true, force: true })
+        })
+
+        test('fills in the license from the license file', async () => {
+            await writeFile(
+                join(projectRoot, 'package.json'),
+                JSON.stringify({ name: 'tool', version: '0.1.0' }),
+            )
+            await writeFile(join(projectRoot, 'LICENSE.md'), MIT_LICENSE)
+
+            expect(await analyzeMetadata(projectRoot)).toMatchObject({
+                name: 'tool',
+                version: '0.1.0',
+                license: 'MIT',
+                licenseFile: 'LICENSE.md',
+            })
+        })
+
+        test('reads the license file without package.json', async () => {
+            await writeFile(join(projectRoot, 'COPYING'), MIT_LICENSE)
+
+            expect(await analyzeMetadata(projectRoot)).toEqual({
+                keywords: [],
+                engines: {},
+                entryPoints: [],
+                license: 'MIT',
+                licenseFile: 'COPYING',
+            })
+            expect(
+                await analyzeMetadata(projectRoot, {
+                    filter: path => path !== 'COPYING',
+                }),
+            ).toBeUndefined()
+        })
+    })
+})
@@ -0,0 +1,172 @@
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+
+import { glob } from 'glob'
+
+import { getEntryPoints } from './workspaces'
+
+import type { ProjectMetadata } from './types'
+
+type PackageIdentity = Omit<ProjectMetadata, 'licenseFile'>
+
+// License texts recognized by a phrase only they contain, most specific first
+const licenseSignatures: Array<[id: string, pattern: RegExp]> = [
+    ['AGPL-3.0', /GNU AFFERO GENERAL PUBLIC LICENSE\s+Version 3/i],
+    ['LGPL-3.0', /GNU LESSER GENERAL PUBLIC LICENSE\s+Version 3/i],
+    ['LGPL-2.1', /GNU LESSER GENERAL PUBLIC LICENSE\s+Version 2\.1/i],
+    ['GPL-3.0', /GNU GENERAL PUBLIC LICENSE\s+Version 3/i],
+    ['GPL-2.0', /GNU GENERAL PUBLIC LICENSE\s+Version 2/i],
+    ['Apache-2.0', /Apache License,?\s+Version 2\.0/i],
+    ['MPL-2.0', /Mozilla Public License,?\s+(Version|v\.?)\s*2\.0/i],
+    ['Unlicense', /This is free and unencumbered software/i],
+    ['MIT', /Permission is hereby granted, free of charge/i],
+    ['ISC', /Permission to use, copy, modify, and\/or distribute/i],
+    [
+        'BSD-3-Clause',
+        /Neither the name of .+ nor the names of its\s+contributors/is,
+    ],
+    [
+        'BSD-2-Clause',
+        /Redistributions in binary form must reproduce the above copyright/i,
+    ],
+]
+
+const hosts: Record<string, string> = {
+    github: 'github.com',
+    gitlab: 'gitlab.com',
+    bitbucket: 'bitbucket.org',
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const text = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined
+
+/**
+ * SPDX identifier of a license text, or undefined when it isn't one of the
+ * common open source licenses.
+ */
+export function detectLicense(content: string): string | undefined {
+    return licenseSignatures.find(([, pattern]) => pattern.test(content))?.[0]
+}
+
+/**
+ * Browsable URL of a package.json `repository`: shorthands such as
+ * `github:user/repo` or `user/repo` are expanded and `git+`/`.git` are
+ * dropped.
+ */
+export function repositoryUrl(repository: unknown): string | undefined {
+    const value = isRecord(repository) ? text(repository.url) : text(repository)
+    if (!value) return undefined
+
+    const shorthand = value.match(
+        /^(?:(github|gitlab|bitbucket):)?([\w.-]+\/[\w.-]+)$/,
+    )
+    if (shorthand) {
+        return `https://${hosts[shorthand[1] ?? 'github']}/${shorthand[2]}`
+    }
+    return value
+        .replace(/^git\+/, '')
+        .replace(/^git:\/\//, 'https://')
+        .replace(/^(ssh:\/\/)?git@([^:/]+)[:/]/, 'https://$2/')
+        .replace(/\.git$/, '')
+}
+
+/**
+ * Project identity from a package.json: name, version, description,
+ * keywords, license, author, links, engines and published entry points.
+ */
+export function parsePackageMetadata(content: string): PackageIdentity {
+    const pkg = JSON.parse(content) as Record<string, unknown>
+
+    // `license` is an SPDX expression; legacy packages use objects or a
+    // `licenses` array
+    const licenses = Array.isArray(pkg.licenses) ? pkg.licenses : []
+    const license =
+        text(pkg.license) ??
+        (isRecord(pkg.license) ? text(pkg.license.type) : undefined) ??
+        (licenses
+            .map(entry => (isRecord(entry) ? text(entry.type) : text(entry)))
+            .filter(Boolean)
+            .join(' OR ') ||
+            undefined)
+
+    // "Name <email> (url)" or { name, email, url }
+    const author = isRecord(pkg.author)
+        ? text(pkg.author.name)
+        : text(pkg.author)?.replace(/\s*[<(].*$/, '')
+
+    const engines = isRecord(pkg.engines)
+        ? Object.fromEntries(
+              Object.entries(pkg.engines).filter(
+                  (entry): entry is [string, string] =>
+                      typeof entry[1] === 'string',
+              ),
+          )
+        : {}
+
+    return {
+        name: text(pkg.name),
+        version: text(pkg.version),
+        description: text(pkg.description),
+        keywords: Array.isArray(pkg.keywords)
+            ? pkg.keywords.filter(
+                  (keyword): keyword is string => typeof keyword === 'string',
+              )
+            : [],
+        license,
+        author,
+        repository: repositoryUrl(pkg.repository),
+        homepage: text(pkg.homepage),
+        engines,
+        entryPoints: getEntryPoints(
+            pkg as Parameters<typeof getEntryPoints>[0],
+        ),
+        private: pkg.private === true ? true : undefined,
+    }
+}
+
+/**
+ * Reads the project identity from the root package.json and detects the
+ * license of a LICENSE/LICENCE/COPYING file, which fills in a license
+ * missing from package.json. Returns undefined when neither exists.
+ */
+export async function analyzeMetadata(
+    projectRoot: string,
+    { filter = () => true }: { filter?: (path: string) => boolean } = {},
+): Promise<ProjectMetadata | undefined> {
+    let identity: PackageIdentity | undefined
+    if (filter('package.json')) {
+        try {
+            identity = parsePackageMetadata(
+                await readFile(join(projectRoot, 'package.json'), 'utf-8'),
+            )
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+        }
+    }
+
+    const [licenseFile] = (
+        await glob('{LICENSE,LICENCE,COPYING}{,.md,.txt}', {
+            cwd: projectRoot,
+            nocase: true,
+            nodir: true,
+        })
+    )
+        .filter(filter)
+        .sort()
+    const detected = licenseFile
+        ? detectLicense(await readFile(join(projectRoot, licenseFile), 'utf-8'))
+        : undefined
+
+    if (!identity && !licenseFile) return undefined
+    return {
+        ...identity,
+        keywords: identity?.keywords ?? [],
+        engines: identity?.engines ?? {},
+        entryPoints: identity?.entryPoints ?? [],
+        license: identity?.license ?? detected,
+        licenseFile,
+    }
+}
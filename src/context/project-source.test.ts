@@ -0,0 +1,111 @@
+import { existsSync } from 'fs'
+import { mkdir, mkdtemp, readFile, rm, symlink, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { execa } from 'execa'
+
+import { GitRepository } from './git'
+import { openProject } from './project-source'
+
+describe('openProject', () => {
+    let workDir: string
+
+    beforeEach(async () => {
+        workDir = await mkdtemp(join(tmpdir(), 'slidev-gen-test-'))
+        await mkdir(join(workDir, 'project', 'src'), { recursive: true })
+        await writeFile(join(workDir, 'project', 'README.md'), '# Project')
+        await writeFile(join(workDir, 'project', 'src', 'index.ts'), '')
+    })
+
+    afterEach(async () => {
+        await rm(workDir, { recursive: true, force: true })
+    })
+
+    test('analyzes directories in place', async () => {
+        const source = await openProject(join(workDir, 'project'))
+
+        expect(source).toMatchObject({
+            root: join(workDir, 'project'),
+            kind: 'directory',
+        })
+        await source.cleanup()
+        expect(existsSync(join(workDir, 'project'))).toBe(true)
+    })
+
+    test('unpacks tarballs and unwraps a single top-level directory', async () => {
+        const archive = join(workDir, 'export.tar.gz')
+        await execa('tar', ['-czf', archive, '-C', workDir, 'project'])
+
+        const source = await openProject(archive)
+
+        expect(source.kind).toBe('tarball')
+        expect(source.root.endsWith('project')).toBe(true)
+        expect(await readFile(join(source.root, 'README.md'), 'utf-8')).toBe(
+            '# Project',
+        )
+        await source.cleanup()
+        expect(existsSync(source.root)).toBe(false)
+    })
+
+    test('refuses tarballs with entries outside the archive or links', async () => {
+        const escaping = join(workDir, 'escaping.tar.gz')
+        await execa('tar', [
+            '-czPf',
+            escaping,
+            '-C',
+            join(workDir, 'project'),
+            '--transform',
+            's,^,../,',
+            'README.md',
+        ])
+        await expect(openProject(escaping)).rejects.toThrow(
+            'Archive entry ../README.md is outside the archive',
+        )
+        expect(existsSync(join(tmpdir(), 'README.md'))).toBe(false)
+
+        await symlink('/etc', join(workDir, 'project', 'etc'))
+        const linked = join(workDir, 'linked.tar.gz')
+        await execa('tar', ['-czf', linked, '-C', workDir, 'project'])
+        await expect(openProject(linked)).rejects.toThrow(
+            'Archive entry project/etc is a link',
+        )
+    })
+
+    test('clones git bundles with their history', async () => {
+        const project = join(workDir, 'project')
+        const git = (...args: string[]) => execa('git', args, { cwd: project })
+        await git('init', '--quiet')
+        await git('add', '-A')
+        await git(
+            '-c',
+            'user.name=Test',
+            '-c',
+            'user.email=test@example.com',
+            'commit',
+            '--quiet',
+            '-m',
+            'Initial commit',
+        )
+        const bundle = join(workDir, 'project.bundle')
+        await git('bundle', 'create', '--quiet', bundle, '--all')
+
+        const source = await openProject(bundle)
+
+        expect(source.kind).toBe('bundle')
+        expect(existsSync(join(source.root, 'src', 'index.ts'))).toBe(true)
+        expect(await new GitRepository(source.root).hasCommits()).toBe(true)
+        await source.cleanup()
+        expect(existsSync(source.root)).toBe(false)
+    })
+
+    test('rejects missing and unsupported projects', async () => {
+        await expect(openProject(join(workDir, 'missing'))).rejects.toThrow(
+            'Project not found',
+        )
+        await expect(
+            openProject(join(workDir, 'project', 'README.md')),
+        ).rejects.toThrow('Unsupported project')
+    })
+})
@@ -0,0 +1,128 @@
+import { mkdtemp, open, readdir, rm, stat } from 'fs/promises'
+import { tmpdir } from 'os'
+import { isAbsolute, join, resolve } from 'path'
+
+import { execa } from 'execa'
+
+import { SlidevGenError } from '../errors/SlidevGenError'
+
+export interface ProjectSource {
+    // Directory to analyze
+    root: string
+    kind: 'directory' | 'tarball' | 'bundle'
+    // Removes the unpacked copy; a no-op for directories
+    cleanup: () => Promise<void>
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b]
+
+/**
+ * Tells archives apart by their content rather than their extension.
+ */
+async function detectKind(
+    path: string,
+): Promise<'tarball' | 'bundle' | undefined> {
+    const file = await open(path, 'r')
+    try {
+        const { buffer, bytesRead } = await file.read(
+            Buffer.alloc(16),
+            0,
+            16,
+            0,
+        )
+        const header = buffer.subarray(0, bytesRead)
+        if (GZIP_MAGIC.every((byte, index) => header[index] === byte)) {
+            return 'tarball'
+        }
+        if (/^# v[23] git bundle\n/.test(header.toString('utf-8'))) {
+            return 'bundle'
+        }
+        return undefined
+    } finally {
+        await file.close()
+    }
+}
+
+/**
+ * Refuses archives with entries that would be written outside the directory
+ * they are unpacked into: absolute paths, `..` segments and links, which
+ * later entries could be written through.
+ */
+async function checkEntries(path: string): Promise<void> {
+    const [names, listing] = await Promise.all([
+        execa('tar', ['-tzf', path]),
+        execa('tar', ['-tvzf', path]),
+    ]).then(results => results.map(({ stdout }) => stdout.split('\n')))
+
+    const outside = names.find(
+        name => isAbsolute(name) || name.split('/').includes('..'),
+    )
+    if (outside !== undefined) {
+        throw new Error(`Archive entry ${outside} is outside the archive`)
+    }
+    // Verbose listings start with the entry type: l for symlinks, h for
+    // hard links
+    const link = listing.findIndex(line => /^[lh]/.test(line))
+    if (link !== -1) {
+        throw new Error(`Archive entry ${names[link]} is a link`)
+    }
+}
+
+/**
+ * Opens a project directory, a `.tar.gz` export or a git bundle for
+ * analysis. Archives are unpacked into a temporary directory, which
+ * `cleanup` removes; bundles are cloned so their history can be analyzed.
+ * Exports wrapping everything in a single directory (as GitHub's do) are
+ * analyzed from that directory.
+ */
+export async function openProject(input: string): Promise<ProjectSource> {
+    const path = resolve(input)
+    let kind: ProjectSource['kind'] | undefined
+    try {
+        kind = (await stat(path)).isDirectory()
+            ? 'directory'
+            : await detectKind(path)
+    } catch (error) {
+        throw new SlidevGenError(
+            'InvalidProjectStructure',
+            `Project not found: ${input}`,
+            error instanceof Error ? error : undefined,
+        )
+    }
+
+    if (kind === 'directory') {
+        return { root: path, kind, cleanup: async () => {} }
+    }
+    if (!kind) {
+        throw new SlidevGenError(
+            'InvalidProjectStructure',
+            `Unsupported project: ${input} is neither a directory, a .tar.gz archive nor a git bundle`,
+        )
+    }
+
+    const directory = await mkdtemp(join(tmpdir(), 'slidev-gen-'))
+    const cleanup = () => rm(directory, { recursive: true, force: true })
+    try {
+        if (kind === 'bundle') {
+            const root = join(directory, 'project')
+            await execa('git', ['clone', '--quiet', path, root])
+            return { root, kind, cleanup }
+        }
+
+        await checkEntries(path)
+        await execa('tar', ['-xzf', path, '-C', directory])
+        const entries = await readdir(directory, { withFileTypes: true })
+        const root =
+            entries.length === 1 && entries[0].isDirectory()
+                ? join(directory, entries[0].name)
+                : directory
+        return { root, kind, cleanup }
+    } catch (error) {
+        await cleanup()
+        throw new SlidevGenError(
+            'InvalidProjectStructure',
+            `Failed to unpack ${input}: ${error instanceof Error ? error.message : String(error)}`,
+            error instanceof Error ? error : undefined,
+        )
+    }
+}
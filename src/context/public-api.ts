@@ -0,0 +1,199 @@
+import { constants } from 'fs'
+import { access } from 'fs/promises'
+import { join, relative } from 'path'
+
+import type * as TS from 'typescript'
+import type { ProjectContext, PublicApiExport } from './types'
+
+type TypeScript = typeof TS
+
+export interface PublicApiOptions {
+    maxModules?: number
+    maxExportsPerModule?: number
+    // Modules (by path relative to the project root) that may be read
+    filter?: (path: string) => boolean
+}
+
+async function loadTypeScript(): Promise<TypeScript | null> {
+    try {
+        const mod = await import('typescript')
+        return (mod.default ?? mod) as TypeScript
+    } catch {
+        // typescript is an optional peer dependency
+        return null
+    }
+}
+
+/**
+ * First paragraph of a symbol's JSDoc comment.
+ */
+function getSummary(
+    ts: TypeScript,
+    checker: TS.TypeChecker,
+    symbol: TS.Symbol,
+): string | undefined {
+    const text = ts
+        .displayPartsToString(symbol.getDocumentationComment(checker))
+        .trim()
+    if (!text) return undefined
+    return text.split(/\n\s*\n/)[0].replace(/\s+/g, ' ')
+}
+
+function getSignature(
+    checker: TS.TypeChecker,
+    symbol: TS.Symbol,
+    node: TS.Node,
+): string | undefined {
+    const type = checker.getTypeOfSymbolAtLocation(symbol, node)
+    const signature = type.getCallSignatures()[0]
+    return signature ? checker.signatureToString(signature) : undefined
+}
+
+function getMembers(
+    ts: TypeScript,
+    declaration: TS.ClassDeclaration | TS.InterfaceDeclaration,
+): string[] {
+    return declaration.members
+        .filter(member => {
+            const modifiers = ts.canHaveModifiers(member)
+                ? (ts.getModifiers(member) ?? [])
+                : []
+            return !modifiers.some(
+                modifier =>
+                    modifier.kind === ts.SyntaxKind.PrivateKeyword ||
+                    modifier.kind === ts.SyntaxKind.ProtectedKeyword,
+            )
+        })
+        .map(member => member.name?.getText())
+        .filter((name): name is string => !!name && !name.startsWith('#'))
+}
+
+function describeExport(
+    ts: TypeScript,
+    checker: TS.TypeChecker,
+    exported: TS.Symbol,
+): PublicApiExport | null {
+    const symbol =
+        exported.flags & ts.SymbolFlags.Alias
+            ? checker.getAliasedSymbol(exported)
+            : exported
+    const declaration = symbol.declarations?.[0]
+    if (!declaration) return null
+
+    const base = {
+        name: exported.getName(),
+        summary: getSummary(ts, checker, symbol),
+    }
+
+    if (ts.isFunctionDeclaration(declaration)) {
+        return {
+            ...base,
+            kind: 'function',
+            signature: getSignature(checker, symbol, declaration),
+        }
+    }
+    if (ts.isClassDeclaration(declaration)) {
+        return {
+            ...base,
+            kind: 'class',
+            members: getMembers(ts, declaration),
+        }
+    }
+    if (ts.isInterfaceDeclaration(declaration)) {
+        return {
+            ...base,
+            kind: 'interface',
+            members: getMembers(ts, declaration),
+        }
+    }
+    if (ts.isTypeAliasDeclaration(declaration)) {
+        return { ...base, kind: 'type' }
+    }
+    if (ts.isEnumDeclaration(declaration)) {
+        return {
+            ...base,
+            kind: 'enum',
+            members: declaration.members.map(member => member.name.getText()),
+        }
+    }
+    if (ts.isVariableDeclaration(declaration)) {
+        const signature = getSignature(checker, symbol, declaration)
+        return signature
+            ? { ...base, kind: 'function', signature }
+            : { ...base, kind: 'variable' }
+    }
+
+    return null
+}
+
+/**
+ * Extracts exported functions, classes, interfaces, types, enums and
+ * variables from the project's TypeScript sources using the compiler API.
+ * Returns undefined when the project has no tsconfig.json or typescript
+ * isn't installed.
+ */
+export async function extractPublicApi(
+    projectRoot: string,
+    {
+        maxModules = 40,
+        maxExportsPerModule = 20,
+        filter = () => true,
+    }: PublicApiOptions = {},
+): Promise<ProjectContext['publicApi']> {
+    const configPath = join(projectRoot, 'tsconfig.json')
+    try {
+        await access(configPath, constants.F_OK)
+    } catch {
+        return undefined
+    }
+
+    const ts = await loadTypeScript()
+    if (!ts) return undefined
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile)
+    if (error) {
+        throw new Error(
+            ts.flattenDiagnosticMessageText(error.messageText, '\n'),
+        )
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, projectRoot)
+    const fileNames = parsed.fileNames.filter(
+        file =>
+            !file.includes('/node_modules/') &&
+            !file.endsWith('.d.ts') &&
+            !/\.(test|spec)\.[cm]?[jt]sx?$/.test(file) &&
+            filter(relative(projectRoot, file)),
+    )
+
+    const program = ts.createProgram(fileNames, {
+        ...parsed.options,
+        noEmit: true,
+    })
+    const checker = program.getTypeChecker()
+
+    const modules: NonNullable<ProjectContext['publicApi']> = []
+    for (const fileName of fileNames.sort()) {
+        if (modules.length >= maxModules) break
+
+        const sourceFile = program.getSourceFile(fileName)
+        const moduleSymbol =
+            sourceFile && checker.getSymbolAtLocation(sourceFile)
+        if (!moduleSymbol) continue
+
+        const exports = checker
+            .getExportsOfModule(moduleSymbol)
+            .map(symbol => describeExport(ts, checker, symbol))
+            .filter((entry): entry is PublicApiExport => entry !== null)
+            .slice(0, maxExportsPerModule)
+
+        if (exports.length > 0) {
+            modules.push({
+                path: relative(projectRoot, fileName),
+                exports,
+            })
+        }
+    }
+
+    return modules
+}
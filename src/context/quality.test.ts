@@ -0,0 +1,129 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+    countTestCases,
+    detectTestFrameworks,
+    detectTooling,
+    isTestFile,
+    parseCoverageSummary,
+    parseLcov,
+} from './quality'
+
+describe('quality', () => {
+    test('isTestFile matches common test naming conventions', () => {
+        expect(isTestFile('src/cache.test.ts')).toBe(true)
+        expect(isTestFile('src/button.spec.tsx')).toBe(true)
+        expect(isTestFile('src/__tests__/cache.js')).toBe(true)
+        expect(isTestFile('tests/test_parser.py')).toBe(true)
+        expect(isTestFile('pkg/parser_test.go')).toBe(true)
+        expect(isTestFile('src/testing.ts')).toBe(false)
+        expect(isTestFile('src/contest.py')).toBe(false)
+    })
+
+    test('countTestCases counts test declarations per language', () => {
+        expect(
+            countTestCases(
+                'a.test.ts',
+                `describe('a', () => {
+                    test('one', () => {})
+                    it.skip("two", () => {})
+                    test.each([1, 2])('three %d', () => {})
+                    const latest = items.at(-1)
+                })`,
+            ),
+        ).toBe(3)
+        expect(
+            countTestCases(
+                'test_a.py',
+                'def test_one():\n    pass\n\nasync def test_two():\n    pass\n\ndef helper():\n    pass',
+            ),
+        ).toBe(2)
+        expect(
+            countTestCases(
+                'a_test.go',
+                'func TestOne(t *testing.T) {}\nfunc helper() {}',
+            ),
+        ).toBe(1)
+    })
+
+    test('detectTestFrameworks combines dependencies, configs and imports', () => {
+        expect(
+            detectTestFrameworks(
+                { vitest: '^1.0.0' },
+                ['package.json', 'jest.config.ts'],
+                [
+                    {
+                        path: 'src/a.test.ts',
+                        content: "import { test } from 'bun:test'",
+                    },
+                    { path: 'tests/test_a.py', content: '' },
+                    { path: 'pkg/a_test.go', content: '' },
+                ],
+            ),
+        ).toEqual(['bun:test', 'vitest', 'jest', 'pytest', 'go test'])
+        expect(detectTestFrameworks({}, [], [])).toEqual([])
+    })
+
+    test('parseLcov sums coverage totals across files', () => {
+        const report = [
+            'SF:src/a.ts',
+            'FNF:4',
+            'FNH:3',
+            'LF:10',
+            'LH:9',
+            'end_of_record',
+            'SF:src/b.ts',
+            'FNF:0',
+            'FNH:0',
+            'LF:6',
+            'LH:3',
+            'end_of_record',
+        ].join('\n')
+        expect(parseLcov(report)).toEqual({
+            lines: 75,
+            functions: 75,
+            branches: undefined,
+        })
+    })
+
+    test('parseCoverageSummary reads istanbul totals', () => {
+        expect(
+            parseCoverageSummary(
+                JSON.stringify({
+                    total: {
+                        lines: { total: 200, covered: 183, pct: 91.5 },
+                        functions: { total: 10, covered: 8, pct: 80 },
+                    },
+                }),
+            ),
+        ).toEqual({ lines: 91.5, functions: 80, branches: undefined })
+    })
+
+    test('detectTooling finds config files and embedded configs', () => {
+        expect(
+            detectTooling(
+                ['eslint.config.js', '.editorconfig', 'README.md'],
+                { prettier: { semi: false } },
+                '[tool.ruff.lint]\nselect = ["E"]\n\n[tool.black]\nline-length = 100',
+            ),
+        ).toEqual([
+            { name: 'eslint', kind: 'lint', config: 'eslint.config.js' },
+            {
+                name: 'prettier',
+                kind: 'format',
+                config: 'package.json#prettier',
+            },
+            {
+                name: 'ruff',
+                kind: 'lint',
+                config: 'pyproject.toml#tool.ruff',
+            },
+            {
+                name: 'black',
+                kind: 'format',
+                config: 'pyproject.toml#tool.black',
+            },
+            { name: 'editorconfig', kind: 'format', config: '.editorconfig' },
+        ])
+    })
+})
@@ -0,0 +1,306 @@
+import { readFile } from 'fs/promises'
+import { basename, join } from 'path'
+
+import { glob } from 'glob'
+
+import { loadGitignore } from './file-tree'
+import { readTomlTables } from './manifests'
+
+import type { Quality, TestFramework } from './types'
+
+type Coverage = NonNullable<Quality['coverage']>
+
+interface ToolConfig {
+    name: string
+    kind: 'lint' | 'format'
+    // Config file names in the project root
+    files?: RegExp
+    // Key in package.json holding the configuration instead of a file
+    packageKey?: string
+    // Table in pyproject.toml holding the configuration
+    pyprojectTable?: string
+}
+
+const toolConfigs: ToolConfig[] = [
+    {
+        name: 'eslint',
+        kind: 'lint',
+        files: /^(\.eslintrc(\.(js|cjs|mjs|json|ya?ml))?|eslint\.config\.[cm]?[jt]s)$/,
+        packageKey: 'eslintConfig',
+    },
+    {
+        name: 'prettier',
+        kind: 'format',
+        files: /^(\.prettierrc(\.(js|cjs|mjs|json|json5|ya?ml|toml))?|prettier\.config\.[cm]?[jt]s)$/,
+        packageKey: 'prettier',
+    },
+    { name: 'biome', kind: 'lint', files: /^biome\.jsonc?$/ },
+    {
+        name: 'stylelint',
+        kind: 'lint',
+        files: /^(\.stylelintrc(\.(js|cjs|mjs|json|ya?ml))?|stylelint\.config\.[cm]?js)$/,
+        packageKey: 'stylelint',
+    },
+    {
+        name: 'ruff',
+        kind: 'lint',
+        files: /^\.?ruff\.toml$/,
+        pyprojectTable: 'tool.ruff',
+    },
+    { name: 'black', kind: 'format', pyprojectTable: 'tool.black' },
+    { name: 'flake8', kind: 'lint', files: /^\.flake8$/ },
+    {
+        name: 'mypy',
+        kind: 'lint',
+        files: /^\.?mypy\.ini$/,
+        pyprojectTable: 'tool.mypy',
+    },
+    {
+        name: 'golangci-lint',
+        kind: 'lint',
+        files: /^\.golangci\.(ya?ml|toml|json)$/,
+    },
+    { name: 'rustfmt', kind: 'format', files: /^\.?rustfmt\.toml$/ },
+    { name: 'clippy', kind: 'lint', files: /^\.?clippy\.toml$/ },
+    { name: 'rubocop', kind: 'lint', files: /^\.rubocop\.ya?ml$/ },
+    { name: 'editorconfig', kind: 'format', files: /^\.editorconfig$/ },
+]
+
+// Coverage reports in the locations tools write them to by default
+const coverageReports = [
+    'coverage/coverage-summary.json',
+    'coverage/lcov.info',
+    'lcov.info',
+]
+
+const testFilePatterns = [
+    /\.(test|spec)\.[cm]?[jt]sx?$/,
+    /(^|\/)__tests__\/.+\.[cm]?[jt]sx?$/,
+    /(^|\/)test_[^/]+\.py$/,
+    /_test\.(py|go)$/,
+]
+
+/**
+ * Whether a file holds tests by naming convention.
+ */
+export function isTestFile(path: string): boolean {
+    return testFilePatterns.some(pattern => pattern.test(path))
+}
+
+/**
+ * Counts the test cases declared in a test file: `test()`/`it()` calls in
+ * JS/TS, `test_*` functions in Python and `Test*` functions in Go.
+ */
+export function countTestCases(path: string, content: string): number {
+    const pattern = path.endsWith('.py')
+        ? /^\s*(?:async\s+)?def\s+test\w*\s*\(/gm
+        : path.endsWith('.go')
+          ? /^func\s+Test\w*\s*\(/gm
+          : /\b(?:test|it)(?:\.(?:only|skip|todo|concurrent|failing|each\s*\([^)]*\)))?\s*\(\s*['"`]/g
+    return content.match(pattern)?.length ?? 0
+}
+
+/**
+ * Test frameworks used by a project, from its dependencies, config files and
+ * the imports and file names of its tests.
+ */
+export function detectTestFrameworks(
+    packages: Record<string, string>,
+    files: string[],
+    testSources: Array<{ path: string; content: string }>,
+): TestFramework[] {
+    const names = new Set(files.map(file => basename(file)))
+    const imports = (module: string) =>
+        testSources.some(({ content }) =>
+            new RegExp(`from\\s*['"]${module}['"]`).test(content),
+        )
+
+    const frameworks: TestFramework[] = []
+    if (imports('bun:test')) frameworks.push('bun:test')
+    if (
+        'vitest' in packages ||
+        imports('vitest') ||
+        [...names].some(name => /^vitest\.config\./.test(name))
+    ) {
+        frameworks.push('vitest')
+    }
+    if (
+        'jest' in packages ||
+        imports('@jest/globals') ||
+        [...names].some(name => /^jest\.config\./.test(name))
+    ) {
+        frameworks.push('jest')
+    }
+    if (
+        'pytest' in packages ||
+        names.has('conftest.py') ||
+        names.has('pytest.ini') ||
+        testSources.some(({ path }) => path.endsWith('.py'))
+    ) {
+        frameworks.push('pytest')
+    }
+    if (testSources.some(({ path }) => path.endsWith('_test.go'))) {
+        frameworks.push('go test')
+    }
+    return frameworks
+}
+
+const percentage = (hit: number, found: number) =>
+    found > 0 ? Math.round((hit / found) * 1000) / 10 : undefined
+
+/**
+ * Totals of an lcov report (`LF`/`LH`, `FNF`/`FNH` and `BRF`/`BRH` records)
+ * as percentages.
+ */
+export function parseLcov(content: string): Omit<Coverage, 'report'> {
+    const totals: Record<string, number> = {}
+    for (const [, key, value] of content.matchAll(
+        /^(LF|LH|FNF|FNH|BRF|BRH):(\d+)$/gm,
+    )) {
+        totals[key] = (totals[key] ?? 0) + Number(value)
+    }
+    return {
+        lines: percentage(totals.LH ?? 0, totals.LF ?? 0),
+        functions: percentage(totals.FNH ?? 0, totals.FNF ?? 0),
+        branches: percentage(totals.BRH ?? 0, totals.BRF ?? 0),
+    }
+}
+
+/**
+ * Totals of an istanbul `coverage-summary.json` report.
+ */
+export function parseCoverageSummary(
+    content: string,
+): Omit<Coverage, 'report'> {
+    const total = JSON.parse(content).total ?? {}
+    const pct = (metric: string): number | undefined =>
+        typeof total[metric]?.pct === 'number' ? total[metric].pct : undefined
+    return {
+        lines: pct('lines'),
+        functions: pct('functions'),
+        branches: pct('branches'),
+    }
+}
+
+/**
+ * Lint and format tools configured in the project root, in config files or
+ * in package.json and pyproject.toml sections.
+ */
+export function detectTooling(
+    files: string[],
+    packageJson: Record<string, unknown> = {},
+    pyproject = '',
+): Quality['tooling'] {
+    const tables = readTomlTables(pyproject)
+    return toolConfigs.flatMap(tool => {
+        const config =
+            (tool.files && files.find(file => tool.files?.test(file))) ??
+            (tool.packageKey && tool.packageKey in packageJson
+                ? `package.json#${tool.packageKey}`
+                : undefined) ??
+            (tool.pyprojectTable &&
+            [...tables.keys()].some(
+                table =>
+                    table === tool.pyprojectTable ||
+                    table.startsWith(`${tool.pyprojectTable}.`),
+            )
+                ? `pyproject.toml#${tool.pyprojectTable}`
+                : undefined)
+        return config ? [{ name: tool.name, kind: tool.kind, config }] : []
+    })
+}
+
+/**
+ * Analyzes the test suite and quality tooling of a project. Only paths
+ * accepted by `filter` and not ignored by .gitignore are listed; coverage
+ * reports are read even when ignored, as they usually are.
+ */
+export async function analyzeQuality(
+    projectRoot: string,
+    {
+        packages = {},
+        filter = () => true,
+    }: {
+        // Declared dependencies, for framework detection
+        packages?: Record<string, string>
+        filter?: (path: string) => boolean
+    } = {},
+): Promise<Quality> {
+    const read = (path: string) => readFile(join(projectRoot, path), 'utf-8')
+    const readOptional = async (path: string) => {
+        if (!filter(path)) return undefined
+        try {
+            return await read(path)
+        } catch {
+            return undefined
+        }
+    }
+
+    const [files, rootFiles, gitignore] = await Promise.all([
+        glob('**/*.{js,jsx,ts,tsx,mjs,cjs,mts,cts,py,go}', {
+            cwd: projectRoot,
+            ignore: [
+                '**/node_modules/**',
+                '**/dist/**',
+                '**/build/**',
+                '**/.venv/**',
+                '**/vendor/**',
+            ],
+            nodir: true,
+        }),
+        glob('*', { cwd: projectRoot, dot: true, nodir: true }),
+        loadGitignore(projectRoot),
+    ])
+    const listed = (file: string) => !gitignore.excludes(file) && filter(file)
+    const sourceFiles = files.filter(listed)
+    const configFiles = rootFiles.filter(listed)
+
+    const testFiles = sourceFiles.filter(isTestFile).sort()
+    const testSources = await Promise.all(
+        testFiles.map(async path => ({ path, content: await read(path) })),
+    )
+
+    let coverage: Coverage | undefined
+    for (const report of coverageReports) {
+        const content = await readOptional(report)
+        if (content === undefined) continue
+        try {
+            coverage = {
+                report,
+                ...(report.endsWith('.json')
+                    ? parseCoverageSummary(content)
+                    : parseLcov(content)),
+            }
+            break
+        } catch {
+            // Malformed reports are skipped
+        }
+    }
+
+    const packageJson = await readOptional('package.json')
+    let parsedPackageJson: Record<string, unknown> = {}
+    try {
+        parsedPackageJson = packageJson ? JSON.parse(packageJson) : {}
+    } catch {
+        // Invalid package.json files are reported by the dependency stage
+    }
+
+    return {
+        testFrameworks: detectTestFrameworks(
+            packages,
+            [...configFiles, ...sourceFiles],
+            testSources,
+        ),
+        testFiles: testFiles.length,
+        testCases: testSources.reduce(
+            (total, { path, content }) => total + countTestCases(path, content),
+            0,
+        ),
+        coverage,
+        tooling: detectTooling(
+            configFiles,
+            parsedPackageJson,
+            await readOptional('pyproject.toml'),
+        ),
+    }
+}
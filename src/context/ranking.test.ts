@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test'
+
+import { rankFiles } from './ranking'
+
+import type { RankingSignals } from './ranking'
+
+describe('rankFiles', () => {
+    const signals = (overrides: Partial<RankingSignals>): RankingSignals => ({
+        files: [],
+        entryPoints: [],
+        imports: new Map(),
+        churn: [],
+        sizes: new Map(),
+        readme: '',
+        ...overrides,
+    })
+
+    test('maps built entry points back to their sources', () => {
+        const ranked = rankFiles(
+            signals({
+                files: ['src/cli.ts', 'src/helpers/format.ts'],
+                entryPoints: ['./dist/cli.js'],
+            }),
+        )
+        expect(ranked[0]).toEqual({
+            path: 'src/cli.ts',
+            score: 5,
+            reasons: ['entry point'],
+        })
+    })
+
+    test('scores import centrality, churn and README mentions', () => {
+        const ranked = rankFiles(
+            signals({
+                files: ['src/a.ts', 'src/b.ts', 'src/core.ts', 'src/router.ts'],
+                imports: new Map([
+                    ['src/a.ts', ['src/core.ts']],
+                    ['src/b.ts', ['src/core.ts', 'src/core.ts']],
+                ]),
+                churn: [{ path: 'src/router.ts', commits: 4 }],
+                readme: 'Requests go through `router.ts`.',
+            }),
+        )
+        expect(ranked.map(file => file.path)).toEqual([
+            'src/router.ts',
+            'src/core.ts',
+            'src/a.ts',
+            'src/b.ts',
+        ])
+        expect(ranked[0].reasons).toEqual([
+            'changed in 4 commits',
+            'mentioned in README',
+        ])
+        expect(ranked[1].reasons).toEqual(['imported by 2 files'])
+    })
+
+    test('leaves out tests and declarations', () => {
+        const ranked = rankFiles(
+            signals({
+                files: [
+                    'src/index.ts',
+                    'src/index.test.ts',
+                    'test/setup.ts',
+                    'src/types.d.ts',
+                ],
+            }),
+        )
+        expect(ranked.map(file => file.path)).toEqual(['src/index.ts'])
+    })
+
+    test('prefers larger files and limits the result', () => {
+        const ranked = rankFiles(
+            signals({
+                files: ['src/small.ts', 'src/large.ts', 'src/medium.ts'],
+                sizes: new Map([
+                    ['src/small.ts', 10],
+                    ['src/large.ts', 10000],
+                    ['src/medium.ts', 500],
+                ]),
+            }),
+            2,
+        )
+        expect(ranked.map(file => file.path)).toEqual([
+            'src/large.ts',
+            'src/medium.ts',
+        ])
+    })
+})
@@ -0,0 +1,149 @@
+import { basename, posix } from 'path'
+
+export interface RankingSignals {
+    // Candidate source files
+    files: string[]
+    // Entry points declared in package.json files (`bin`, `main`, `exports`)
+    entryPoints: string[]
+    // Resolved relative imports of each source file
+    imports: Map<string, string[]>
+    churn: Array<{ path: string; commits: number }>
+    // File sizes in bytes
+    sizes: Map<string, number>
+    readme: string
+}
+
+export interface RankedFile {
+    path: string
+    score: number
+    // Human-readable signals behind the score
+    reasons: string[]
+}
+
+// Tests, fixtures and declarations rarely explain a project
+const excludedFiles =
+    /(^|\/)(__tests__|__mocks__|__fixtures__|test|tests|spec|fixtures)\/|\.(test|spec|stories)\.[^/]+$|\.d\.[cm]?ts$|\.min\.js$/
+
+// Names projects conventionally start from, kept close to the root
+const conventionalEntries =
+    /^(index|main|cli|app|server|lib|mod|__main__)\.[^.]+$/
+
+const weights = {
+    entryPoint: 5,
+    conventionalEntry: 2,
+    centrality: 4,
+    churn: 3,
+    size: 1.5,
+    readme: 2,
+}
+
+/**
+ * Maps a declared entry point to a candidate file. Build outputs
+ * (`dist/index.js`) are mapped back to their sources (`src/index.ts`).
+ */
+function resolveEntryPoint(
+    entry: string,
+    files: Set<string>,
+): string | undefined {
+    const path = posix.normalize(entry.replace(/^\.\//, ''))
+    const withoutExtension = path.replace(/\.(d\.)?[cm]?[jt]sx?$/, '')
+    const sourceBase = withoutExtension.replace(
+        /^(dist|build|lib|out|esm|cjs)\//,
+        'src/',
+    )
+    const candidates = [path, withoutExtension, sourceBase].flatMap(base => [
+        base,
+        ...['.ts', '.tsx', '.mts', '.js', '.mjs', '.cjs'].map(
+            ext => `${base}${ext}`,
+        ),
+    ])
+    return candidates.find(candidate => files.has(candidate))
+}
+
+function mentionedIn(readme: string, path: string): boolean {
+    if (readme.includes(path)) return true
+    // Generic names like index.ts say nothing about which file is meant
+    const name = basename(path)
+    return !conventionalEntries.test(name) && readme.includes(name)
+}
+
+/**
+ * Scores source files by how likely they are to explain the project:
+ * declared and conventional entry points, how many files import them, git
+ * churn, size and README mentions. Returns the top `limit` files, highest
+ * score first.
+ */
+export function rankFiles(signals: RankingSignals, limit = 20): RankedFile[] {
+    const files = signals.files.filter(file => !excludedFiles.test(file))
+    const fileSet = new Set(files)
+
+    const entryPoints = new Set(
+        signals.entryPoints
+            .map(entry => resolveEntryPoint(entry, fileSet))
+            .filter((path): path is string => path !== undefined),
+    )
+
+    // Imports from tests don't make a file central
+    const importers = new Map<string, number>()
+    for (const [file, targets] of signals.imports) {
+        if (!fileSet.has(file)) continue
+        for (const target of new Set(targets)) {
+            if (target !== file) {
+                importers.set(target, (importers.get(target) ?? 0) + 1)
+            }
+        }
+    }
+    const commits = new Map(signals.churn.map(c => [c.path, c.commits]))
+
+    const maxImporters = Math.max(1, ...importers.values())
+    const maxCommits = Math.max(1, ...commits.values())
+    const maxSize = Math.max(2, ...signals.sizes.values())
+
+    return files
+        .map(path => {
+            let score = 0
+            const reasons: string[] = []
+
+            if (entryPoints.has(path)) {
+                score += weights.entryPoint
+                reasons.push('entry point')
+            } else if (
+                conventionalEntries.test(basename(path)) &&
+                path.split('/').length <= 2
+            ) {
+                score += weights.conventionalEntry
+                reasons.push('conventional entry point')
+            }
+
+            const importedBy = importers.get(path) ?? 0
+            if (importedBy > 0) {
+                score += (weights.centrality * importedBy) / maxImporters
+                reasons.push(
+                    `imported by ${importedBy} ${importedBy === 1 ? 'file' : 'files'}`,
+                )
+            }
+
+            const changed = commits.get(path) ?? 0
+            if (changed > 0) {
+                score += (weights.churn * changed) / maxCommits
+                reasons.push(
+                    `changed in ${changed} ${changed === 1 ? 'commit' : 'commits'}`,
+                )
+            }
+
+            // Logarithmic, so large files don't drown out everything else
+            const size = signals.sizes.get(path) ?? 0
+            if (size > 1) {
+                score += (weights.size * Math.log(size)) / Math.log(maxSize)
+            }
+
+            if (mentionedIn(signals.readme, path)) {
+                score += weights.readme
+                reasons.push('mentioned in README')
+            }
+
+            return { path, score: Math.round(score * 100) / 100, reasons }
+        })
+        .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+        .slice(0, limit)
+}
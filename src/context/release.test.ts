@@ -0,0 +1,107 @@
+import { mkdir } from 'fs/promises'
+import { join } from 'path'
+
+import { $ } from 'bun'
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+
+import { analyzeRelease, parseReleaseRange } from './release'
+
+describe('release', () => {
+    const TEST_REPO_ROOT = join(import.meta.dir, '__test_release__')
+
+    const commit = async (file: string, content: string, message: string) => {
+        await Bun.write(join(TEST_REPO_ROOT, file), content)
+        await $`git add -A && git commit -q -m ${message}`.cwd(TEST_REPO_ROOT)
+    }
+
+    beforeAll(async () => {
+        await $`rm -rf ${TEST_REPO_ROOT}`
+        await mkdir(join(TEST_REPO_ROOT, 'src'), { recursive: true })
+        await $`git init -q && git config --local user.name "Test User" && git config --local user.email "test@example.com"`.cwd(
+            TEST_REPO_ROOT,
+        )
+
+        await commit('README.md', '# Release test\n', 'Initial commit')
+        await $`git tag v1.0.0`.cwd(TEST_REPO_ROOT)
+        await commit(
+            'src/cli.ts',
+            'export {}\n',
+            'feat(cli): add release command',
+        )
+        await commit(
+            'src/cli.ts',
+            'export const a = 1\n',
+            'fix: handle empty ranges',
+        )
+        await commit(
+            'src/api.ts',
+            'export const b = 2\n',
+            'refactor!: rename options\n\nBREAKING CHANGE: `--out` is now `--slides-path`',
+        )
+        await commit('docs/guide.md', '# Guide\n', 'Write the guide')
+        await $`git tag -a v1.1.0 -m "v1.1.0"`.cwd(TEST_REPO_ROOT)
+    })
+
+    afterAll(async () => {
+        await $`rm -rf ${TEST_REPO_ROOT}`
+    })
+
+    test('parseReleaseRange splits ranges and defaults to HEAD', () => {
+        expect(parseReleaseRange('v1.0.0..v1.1.0')).toEqual({
+            from: 'v1.0.0',
+            to: 'v1.1.0',
+        })
+        expect(parseReleaseRange('v1.0.0..')).toEqual({
+            from: 'v1.0.0',
+            to: 'HEAD',
+        })
+        for (const range of ['v1.0.0', 'a...b', '..v1', '--all..HEAD']) {
+            expect(() => parseReleaseRange(range)).toThrow(
+                'Invalid release range',
+            )
+        }
+    })
+
+    test('analyzeRelease categorizes commits in the range', async () => {
+        const release = await analyzeRelease(TEST_REPO_ROOT, 'v1.0.0..v1.1.0')
+
+        expect(release.commits).toHaveLength(4)
+        expect(release.date).toBeDefined()
+        expect(release.contributors).toEqual([
+            { name: 'Test User', email: 'test@example.com', commits: 4 },
+        ])
+        expect(release.changedFiles.map(file => file.path).sort()).toEqual([
+            'docs/guide.md',
+            'src/api.ts',
+            'src/cli.ts',
+        ])
+
+        const { breaking, features, fixes, other } = release.categories
+        expect(breaking.map(c => c.description)).toEqual(['rename options'])
+        expect(features).toMatchObject([
+            { type: 'feat', scope: 'cli', description: 'add release command' },
+        ])
+        expect(fixes.map(c => c.description)).toEqual(['handle empty ranges'])
+        expect(other.map(c => c.subject)).toEqual(['Write the guide'])
+    })
+
+    test('detects BREAKING CHANGE footers without the ! marker', async () => {
+        await commit(
+            'src/api.ts',
+            'export const c = 3\n',
+            'feat: drop node 18\n\nBREAKING CHANGE: requires node 20',
+        )
+
+        const release = await analyzeRelease(TEST_REPO_ROOT, 'v1.1.0..')
+        expect(release.categories.breaking).toMatchObject([
+            { type: 'feat', breaking: true },
+        ])
+        expect(release.categories.features).toHaveLength(0)
+    })
+
+    test('rejects unknown revisions', async () => {
+        expect(
+            analyzeRelease(TEST_REPO_ROOT, 'v0.9.0..v1.0.0'),
+        ).rejects.toThrow('Unknown revision "v0.9.0" in release range')
+    })
+})
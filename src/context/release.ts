@@ -0,0 +1,152 @@
+import { SlidevGenError } from '../errors/SlidevGenError'
+import { GitRepository, parseConventionalCommit } from './git'
+
+import type { ReleaseCommit, ReleaseContext } from './types'
+
+const featureTypes = ['feat', 'feature']
+const fixTypes = ['fix', 'bugfix', 'perf']
+
+/**
+ * Splits a `<from>..<to>` range. `to` defaults to HEAD when omitted.
+ */
+export function parseReleaseRange(range: string): { from: string; to: string } {
+    const [from, to, ...rest] = range.split('..')
+    if (
+        rest.length > 0 ||
+        to === undefined ||
+        !from ||
+        /\s/.test(range) ||
+        from.endsWith('.') ||
+        to.startsWith('.') ||
+        from.startsWith('-') ||
+        to.startsWith('-')
+    ) {
+        throw SlidevGenError.invalidConfiguration(
+            `Invalid release range "${range}", expected <from>..<to> (e.g. v1.0.0..v1.1.0)`,
+        )
+    }
+    return { from, to: to || 'HEAD' }
+}
+
+/**
+ * Collects commits, changed files, contributors and conventional commit
+ * categories between two revisions.
+ * Output structure:
+ * {
+ *   from: string, to: string,
+ *   date?: string,              // Author date of `to`
+ *   commits: ReleaseCommit[],   // Newest first, merges excluded
+ *   changedFiles: { path, insertions, deletions }[],
+ *                               // Ordered by lines changed
+ *   contributors: { name, email, commits }[],
+ *   categories: {
+ *     breaking: ReleaseCommit[],  // `!` marker or BREAKING CHANGE footer
+ *     features: ReleaseCommit[],  // feat
+ *     fixes: ReleaseCommit[],     // fix, perf
+ *     other: ReleaseCommit[],     // Everything else
+ *   }
+ * }
+ */
+export async function analyzeRelease(
+    projectRoot: string,
+    range: string,
+): Promise<ReleaseContext> {
+    const { from, to } = parseReleaseRange(range)
+    const git = new GitRepository(projectRoot)
+
+    if (!(await git.isRepository())) {
+        throw SlidevGenError.invalidProjectStructure(
+            'No git repository found in project root',
+        )
+    }
+    for (const ref of [from, to]) {
+        if (!(await git.isCommit(ref))) {
+            throw SlidevGenError.invalidProjectStructure(
+                `Unknown revision "${ref}" in release range`,
+            )
+        }
+    }
+
+    try {
+        const revisions = `${from}..${to}`
+        const [log, breakingFooters, contributors, date] = await Promise.all([
+            git.log({ range: revisions }),
+            git.log({ range: revisions, grep: '^BREAKING[ -]CHANGE' }),
+            git.contributors(revisions),
+            git.run(['log', '-1', '--format=%aI', to, '--']),
+        ])
+        const breakingHashes = new Set(breakingFooters.map(c => c.hash))
+
+        const commits = log.map((commit): ReleaseCommit => {
+            const conventional = parseConventionalCommit(commit.subject)
+            return {
+                hash: commit.hash,
+                shortHash: commit.shortHash,
+                subject: commit.subject,
+                author: commit.authorName,
+                date: commit.date,
+                type: conventional?.type,
+                scope: conventional?.scope,
+                description: conventional?.description ?? commit.subject,
+                breaking:
+                    !!conventional?.breaking || breakingHashes.has(commit.hash),
+            }
+        })
+
+        // Sum line changes per file across the range
+        const files = new Map<
+            string,
+            { insertions: number; deletions: number }
+        >()
+        for (const file of log.flatMap(commit => commit.files)) {
+            const entry = files.get(file.path) ?? {
+                insertions: 0,
+                deletions: 0,
+            }
+            entry.insertions += file.insertions
+            entry.deletions += file.deletions
+            files.set(file.path, entry)
+        }
+        const changedFiles = [...files.entries()]
+            .map(([path, stats]) => ({ path, ...stats }))
+            .sort(
+                (a, b) =>
+                    b.insertions + b.deletions - (a.insertions + a.deletions) ||
+                    a.path.localeCompare(b.path),
+            )
+
+        // Breaking changes are listed once, in their own category
+        const nonBreaking = commits.filter(commit => !commit.breaking)
+        return {
+            from,
+            to,
+            date: date.trim() || undefined,
+            commits,
+            changedFiles,
+            contributors,
+            categories: {
+                breaking: commits.filter(commit => commit.breaking),
+                features: nonBreaking.filter(
+                    commit =>
+                        !!commit.type && featureTypes.includes(commit.type),
+                ),
+                fixes: nonBreaking.filter(
+                    commit => !!commit.type && fixTypes.includes(commit.type),
+                ),
+                other: nonBreaking.filter(
+                    commit =>
+                        !commit.type ||
+                        ![...featureTypes, ...fixTypes].includes(commit.type),
+                ),
+            },
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            throw SlidevGenError.invalidProjectStructure(
+                `Failed to analyze release ${from}..${to}: ${error.message}`,
+                error,
+            )
+        }
+        throw error
+    }
+}
@@ -0,0 +1,130 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+    chunkDocument,
+    LexicalIndex,
+    retrievalQueries,
+    tokenize,
+} from './retrieval'
+
+import type { Chunk } from './retrieval'
+
+describe('retrieval', () => {
+    const chunk = (path: string, content: string, startLine = 1): Chunk => ({
+        path,
+        startLine,
+        endLine: startLine + content.split('\n').length - 1,
+        content,
+    })
+
+    test('tokenize splits identifiers and drops stop words', () => {
+        expect(tokenize('export const buildFileTree = (root_dir) =>')).toEqual([
+            'build',
+            'file',
+            'tree',
+            'root',
+            'dir',
+        ])
+    })
+
+    test('chunkDocument splits markdown at headings', () => {
+        const chunks = chunkDocument(
+            'README.md',
+            '# Project\nIntro\n\n## Install\nnpm i\n\n## Usage\nrun it',
+            2,
+        )
+        expect(chunks).toEqual([
+            {
+                path: 'README.md',
+                startLine: 1,
+                endLine: 2,
+                content: '# Project\nIntro',
+            },
+            {
+                path: 'README.md',
+                startLine: 4,
+                endLine: 5,
+                content: '## Install\nnpm i',
+            },
+            {
+                path: 'README.md',
+                startLine: 7,
+                endLine: 8,
+                content: '## Usage\nrun it',
+            },
+        ])
+    })
+
+    test('chunkDocument packs top-level code blocks up to the line limit', () => {
+        const source = [
+            "import { x } from './x'",
+            '',
+            'function a() {',
+            '    return x',
+            '}',
+            '',
+            'function b() {',
+            '',
+            '    return 2',
+            '}',
+        ].join('\n')
+
+        const chunks = chunkDocument('src/a.ts', source, 6)
+        expect(
+            chunks.map(({ startLine, endLine }) => [startLine, endLine]),
+        ).toEqual([
+            [1, 5],
+            [7, 10],
+        ])
+        expect(chunks[1].content).toBe('function b() {\n\n    return 2\n}')
+    })
+
+    test('search ranks chunks by BM25 and caps chunks per file', () => {
+        const index = new LexicalIndex([
+            chunk('src/cache.ts', 'export class AnalysisCache {\n  load()\n}'),
+            chunk('src/cache.ts', 'function cacheKey() { hash cache }', 10),
+            chunk('src/cache.ts', 'const cacheDir = ".cache"', 20),
+            chunk('src/router.ts', 'export class ModelRouter { route() }'),
+            chunk('docs/cache.md', '# Cache\nThe cache stores analysis.'),
+        ])
+
+        const results = index.search('analysis cache', 5, 2)
+        expect(results.map(result => result.path)).toEqual([
+            'docs/cache.md',
+            'src/cache.ts',
+            'src/cache.ts',
+        ])
+        expect(results[0].score).toBeGreaterThan(results[2].score)
+        expect(index.search('unrelated words', 3)).toEqual([])
+    })
+
+    test('retrievalQueries extends section terms with project facts', () => {
+        const queries = retrievalQueries({
+            documentation: {
+                readme: {
+                    path: 'README.md',
+                    content: '# Tool\n## Offline mode\n- Works without network',
+                },
+                additionalDocs: [],
+            },
+            dependencies: {
+                ecosystem: 'node',
+                manifests: [],
+                packages: { zod: '3.0.0' },
+            },
+            codebase: {
+                mainLanguages: [],
+                fileStructure: '',
+                tree: { name: '.', path: '', type: 'directory' },
+                significantFiles: [],
+                importGraph: { modules: ['src/llm'], edges: [] },
+                importantFiles: [],
+            },
+        })
+
+        expect(queries.architecture).toContain('src/llm')
+        expect(queries.features).toContain('## Offline mode')
+        expect(queries.features).toContain('- Works without network')
+        expect(queries.technical).toContain('zod')
+    })
+})
@@ -0,0 +1,254 @@
+import type { ProjectContext, RetrievedChunk } from './types'
+
+export type RetrievalSection = keyof NonNullable<ProjectContext['retrieval']>
+
+export type Chunk = Omit<RetrievedChunk, 'score'>
+
+// BM25 parameters, the usual defaults
+const K1 = 1.2
+const B = 0.75
+
+// Words too common in code and prose to tell chunks apart
+const stopWords = new Set([
+    'the',
+    'and',
+    'or',
+    'of',
+    'to',
+    'in',
+    'is',
+    'it',
+    'for',
+    'on',
+    'with',
+    'as',
+    'be',
+    'by',
+    'this',
+    'that',
+    'an',
+    'are',
+    'if',
+    'from',
+    'const',
+    'let',
+    'var',
+    'return',
+    'import',
+    'export',
+    'new',
+    'true',
+    'false',
+    'null',
+    'undefined',
+])
+
+// Seed terms of each section, extended with project-specific ones
+const sectionTerms: Record<RetrievalSection, string[]> = {
+    architecture: [
+        'architecture',
+        'module',
+        'entry',
+        'main',
+        'core',
+        'layer',
+        'interface',
+        'service',
+        'pipeline',
+        'class',
+    ],
+    features: ['feature', 'support', 'command', 'option', 'usage', 'generate'],
+    technical: [
+        'implementation',
+        'algorithm',
+        'parse',
+        'cache',
+        'handle',
+        'error',
+        'config',
+        'async',
+    ],
+}
+
+/**
+ * Lowercased terms of a text. Identifiers are split on camelCase and
+ * punctuation, so `buildFileTree` matches a query for "file tree".
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(term => term.length > 1 && !stopWords.has(term))
+}
+
+/**
+ * Splits a file into chunks of at most `maxLines` lines. Markdown is split
+ * at headings, code at top-level statements following a blank line, and
+ * consecutive small units are packed together.
+ */
+export function chunkDocument(
+    path: string,
+    content: string,
+    maxLines = 40,
+): Chunk[] {
+    const lines = content.split('\n')
+    const isMarkdown = /\.(md|markdown|rst|txt)$/i.test(path)
+    const startsUnit = (index: number) =>
+        isMarkdown
+            ? /^#{1,6}\s/.test(lines[index])
+            : index > 0 &&
+              lines[index - 1].trim() === '' &&
+              /^\S/.test(lines[index])
+
+    // Unit boundaries, longer units are cut at maxLines
+    const units: Array<[start: number, end: number]> = []
+    let start = 0
+    for (let index = 1; index <= lines.length; index++) {
+        if (
+            index === lines.length ||
+            startsUnit(index) ||
+            index - start === maxLines
+        ) {
+            units.push([start, index])
+            start = index
+        }
+    }
+
+    const chunks: Chunk[] = []
+    let current: [start: number, end: number] | undefined
+    const flush = () => {
+        if (!current) return
+        const text = lines.slice(current[0], current[1])
+        // Surrounding blank lines don't count towards the line range
+        const first = text.findIndex(line => line.trim() !== '')
+        if (first !== -1) {
+            const last =
+                text.length -
+                [...text].reverse().findIndex(line => line.trim() !== '')
+            chunks.push({
+                path,
+                startLine: current[0] + first + 1,
+                endLine: current[0] + last,
+                content: text.slice(first, last).join('\n'),
+            })
+        }
+        current = undefined
+    }
+    for (const [unitStart, unitEnd] of units) {
+        if (current && unitEnd - current[0] > maxLines) flush()
+        current = current ? [current[0], unitEnd] : [unitStart, unitEnd]
+    }
+    flush()
+    return chunks
+}
+
+/**
+ * In-memory BM25 index over chunks.
+ */
+export class LexicalIndex {
+    private readonly documents: Array<{
+        chunk: Chunk
+        frequencies: Map<string, number>
+        length: number
+    }>
+    private readonly documentFrequency = new Map<string, number>()
+    private readonly averageLength: number
+
+    constructor(chunks: Chunk[]) {
+        this.documents = chunks.map(chunk => {
+            const terms = tokenize(`${chunk.path} ${chunk.content}`)
+            const frequencies = new Map<string, number>()
+            for (const term of terms) {
+                frequencies.set(term, (frequencies.get(term) ?? 0) + 1)
+            }
+            for (const term of frequencies.keys()) {
+                this.documentFrequency.set(
+                    term,
+                    (this.documentFrequency.get(term) ?? 0) + 1,
+                )
+            }
+            return { chunk, frequencies, length: terms.length }
+        })
+        this.averageLength =
+            this.documents.reduce((total, doc) => total + doc.length, 0) /
+                this.documents.length || 1
+    }
+
+    /**
+     * The `limit` chunks scoring highest for `query`, with at most
+     * `perFile` chunks of the same file. Chunks sharing no term with the
+     * query are never returned.
+     */
+    search(query: string, limit: number, perFile = 2): RetrievedChunk[] {
+        const terms = [...new Set(tokenize(query))]
+        const total = this.documents.length
+        const idf = (term: string) => {
+            const frequency = this.documentFrequency.get(term) ?? 0
+            return Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5))
+        }
+
+        const scored = this.documents
+            .map(({ chunk, frequencies, length }) => ({
+                chunk,
+                score: terms.reduce((score, term) => {
+                    const frequency = frequencies.get(term) ?? 0
+                    return (
+                        score +
+                        (idf(term) * frequency * (K1 + 1)) /
+                            (frequency +
+                                K1 *
+                                    (1 - B + (B * length) / this.averageLength))
+                    )
+                }, 0),
+            }))
+            .filter(({ score }) => score > 0)
+            .sort(
+                (a, b) =>
+                    b.score - a.score ||
+                    a.chunk.path.localeCompare(b.chunk.path) ||
+                    a.chunk.startLine - b.chunk.startLine,
+            )
+
+        const results: RetrievedChunk[] = []
+        const perPath = new Map<string, number>()
+        for (const { chunk, score } of scored) {
+            if (results.length === limit) break
+            const count = perPath.get(chunk.path) ?? 0
+            if (count === perFile) continue
+            perPath.set(chunk.path, count + 1)
+            results.push({ ...chunk, score: Math.round(score * 100) / 100 })
+        }
+        return results
+    }
+}
+
+/**
+ * Query of each slide section: its seed terms plus what the analysis
+ * already knows about the project, i.e. module and package names for the
+ * architecture, README headings and bullets for the features and the
+ * dependencies for technical details.
+ */
+export function retrievalQueries(
+    context: Pick<
+        ProjectContext,
+        'documentation' | 'dependencies' | 'workspace' | 'codebase'
+    >,
+): Record<RetrievalSection, string> {
+    const readme = context.documentation.readme.content.split('\n')
+    const headings = readme.filter(line => /^#{1,6}\s/.test(line))
+    const bullets = readme.filter(line => /^\s*[-*]\s/.test(line))
+
+    return {
+        architecture: [
+            ...sectionTerms.architecture,
+            ...(context.codebase.importGraph?.modules ?? []),
+            ...(context.workspace?.packages ?? []).map(pkg => pkg.name),
+        ].join(' '),
+        features: [...sectionTerms.features, ...headings, ...bullets].join(' '),
+        technical: [
+            ...sectionTerms.technical,
+            ...Object.keys(context.dependencies.packages),
+        ].join(' '),
+    }
+}
@@ -0,0 +1,174 @@
+import { mkdir } from 'fs/promises'
+import { join } from 'path'
+
+import { $ } from 'bun'
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+
+import { analyzeReview, parseReviewRange } from './review'
+
+describe('review', () => {
+    const TEST_REPO_ROOT = join(import.meta.dir, '__test_review__')
+
+    const commit = async (files: Record<string, string>, message: string) => {
+        await Promise.all(
+            Object.entries(files).map(([path, content]) =>
+                Bun.write(join(TEST_REPO_ROOT, path), content),
+            ),
+        )
+        await $`git add -A && git commit -q -m ${message}`.cwd(TEST_REPO_ROOT)
+    }
+
+    beforeAll(async () => {
+        await $`rm -rf ${TEST_REPO_ROOT}`
+        await mkdir(TEST_REPO_ROOT, { recursive: true })
+        await $`git init -q -b main && git config --local user.name "Test User" && git config --local user.email "test@example.com"`.cwd(
+            TEST_REPO_ROOT,
+        )
+
+        await commit(
+            {
+                'src/cli/index.ts':
+                    "import { run } from '../core/run'\n\nrun()\n",
+                'src/core/run.ts':
+                    'export function run() {\n    console.log("run")\n}\n',
+                'bun.lock': '{}\n',
+            },
+            'Initial commit',
+        )
+        await $`git checkout -q -b feature`.cwd(TEST_REPO_ROOT)
+        await commit(
+            {
+                'src/core/run.ts':
+                    "import { log } from '../logging/logger'\n\nexport function run() {\n    log('run')\n}\n",
+                'src/logging/logger.ts':
+                    'export const log = (message: string) => console.log(message)\n',
+                'bun.lock': '{"lockfileVersion": 1}\n',
+            },
+            'Add logging module',
+        )
+        // Changes on main after the fork must not show up in the review
+        await $`git checkout -q main`.cwd(TEST_REPO_ROOT)
+        await commit({ 'README.md': '# Main\n' }, 'Document main')
+    })
+
+    afterAll(async () => {
+        await $`rm -rf ${TEST_REPO_ROOT}`
+    })
+
+    test('parseReviewRange splits ranges and defaults to HEAD', () => {
+        expect(parseReviewRange('main...feature')).toEqual({
+            base: 'main',
+            head: 'feature',
+        })
+        expect(parseReviewRange('main...')).toEqual({
+            base: 'main',
+            head: 'HEAD',
+        })
+        for (const range of ['main', 'main..feature', '--all...HEAD']) {
+            expect(() => parseReviewRange(range)).toThrow(
+                'Invalid review range',
+            )
+        }
+    })
+
+    test('analyzeReview diffs the branch against its merge base', async () => {
+        const review = await analyzeReview(TEST_REPO_ROOT, 'main...feature')
+
+        expect(review.commits.map(commit => commit.subject)).toEqual([
+            'Add logging module',
+        ])
+        expect(review.files.map(file => file.path).sort()).toEqual([
+            'bun.lock',
+            'src/core/run.ts',
+            'src/logging/logger.ts',
+        ])
+        expect(review.modules).toContainEqual({
+            path: 'src/logging',
+            status: 'added',
+            files: 1,
+            insertions: 1,
+            deletions: 0,
+        })
+
+        // Lockfiles are never rendered as hunks
+        expect(review.hunks.map(hunk => hunk.path)).toEqual([
+            'src/core/run.ts',
+            'src/logging/logger.ts',
+        ])
+        expect(review.hunks[0].language).toBe('ts')
+        expect(review.hunks[0].lines).toContainEqual({
+            type: 'added',
+            content: "    log('run')",
+        })
+
+        expect(review.structure).toEqual({
+            before: { modules: ['src/core'], edges: [] },
+            after: {
+                modules: ['src/core', 'src/logging'],
+                edges: [['src/core', 'src/logging']],
+            },
+        })
+    })
+
+    test('omits structure when module imports are unchanged', async () => {
+        await $`git checkout -q feature`.cwd(TEST_REPO_ROOT)
+        await commit(
+            {
+                'src/logging/logger.ts':
+                    'export const log = (message: string) => console.info(message)\n',
+            },
+            'Use console.info',
+        )
+
+        const review = await analyzeReview(TEST_REPO_ROOT, 'HEAD~1...HEAD')
+        expect(review.structure).toBeUndefined()
+        expect(review.modules).toEqual([
+            {
+                path: 'src/logging',
+                status: 'modified',
+                files: 1,
+                insertions: 1,
+                deletions: 1,
+            },
+        ])
+    })
+
+    test('drops hunks of credential files and masks secrets', async () => {
+        // Assembled at runtime so the test file itself doesn't trip scanners
+        const awsKey = ['AKIA', 'IOSFODNN7EXAMPLE'].join('')
+        await $`git checkout -q feature`.cwd(TEST_REPO_ROOT)
+        await commit(
+            {
+                '.env': `AWS_ACCESS_KEY_ID=${awsKey}\n`,
+                'src/core/aws.ts': `export const key = '${awsKey}'\n`,
+            },
+            `Hardcode ${awsKey}`,
+        )
+
+        const review = await analyzeReview(TEST_REPO_ROOT, 'HEAD~1...HEAD')
+
+        expect(review.hunks.map(hunk => hunk.path)).toEqual(['src/core/aws.ts'])
+        expect(JSON.stringify(review)).not.toContain(awsKey)
+        expect(review.commits[0].subject).toBe(
+            'Hardcode [REDACTED:aws-access-key]',
+        )
+        expect(review.hunks[0].lines[0].content).toBe(
+            "export const key = '[REDACTED:aws-access-key]'",
+        )
+    })
+
+    test('leaves excluded paths out of everything sent', async () => {
+        const review = await analyzeReview(TEST_REPO_ROOT, 'main...feature', {
+            filter: path => !path.startsWith('src/logging/'),
+        })
+
+        expect(review.files.map(file => file.path)).not.toContain(
+            'src/logging/logger.ts',
+        )
+        expect(review.modules.map(module => module.path)).not.toContain(
+            'src/logging',
+        )
+        // The import of the excluded module is all that changed
+        expect(review.structure).toBeUndefined()
+    })
+})
@@ -0,0 +1,318 @@
+import { dirname, extname } from 'path'
+
+import { SlidevGenError } from '../errors/SlidevGenError'
+import { GitRepository } from './git'
+import { buildImportGraph, sourceExtensions } from './import-graph'
+import { isBlockedFile, redactSecrets } from './secrets'
+
+import type { GitDiffFile, GitDiffHunk } from './git'
+import type { ModuleGraph, ReviewContext, ReviewHunk } from './types'
+
+export interface ReviewOptions {
+    // Hunks rendered as code slides
+    maxHunks?: number
+    // Lines kept per hunk
+    maxHunkLines?: number
+    // Source files read per revision to build the module graph
+    maxGraphFiles?: number
+    // Paths that may be sent (see the include/exclude settings); other
+    // files are left out of the file list, modules, graphs and hunks
+    filter?: (path: string) => boolean
+}
+
+// Changes to these files are summarized but never shown as hunks
+const generatedFiles =
+    /(^|\/)(package-lock\.json|bun\.lockb?|pnpm-lock\.yaml|yarn\.lock|Cargo\.lock|Gemfile\.lock|composer\.lock|poetry\.lock|go\.sum)$|\.min\.(js|css)$|\.map$/
+
+const languages: Record<string, string> = {
+    '.ts': 'ts',
+    '.mts': 'ts',
+    '.cts': 'ts',
+    '.tsx': 'tsx',
+    '.js': 'js',
+    '.mjs': 'js',
+    '.cjs': 'js',
+    '.jsx': 'jsx',
+    '.json': 'json',
+    '.md': 'md',
+    '.py': 'python',
+    '.go': 'go',
+    '.rs': 'rust',
+    '.rb': 'ruby',
+    '.php': 'php',
+    '.java': 'java',
+    '.kt': 'kotlin',
+    '.swift': 'swift',
+    '.c': 'c',
+    '.h': 'c',
+    '.cpp': 'cpp',
+    '.cs': 'csharp',
+    '.sh': 'bash',
+    '.yml': 'yaml',
+    '.yaml': 'yaml',
+    '.toml': 'toml',
+    '.css': 'css',
+    '.scss': 'scss',
+    '.html': 'html',
+    '.vue': 'vue',
+    '.svelte': 'svelte',
+    '.sql': 'sql',
+}
+
+/**
+ * Splits a `<base>...<head>` range. `head` defaults to HEAD when omitted.
+ */
+export function parseReviewRange(range: string): {
+    base: string
+    head: string
+} {
+    const [base, head, ...rest] = range.split('...')
+    if (
+        rest.length > 0 ||
+        head === undefined ||
+        !base ||
+        /\s/.test(range) ||
+        base.startsWith('-') ||
+        head.startsWith('-')
+    ) {
+        throw SlidevGenError.invalidConfiguration(
+            `Invalid review range "${range}", expected <base>...<head> (e.g. main...feature)`,
+        )
+    }
+    return { base, head: head || 'HEAD' }
+}
+
+export function getLanguage(path: string): string {
+    return languages[extname(path).toLowerCase()] ?? 'text'
+}
+
+/**
+ * Cuts a hunk down to `maxLines`, starting just before its first change.
+ */
+function trimHunk(hunk: GitDiffHunk, maxLines: number): GitDiffHunk {
+    if (hunk.lines.length <= maxLines) return hunk
+
+    const firstChange = hunk.lines.findIndex(line => line.type !== 'context')
+    const start = Math.max(0, firstChange - 2)
+    const skipped = hunk.lines
+        .slice(0, start)
+        .filter(line => line.type !== 'removed').length
+
+    return {
+        ...hunk,
+        newStart: hunk.newStart + skipped,
+        lines: hunk.lines.slice(start, start + maxLines),
+    }
+}
+
+/**
+ * Picks the hunks with the most changed lines, keeping diff order.
+ */
+function selectHunks(
+    files: GitDiffFile[],
+    maxHunks: number,
+    maxHunkLines: number,
+): ReviewHunk[] {
+    const candidates = files
+        .filter(
+            file =>
+                !file.binary &&
+                !generatedFiles.test(file.path) &&
+                !isBlockedFile(file.path),
+        )
+        .flatMap(file => file.hunks.map(hunk => ({ file, hunk })))
+        .map((candidate, order) => ({
+            ...candidate,
+            order,
+            score: candidate.hunk.lines.filter(line => line.type !== 'context')
+                .length,
+        }))
+
+    return candidates
+        .sort((a, b) => b.score - a.score || a.order - b.order)
+        .slice(0, maxHunks)
+        .sort((a, b) => a.order - b.order)
+        .map(({ file, hunk }) => {
+            const trimmed = trimHunk(hunk, maxHunkLines)
+            return {
+                path: file.path,
+                header: trimmed.header,
+                language: getLanguage(file.path),
+                newStart: trimmed.newStart,
+                lines: trimmed.lines,
+            }
+        })
+}
+
+/**
+ * Builds the module (directory) graph for the given modules at `ref` from
+ * relative imports in their JS/TS sources. Modules without sources are left
+ * out.
+ */
+function buildModuleGraph(
+    git: GitRepository,
+    ref: string,
+    allFiles: string[],
+    modules: string[],
+    maxFiles: number,
+): Promise<ModuleGraph> {
+    return buildImportGraph(allFiles, file => git.readFile(ref, file), {
+        sources: allFiles.filter(
+            file =>
+                modules.includes(dirname(file)) &&
+                sourceExtensions.includes(extname(file)),
+        ),
+        maxFiles,
+    })
+}
+
+/**
+ * Analyzes the diff of a branch against the point it forked from. Secrets
+ * in hunks, commit subjects and paths are masked like in the project
+ * analysis.
+ * Output structure:
+ * {
+ *   base: string, head: string,
+ *   mergeBase: string,           // Commit the diff is taken from
+ *   commits: { shortHash, subject, author }[],
+ *   files: { path, oldPath?, status, insertions, deletions, module }[],
+ *   modules: { path, status, files, insertions, deletions }[],
+ *                                // Touched directories, most changed first
+ *   hunks: ReviewHunk[],         // Largest hunks, lockfiles and files
+ *                                // holding credentials excluded
+ *   structure?: { before: ModuleGraph, after: ModuleGraph },
+ *                                // Only when modules or their imports changed
+ * }
+ */
+export async function analyzeReview(
+    projectRoot: string,
+    range: string,
+    {
+        maxHunks = 6,
+        maxHunkLines = 20,
+        maxGraphFiles = 200,
+        filter = () => true,
+    }: ReviewOptions = {},
+): Promise<ReviewContext> {
+    const { base, head } = parseReviewRange(range)
+    const git = new GitRepository(projectRoot)
+
+    if (!(await git.isRepository())) {
+        throw SlidevGenError.invalidProjectStructure(
+            'No git repository found in project root',
+        )
+    }
+    for (const ref of [base, head]) {
+        if (!(await git.isCommit(ref))) {
+            throw SlidevGenError.invalidProjectStructure(
+                `Unknown revision "${ref}" in review range`,
+            )
+        }
+    }
+
+    try {
+        const mergeBase = await git.mergeBase(base, head)
+        const [log, fullDiff, allBefore, allAfter] = await Promise.all([
+            git.log({ range: `${mergeBase}..${head}` }),
+            git.diff(mergeBase, head),
+            git.listFiles(mergeBase),
+            git.listFiles(head),
+        ])
+        // Files moved out of an excluded path show up as added
+        const diff = fullDiff
+            .filter(file => filter(file.path))
+            .map(file =>
+                file.oldPath && !filter(file.oldPath)
+                    ? { ...file, oldPath: undefined, status: 'added' as const }
+                    : file,
+            )
+        const filesBefore = allBefore.filter(file => filter(file))
+        const filesAfter = allAfter.filter(file => filter(file))
+
+        const files = diff.map(file => ({
+            path: file.path,
+            oldPath: file.oldPath,
+            status: file.status,
+            insertions: file.insertions,
+            deletions: file.deletions,
+            module: dirname(file.path),
+        }))
+
+        // Renames touch both the old and the new module
+        const touched = [
+            ...new Set(
+                diff.flatMap(file =>
+                    file.oldPath
+                        ? [dirname(file.oldPath), dirname(file.path)]
+                        : [dirname(file.path)],
+                ),
+            ),
+        ]
+        const existsIn = (list: string[], module: string) =>
+            list.some(file => dirname(file) === module)
+
+        const modules = touched
+            .map(path => {
+                const moduleFiles = files.filter(file => file.module === path)
+                return {
+                    path,
+                    status: !existsIn(filesBefore, path)
+                        ? ('added' as const)
+                        : !existsIn(filesAfter, path)
+                          ? ('removed' as const)
+                          : ('modified' as const),
+                    files: moduleFiles.length,
+                    insertions: moduleFiles.reduce(
+                        (total, file) => total + file.insertions,
+                        0,
+                    ),
+                    deletions: moduleFiles.reduce(
+                        (total, file) => total + file.deletions,
+                        0,
+                    ),
+                }
+            })
+            .sort(
+                (a, b) =>
+                    b.insertions + b.deletions - (a.insertions + a.deletions) ||
+                    a.path.localeCompare(b.path),
+            )
+
+        const [before, after] = await Promise.all([
+            buildModuleGraph(
+                git,
+                mergeBase,
+                filesBefore,
+                touched,
+                maxGraphFiles,
+            ),
+            buildModuleGraph(git, head, filesAfter, touched, maxGraphFiles),
+        ])
+        const structureChanged =
+            JSON.stringify(before) !== JSON.stringify(after)
+
+        // Secrets are masked before the diff is sent to a model
+        return redactSecrets({
+            base,
+            head,
+            mergeBase,
+            commits: log.map(commit => ({
+                shortHash: commit.shortHash,
+                subject: commit.subject,
+                author: commit.authorName,
+            })),
+            files,
+            modules,
+            hunks: selectHunks(diff, maxHunks, maxHunkLines),
+            structure: structureChanged ? { before, after } : undefined,
+        }).value
+    } catch (error) {
+        if (error instanceof Error) {
+            throw SlidevGenError.invalidProjectStructure(
+                `Failed to analyze review ${base}...${head}: ${error.message}`,
+                error,
+            )
+        }
+        throw error
+    }
+}
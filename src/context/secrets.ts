@@ -0,0 +1,242 @@
+import { basename } from 'path'
+
+export type SecretKind =
+    | 'private-key'
+    | 'aws-access-key'
+    | 'github-token'
+    | 'api-key'
+    | 'slack-token'
+    | 'google-api-key'
+    | 'stripe-key'
+    | 'jwt'
+    | 'connection-string'
+    | 'credential'
+    | 'high-entropy'
+
+export interface Redaction {
+    // File path for file contents, otherwise the context field
+    path: string
+    kind: SecretKind
+    count: number
+}
+
+export interface RedactionReport {
+    // Files never read into the context
+    blockedFiles: string[]
+    redactions: Redaction[]
+}
+
+// Files that hold credentials by convention are never read
+const blockedFiles = [
+    /^\.env(\..*)?$/,
+    /\.(pem|key|p12|pfx|keystore|jks)$/,
+    /^id_(rsa|dsa|ecdsa|ed25519)$/,
+    /^\.(npmrc|pypirc|netrc|htpasswd)$/,
+    /^credentials(\.json)?$/,
+]
+
+const marker = /\[REDACTED:([a-z-]+)\]/g
+const notRedacted = '(?!\\[REDACTED:)'
+
+interface SecretPattern {
+    kind: SecretKind
+    pattern: RegExp
+    // Capture group holding the secret, the whole match when omitted
+    group?: number
+    accept?: (value: string) => boolean
+}
+
+// Placeholders commonly used in docs and example configs
+const placeholder =
+    /^(x+|\*+|\.+|<.*>|\$\{.*\}|\$[A-Z_]+|%.*%)$|your|example|changeme|placeholder|dummy|redacted|process\.env|import\.meta\.env/i
+
+/**
+ * Shannon entropy of `value` in bits per character.
+ */
+export function entropy(value: string): number {
+    const counts = new Map<string, number>()
+    for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1)
+    return [...counts.values()].reduce((total, count) => {
+        const p = count / value.length
+        return total - p * Math.log2(p)
+    }, 0)
+}
+
+// Names rather than values, e.g. `apiKeyEnv: 'OPENAI_API_KEY'` or
+// `'APIKeyMissing'`: letters in words, without digits mixed in
+const identifier =
+    /^(?:[A-Z]+(?:_[A-Z0-9]+)*|[A-Za-z][a-z]*(?:[A-Z]+[a-z]*)*|[a-z]+(?:[._-][a-z]+)+)$/
+
+const isLikelySecret = (value: string) =>
+    value.length >= 8 &&
+    !placeholder.test(value) &&
+    !identifier.test(value) &&
+    entropy(value) >= 3
+
+// Random tokens mix cases and digits; hex digests (e.g. commit hashes) stay
+// below the threshold
+const isHighEntropyToken = (value: string) =>
+    /[a-z]/.test(value) &&
+    /[A-Z]/.test(value) &&
+    /\d/.test(value) &&
+    entropy(value) >= 4.5
+
+// Ordered from most to least specific
+const patterns: SecretPattern[] = [
+    {
+        kind: 'private-key',
+        pattern:
+            /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+    },
+    { kind: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+    {
+        kind: 'github-token',
+        pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})\b/g,
+    },
+    { kind: 'api-key', pattern: /\bsk-(?:ant-|proj-)?[\w-]{20,}/g },
+    { kind: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+    { kind: 'google-api-key', pattern: /\bAIza[\w-]{35}\b/g },
+    {
+        kind: 'stripe-key',
+        pattern: /\b[rs]k_(?:live|test)_[0-9a-zA-Z]{16,}\b/g,
+    },
+    {
+        kind: 'jwt',
+        pattern: /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,}/g,
+    },
+    {
+        // Only the password is masked: scheme://user:<password>@host
+        kind: 'connection-string',
+        pattern: new RegExp(
+            `\\b[a-z][a-z0-9+.-]*://[^\\s:/@'"]+:(${notRedacted}[^\\s@/'"]+)@`,
+            'gi',
+        ),
+        group: 1,
+        accept: value => !placeholder.test(value),
+    },
+    {
+        // Quoted values assigned to secret-looking names, in any file
+        kind: 'credential',
+        pattern: new RegExp(
+            `\\b\\w*(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|auth[_-]?key|private[_-]?key)\\w*['"]?\\s*[:=]\\s*(['"\`])(${notRedacted}[^'"\`\\s]+)\\1`,
+            'gi',
+        ),
+        group: 2,
+        accept: isLikelySecret,
+    },
+    {
+        // Unquoted values in env-style `NAME=value` lines; names are upper
+        // case so `apiKey: z.string()` in code doesn't match
+        kind: 'credential',
+        pattern: new RegExp(
+            `^[ \\t]*(?:export[ \\t]+)?[A-Z0-9_]*(?:SECRET|TOKEN|PASSW(?:OR)?D|PWD|API_?KEY|ACCESS_?KEY|AUTH_?KEY|PRIVATE_?KEY)[A-Z0-9_]*[ \\t]*=[ \\t]*(${notRedacted}[^'"\\s#]+)[ \\t]*$`,
+            'gm',
+        ),
+        group: 1,
+        accept: isLikelySecret,
+    },
+    {
+        kind: 'high-entropy',
+        pattern: /(?<![\w+=-])[\w+=-]{32,}(?![\w+=-])/g,
+        accept: isHighEntropyToken,
+    },
+]
+
+/**
+ * Whether a file must never be read into the context, regardless of who
+ * picked it.
+ */
+export function isBlockedFile(path: string): boolean {
+    const name = basename(path)
+    return blockedFiles.some(pattern => pattern.test(name))
+}
+
+/**
+ * Masks secrets in `text` as `[REDACTED:<kind>]`. Masks left by an earlier
+ * pass are counted again, so redacting is idempotent and the counts can be
+ * recovered from already redacted (e.g. cached) content.
+ */
+export function redactText(text: string): {
+    text: string
+    counts: Partial<Record<SecretKind, number>>
+} {
+    const counts: Partial<Record<SecretKind, number>> = {}
+    const count = (kind: SecretKind) => {
+        counts[kind] = (counts[kind] ?? 0) + 1
+    }
+
+    for (const [, kind] of text.matchAll(marker)) count(kind as SecretKind)
+
+    let redacted = text
+    for (const { kind, pattern, group, accept } of patterns) {
+        redacted = redacted.replace(pattern, (match, ...groups) => {
+            const value = group ? (groups[group - 1] as string) : match
+            if (accept && !accept(value)) return match
+            count(kind)
+            const mask = `[REDACTED:${kind}]`
+            if (!group) return mask
+            // Captured secrets end their match, apart from closing quotes
+            // and the `@` of connection strings
+            const start = match.lastIndexOf(value)
+            return `${match.slice(0, start)}${mask}${match.slice(start + value.length)}`
+        })
+    }
+
+    return { text: redacted, counts }
+}
+
+/**
+ * Redacts every string in `value`. Findings in `{ path, content }` entries
+ * (documents and files) are reported under the file path, others under the
+ * field they were found in (e.g. `git.recentCommits`).
+ */
+export function redactSecrets<T>(
+    value: T,
+    field = '',
+): { value: T; redactions: Redaction[] } {
+    const redactions: Redaction[] = []
+    const record = (
+        path: string,
+        counts: Partial<Record<SecretKind, number>>,
+    ) => {
+        for (const [kind, count] of Object.entries(counts)) {
+            const existing = redactions.find(
+                r => r.path === path && r.kind === kind,
+            )
+            if (existing) existing.count += count
+            else redactions.push({ path, kind: kind as SecretKind, count })
+        }
+    }
+
+    const walk = (node: unknown, location: string): unknown => {
+        if (typeof node === 'string') {
+            const { text, counts } = redactText(node)
+            record(location, counts)
+            return text
+        }
+        if (Array.isArray(node)) {
+            return node.map(item => walk(item, location))
+        }
+        if (node && typeof node === 'object') {
+            const entries = Object.entries(node)
+            const file =
+                'path' in node &&
+                'content' in node &&
+                typeof node.path === 'string'
+                    ? node.path
+                    : undefined
+            return Object.fromEntries(
+                entries.map(([key, child]) => [
+                    key,
+                    walk(
+                        child,
+                        file ?? (location ? `${location}.${key}` : key),
+                    ),
+                ]),
+            )
+        }
+        return node
+    }
+
+    return { value: walk(value, field) as T, redactions }
+}
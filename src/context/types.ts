@@ -1,5 +1,305 @@
 import { z } from 'zod'
 
+export const EcosystemSchema = z.enum([
+    'node',
+    'python',
+    'go',
+    'rust',
+    'ruby',
+    'php',
+    'unknown',
+])
+
+export type Ecosystem = z.infer<typeof EcosystemSchema>
+
+export const DependencyManifestSchema = z.object({
+    path: z.string(),
+    ecosystem: EcosystemSchema,
+    packageManager: z.string(),
+    packages: z.record(z.string()),
+})
+
+export type DependencyManifest = z.infer<typeof DependencyManifestSchema>
+
+export const WorkspacePackageSchema = z.object({
+    name: z.string(),
+    path: z.string(),
+    version: z.string().optional(),
+    description: z.string().optional(),
+    dependencies: z.record(z.string()),
+    entryPoints: z.array(z.string()),
+    // Names of other workspace packages this package depends on
+    internalDependencies: z.array(z.string()),
+})
+
+export type WorkspacePackage = z.infer<typeof WorkspacePackageSchema>
+
+export const PublicApiExportSchema = z.object({
+    name: z.string(),
+    kind: z.enum([
+        'function',
+        'class',
+        'interface',
+        'type',
+        'enum',
+        'variable',
+    ]),
+    signature: z.string().optional(),
+    // First paragraph of the JSDoc comment
+    summary: z.string().optional(),
+    // Public members of classes/interfaces, enum members
+    members: z.array(z.string()).optional(),
+})
+
+export type PublicApiExport = z.infer<typeof PublicApiExportSchema>
+
+export interface FileTreeNode {
+    name: string
+    path: string
+    type: 'file' | 'directory' | 'truncated'
+    // Undefined for files and for directories below the depth limit
+    children?: FileTreeNode[]
+}
+
+export const FileTreeNodeSchema: z.ZodType<FileTreeNode> = z.lazy(() =>
+    z.object({
+        name: z.string(),
+        path: z.string(),
+        type: z.enum(['file', 'directory', 'truncated']),
+        children: z.array(FileTreeNodeSchema).optional(),
+    }),
+)
+
+export const ModuleGraphSchema = z.object({
+    modules: z.array(z.string()),
+    edges: z.array(z.tuple([z.string(), z.string()])),
+})
+
+export type ModuleGraph = z.infer<typeof ModuleGraphSchema>
+
+export const TestFrameworkSchema = z.enum([
+    'bun:test',
+    'vitest',
+    'jest',
+    'pytest',
+    'go test',
+])
+
+export type TestFramework = z.infer<typeof TestFrameworkSchema>
+
+export const QualitySchema = z.object({
+    testFrameworks: z.array(TestFrameworkSchema),
+    testFiles: z.number(),
+    testCases: z.number(),
+    // Totals of the coverage report in percent, when one was found
+    coverage: z
+        .object({
+            report: z.string(),
+            lines: z.number().optional(),
+            functions: z.number().optional(),
+            branches: z.number().optional(),
+        })
+        .optional(),
+    // Configured lint and format tools
+    tooling: z.array(
+        z.object({
+            name: z.string(),
+            kind: z.enum(['lint', 'format']),
+            // Config file, or `<file>#<section>` for embedded configs
+            config: z.string(),
+        }),
+    ),
+})
+
+export type Quality = z.infer<typeof QualitySchema>
+
+export const UsageSchema = z.object({
+    // Install commands from README shell blocks
+    install: z.array(z.string()),
+    // package.json scripts and binaries, as the package manager runs them
+    run: z.array(z.string()),
+    // Non-shell README code blocks
+    examples: z.array(
+        z.object({
+            language: z.string(),
+            code: z.string(),
+            // README path, or <path>#<heading> for blocks under a heading
+            source: z.string(),
+        }),
+    ),
+})
+
+export type Usage = z.infer<typeof UsageSchema>
+
+export const PipelineSchema = z.object({
+    provider: z.enum(['github-actions', 'gitlab-ci']),
+    path: z.string(),
+    name: z.string(),
+    // Events starting the pipeline (GitHub Actions only)
+    triggers: z.array(z.string()),
+    jobs: z.array(
+        z.object({
+            id: z.string(),
+            name: z.string().optional(),
+            stage: z.string().optional(),
+            // Ids of the jobs this job waits for
+            needs: z.array(z.string()),
+        }),
+    ),
+})
+
+export type Pipeline = z.infer<typeof PipelineSchema>
+
+export const InfrastructureSchema = z.object({
+    pipelines: z.array(PipelineSchema),
+    containers: z.array(
+        z.object({
+            path: z.string(),
+            // Base images of the final stages, not of intermediate ones
+            baseImages: z.array(z.string()),
+            ports: z.array(z.string()),
+        }),
+    ),
+    compose: z.array(
+        z.object({
+            path: z.string(),
+            services: z.array(z.string()),
+        }),
+    ),
+    terraform: z
+        .object({
+            providers: z.array(z.string()),
+            resources: z.number(),
+            modules: z.array(z.string()),
+        })
+        .optional(),
+    kubernetes: z.array(
+        z.object({
+            path: z.string(),
+            kinds: z.array(z.string()),
+        }),
+    ),
+    deployments: z.array(
+        z.object({
+            platform: z.string(),
+            path: z.string(),
+        }),
+    ),
+})
+
+export type Infrastructure = z.infer<typeof InfrastructureSchema>
+
+export const RetrievedChunkSchema = z.object({
+    path: z.string(),
+    // 1-based, inclusive
+    startLine: z.number(),
+    endLine: z.number(),
+    content: z.string(),
+    // BM25 score against the section's query
+    score: z.number(),
+})
+
+export type RetrievedChunk = z.infer<typeof RetrievedChunkSchema>
+
+// Chunks retrieved for each slide section, most relevant first
+export const RetrievalSchema = z.object({
+    architecture: z.array(RetrievedChunkSchema),
+    features: z.array(RetrievedChunkSchema),
+    technical: z.array(RetrievedChunkSchema),
+})
+
+export const FocusSchema = z.object({
+    // Directory or glob the analysis was scoped to
+    path: z.string(),
+    // Short summary of the whole project, for orientation
+    project: z.object({
+        description: z.string().optional(),
+        mainLanguages: z.array(z.string()),
+        // Top-level files and directories
+        topLevel: z.array(z.string()),
+        totalCommits: z.number(),
+    }),
+})
+
+export const ProjectMetadataSchema = z.object({
+    name: z.string().optional(),
+    version: z.string().optional(),
+    description: z.string().optional(),
+    keywords: z.array(z.string()),
+    // SPDX expression from package.json, else detected from the license file
+    license: z.string().optional(),
+    licenseFile: z.string().optional(),
+    author: z.string().optional(),
+    // Browsable repository URL
+    repository: z.string().optional(),
+    homepage: z.string().optional(),
+    // Required runtimes, e.g. { node: '>=18' }
+    engines: z.record(z.string()),
+    // Published entry points: main/module/types/bin/exports
+    entryPoints: z.array(z.string()),
+    // Packages not meant to be published
+    private: z.boolean().optional(),
+})
+
+export type ProjectMetadata = z.infer<typeof ProjectMetadataSchema>
+
+export const DebtMarkerSchema = z.object({
+    kind: z.enum([
+        'todo',
+        'fixme',
+        'hack',
+        'xxx',
+        'deprecated',
+        // `throw new Error('Not implemented')` and the like
+        'unimplemented',
+    ]),
+    path: z.string(),
+    // 1-based
+    line: z.number(),
+    // Comment text, or the stub's line
+    text: z.string(),
+})
+
+export type DebtMarker = z.infer<typeof DebtMarkerSchema>
+
+export const TechnicalDebtSchema = z.object({
+    total: z.number(),
+    // Markers by kind, including the ones not listed
+    counts: z.record(z.number()),
+    // Modules with the most markers first
+    modules: z.array(
+        z.object({
+            module: z.string(),
+            count: z.number(),
+            // Most pressing markers of the module
+            markers: z.array(DebtMarkerSchema),
+        }),
+    ),
+})
+
+export type TechnicalDebt = z.infer<typeof TechnicalDebtSchema>
+
+export const AnalysisWarningSchema = z.object({
+    stage: z.enum([
+        'documentation',
+        'dependencies',
+        'metadata',
+        'workspace',
+        'git',
+        'codebase',
+        'publicApi',
+        'quality',
+        'usage',
+        'infrastructure',
+        'technicalDebt',
+        'retrieval',
+        'focus',
+    ]),
+    message: z.string(),
+})
+
+export type AnalysisWarning = z.infer<typeof AnalysisWarningSchema>
+
 export const ProjectContextSchema = z.object({
     documentation: z.object({
         readme: z.object({
@@ -14,18 +314,56 @@ export const ProjectContextSchema = z.object({
         ),
     }),
     dependencies: z.object({
-        packageManager: z.enum(['npm', 'yarn', 'pnpm', 'bun']),
+        ecosystem: EcosystemSchema,
+        manifests: z.array(DependencyManifestSchema),
         packages: z.record(z.string()),
     }),
+    // Identity from package.json and the license file
+    metadata: ProjectMetadataSchema.optional(),
+    workspace: z
+        .object({
+            tool: z.string(),
+            packages: z.array(WorkspacePackageSchema),
+        })
+        .optional(),
     git: z.object({
         recentCommits: z.array(z.string()),
         majorChanges: z.array(z.string()),
         contributors: z.array(z.string()),
+        contributorStats: z.array(
+            z.object({
+                name: z.string(),
+                email: z.string(),
+                commits: z.number(),
+            }),
+        ),
+        tags: z.array(
+            z.object({
+                name: z.string(),
+                date: z.string(),
+                commit: z.string(),
+            }),
+        ),
+        totalCommits: z.number(),
+        firstCommitDate: z.string().optional(),
+        ageInDays: z.number().optional(),
+        fileChurn: z.array(
+            z.object({
+                path: z.string(),
+                commits: z.number(),
+                insertions: z.number(),
+                deletions: z.number(),
+            }),
+        ),
+        commitTypes: z.record(z.number()),
     }),
     codebase: z.object({
         mainLanguages: z.array(z.string()),
         fileStructure: z.string(),
+        tree: FileTreeNodeSchema,
         significantFiles: z.array(z.string()),
+        // Directory-level graph of relative JS/TS imports
+        importGraph: ModuleGraphSchema.optional(),
         importantFiles: z.array(
             z.object({
                 path: z.string(),
@@ -33,6 +371,124 @@ export const ProjectContextSchema = z.object({
             }),
         ),
     }),
+    publicApi: z
+        .array(
+            z.object({
+                path: z.string(),
+                exports: z.array(PublicApiExportSchema),
+            }),
+        )
+        .optional(),
+    quality: QualitySchema.optional(),
+    usage: UsageSchema.optional(),
+    infrastructure: InfrastructureSchema.optional(),
+    technicalDebt: TechnicalDebtSchema.optional(),
+    retrieval: RetrievalSchema.optional(),
+    // Only set for decks about part of the project
+    focus: FocusSchema.optional(),
+    // Stages that found nothing to analyze or failed and were left empty
+    warnings: z.array(AnalysisWarningSchema).optional(),
 })
 
 export type ProjectContext = z.infer<typeof ProjectContextSchema>
+
+export const ReleaseCommitSchema = z.object({
+    hash: z.string(),
+    shortHash: z.string(),
+    subject: z.string(),
+    author: z.string(),
+    date: z.string(),
+    // Conventional commit fields, absent for free-form subjects
+    type: z.string().optional(),
+    scope: z.string().optional(),
+    description: z.string(),
+    breaking: z.boolean(),
+})
+
+export type ReleaseCommit = z.infer<typeof ReleaseCommitSchema>
+
+export const ReleaseContextSchema = z.object({
+    from: z.string(),
+    to: z.string(),
+    date: z.string().optional(),
+    commits: z.array(ReleaseCommitSchema),
+    changedFiles: z.array(
+        z.object({
+            path: z.string(),
+            insertions: z.number(),
+            deletions: z.number(),
+        }),
+    ),
+    contributors: z.array(
+        z.object({
+            name: z.string(),
+            email: z.string(),
+            commits: z.number(),
+        }),
+    ),
+    categories: z.object({
+        breaking: z.array(ReleaseCommitSchema),
+        features: z.array(ReleaseCommitSchema),
+        fixes: z.array(ReleaseCommitSchema),
+        other: z.array(ReleaseCommitSchema),
+    }),
+})
+
+export type ReleaseContext = z.infer<typeof ReleaseContextSchema>
+
+export const ReviewHunkSchema = z.object({
+    path: z.string(),
+    header: z.string(),
+    language: z.string(),
+    newStart: z.number(),
+    lines: z.array(
+        z.object({
+            type: z.enum(['context', 'added', 'removed']),
+            content: z.string(),
+        }),
+    ),
+})
+
+export type ReviewHunk = z.infer<typeof ReviewHunkSchema>
+
+export const ReviewContextSchema = z.object({
+    base: z.string(),
+    head: z.string(),
+    mergeBase: z.string(),
+    commits: z.array(
+        z.object({
+            shortHash: z.string(),
+            subject: z.string(),
+            author: z.string(),
+        }),
+    ),
+    files: z.array(
+        z.object({
+            path: z.string(),
+            oldPath: z.string().optional(),
+            status: z.enum(['added', 'modified', 'deleted', 'renamed']),
+            insertions: z.number(),
+            deletions: z.number(),
+            module: z.string(),
+        }),
+    ),
+    modules: z.array(
+        z.object({
+            path: z.string(),
+            status: z.enum(['added', 'modified', 'removed']),
+            files: z.number(),
+            insertions: z.number(),
+            deletions: z.number(),
+        }),
+    ),
+    hunks: z.array(ReviewHunkSchema),
+    // Only present when the module structure changed
+    structure: z
+        .object({
+            before: ModuleGraphSchema,
+            after: ModuleGraphSchema,
+        })
+        .optional(),
+})
+
+export type ReviewContext = z.infer<typeof ReviewContextSchema>
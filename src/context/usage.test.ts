@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test'
+import dedent from 'dedent'
+
+import { extractCodeBlocks, extractUsage, shellCommands } from './usage'
+
+describe('usage', () => {
+    const readme = dedent`
+        # my-tool
+
+        ## Installation
+
+        \`\`\`bash
+        # Install globally
+        npm install -g my-tool
+        \`\`\`
+
+        ## Usage
+
+        \`\`\`console
+        $ my-tool build --watch
+        Watching for changes...
+        \`\`\`
+
+        \`\`\`ts
+        import { build } from 'my-tool'
+
+        await build({
+            watch: true,
+        })
+        \`\`\`
+
+        \`\`\`mermaid
+        graph TD
+        \`\`\`
+    `
+
+    test('extractCodeBlocks keeps languages, code and headings', () => {
+        const blocks = extractCodeBlocks(readme)
+        expect(blocks.map(block => [block.language, block.heading])).toEqual([
+            ['bash', 'Installation'],
+            ['console', 'Usage'],
+            ['ts', 'Usage'],
+            ['mermaid', 'Usage'],
+        ])
+        expect(blocks[2].code).toContain('    watch: true,')
+    })
+
+    test('shellCommands drops comments, prompts and output', () => {
+        const [install, session] = extractCodeBlocks(readme)
+        expect(shellCommands(install)).toEqual(['npm install -g my-tool'])
+        expect(shellCommands(session)).toEqual(['my-tool build --watch'])
+    })
+
+    test('extractUsage combines README commands, scripts and examples', () => {
+        expect(
+            extractUsage({
+                readme,
+                packageJson: {
+                    scripts: { test: 'bun test', dev: 'bun --watch src' },
+                    bin: { 'my-tool': './dist/cli.js' },
+                },
+                packageManager: 'bun',
+            }),
+        ).toEqual({
+            install: ['npm install -g my-tool'],
+            run: ['bun run dev', 'bun run test', 'my-tool build --watch'],
+            examples: [
+                {
+                    language: 'ts',
+                    code: "import { build } from 'my-tool'\n\nawait build({\n    watch: true,\n})",
+                    source: 'README.md#Usage',
+                },
+            ],
+        })
+    })
+
+    test('extractUsage runs binaries missing from the README', () => {
+        expect(
+            extractUsage({
+                readme: '# Tool',
+                packageJson: {
+                    name: '@scope/tool',
+                    bin: './cli.js',
+                    scripts: { start: 'node cli.js' },
+                },
+            }),
+        ).toEqual({ install: [], run: ['npm start', 'npx tool'], examples: [] })
+    })
+})
@@ -0,0 +1,200 @@
+import type { Usage } from './types'
+
+export interface CodeBlock {
+    language: string
+    code: string
+    // Closest heading above the block
+    heading?: string
+}
+
+interface PackageJson {
+    scripts?: Record<string, string>
+    bin?: string | Record<string, string>
+    name?: string
+}
+
+const shellLanguages = new Set([
+    'sh',
+    'bash',
+    'shell',
+    'zsh',
+    'console',
+    'shellsession',
+])
+
+// Blocks that aren't code, or are rendered elsewhere
+const skippedLanguages = new Set([
+    '',
+    'mermaid',
+    'text',
+    'txt',
+    'plaintext',
+    'markdown',
+    'md',
+    'diff',
+])
+
+const installCommand =
+    /^(?:sudo\s+)?(?:npm\s+(?:i|install|add)|yarn\s+(?:global\s+)?add|pnpm\s+(?:add|i|install)|bun\s+(?:add|install|i)|pipx?\s+install|pip3\s+install|uv\s+(?:add|pip\s+install|tool\s+install)|poetry\s+add|go\s+(?:install|get)|cargo\s+(?:install|add)|gem\s+install|brew\s+install|composer\s+(?:global\s+)?require|git\s+clone)\b/
+
+// Scripts worth showing, in the order they are usually run
+const runScripts = ['dev', 'start', 'build', 'test']
+
+const MAX_EXAMPLES = 2
+const MAX_EXAMPLE_LINES = 20
+
+/**
+ * Fenced code blocks of a markdown document, with their language and the
+ * heading they appear under.
+ */
+export function extractCodeBlocks(markdown: string): CodeBlock[] {
+    const blocks: CodeBlock[] = []
+    let heading: string | undefined
+    let open: { fence: string; language: string; lines: string[] } | undefined
+
+    for (const line of markdown.split('\n')) {
+        if (open) {
+            if (
+                line.trim().startsWith(open.fence) &&
+                line.trim().replace(/[`~]/g, '') === ''
+            ) {
+                blocks.push({
+                    language: open.language,
+                    code: open.lines.join('\n'),
+                    heading,
+                })
+                open = undefined
+            } else {
+                open.lines.push(line)
+            }
+            continue
+        }
+
+        const fence = line.match(/^\s*(`{3,}|~{3,})\s*([\w+-]*)/)
+        if (fence) {
+            open = {
+                fence: fence[1],
+                language: fence[2].toLowerCase(),
+                lines: [],
+            }
+            continue
+        }
+
+        const title = line.match(/^#{1,6}\s+(.+?)\s*#*$/)
+        if (title) heading = title[1]
+    }
+
+    return blocks
+}
+
+/**
+ * Commands of a shell block, without prompts, comments and output lines of
+ * console sessions.
+ */
+export function shellCommands(block: CodeBlock): string[] {
+    const lines = block.code.split('\n').map(line => line.trim())
+    const prompted = lines.some(line => /^[$>]\s/.test(line))
+    return lines
+        .filter(line => line && !line.startsWith('#'))
+        .filter(line => !prompted || /^[$>]\s/.test(line))
+        .map(line => line.replace(/^[$>]\s+/, ''))
+}
+
+/**
+ * Command running a package.json script with the given package manager.
+ */
+export function scriptCommand(packageManager: string, script: string): string {
+    switch (packageManager) {
+        case 'yarn':
+        case 'pnpm':
+            return `${packageManager} ${script}`
+        case 'bun':
+            return `bun run ${script}`
+        default:
+            return ['start', 'test'].includes(script)
+                ? `npm ${script}`
+                : `npm run ${script}`
+    }
+}
+
+const escapeRegExp = (value: string) =>
+    value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+function binNames(pkg: PackageJson): string[] {
+    if (typeof pkg.bin === 'string') {
+        return pkg.name ? [pkg.name.replace(/^@[^/]+\//, '')] : []
+    }
+    return Object.keys(pkg.bin ?? {})
+}
+
+/**
+ * Extracts install and run commands and usage examples from the README and
+ * package.json. Everything is taken verbatim: README commands as written,
+ * scripts and binaries as the package manager runs them.
+ */
+export function extractUsage({
+    readme,
+    readmePath = 'README.md',
+    packageJson = {},
+    packageManager = 'npm',
+}: {
+    readme: string
+    // Source of example blocks
+    readmePath?: string
+    packageJson?: PackageJson
+    packageManager?: string
+}): Usage {
+    const blocks = extractCodeBlocks(readme)
+    const commands = blocks
+        .filter(block => shellLanguages.has(block.language))
+        .flatMap(shellCommands)
+
+    const bins = binNames(packageJson)
+    const runsBin = (command: string) =>
+        bins.some(bin =>
+            new RegExp(
+                `^(?:(?:npx|bunx|pnpm\\s+dlx|yarn\\s+dlx)\\s+)?${escapeRegExp(bin)}(?:\\s|$)`,
+            ).test(command),
+        )
+    const exec =
+        { bun: 'bunx', pnpm: 'pnpm dlx', yarn: 'yarn dlx' }[packageManager] ??
+        'npx'
+
+    const readmeRuns = commands.filter(runsBin)
+    const run = [
+        ...runScripts
+            .filter(script => packageJson.scripts?.[script] !== undefined)
+            .map(script => scriptCommand(packageManager, script)),
+        // Binaries not shown in the README are run as-is
+        ...(readmeRuns.length > 0
+            ? readmeRuns
+            : bins.map(bin => `${exec} ${bin}`)),
+    ]
+
+    const examples = blocks
+        .filter(
+            block =>
+                !shellLanguages.has(block.language) &&
+                !skippedLanguages.has(block.language) &&
+                block.code.trim() &&
+                block.code.split('\n').length <= MAX_EXAMPLE_LINES,
+        )
+        .slice(0, MAX_EXAMPLES)
+        .map(block => ({
+            language: block.language,
+            code: block.code,
+            source: block.heading
+                ? `${readmePath}#${block.heading}`
+                : readmePath,
+        }))
+
+    return {
+        install: [
+            ...new Set(
+                commands.filter(command => installCommand.test(command)),
+            ),
+        ],
+        run: [...new Set(run)],
+        examples,
+    }
+}
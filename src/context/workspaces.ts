@@ -0,0 +1,161 @@
+import { readFile } from 'fs/promises'
+import { dirname, join } from 'path'
+
+import { glob } from 'glob'
+
+import { parsePackageJson } from './manifests'
+
+import type { ProjectContext, WorkspacePackage } from './types'
+
+interface PackageJson {
+    name?: string
+    version?: string
+    description?: string
+    main?: string
+    module?: string
+    types?: string
+    bin?: string | Record<string, string>
+    exports?: unknown
+    workspaces?: string[] | { packages?: string[] }
+}
+
+/**
+ * Reads the `packages` list from a pnpm-workspace.yaml file.
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+    const patterns: string[] = []
+    let inPackages = false
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/\s+#.*$/, '')
+        if (!line.trim() || line.trim().startsWith('#')) continue
+
+        if (/^\S/.test(line)) {
+            inPackages = line.trim() === 'packages:'
+            continue
+        }
+
+        const item = line.trim().match(/^-\s*["']?([^"']+)["']?$/)
+        if (inPackages && item) patterns.push(item[1])
+    }
+
+    return patterns
+}
+
+/**
+ * Flattens `main`, `module`, `types`, `bin` and `exports` into a list of
+ * entry point paths.
+ */
+export function getEntryPoints(pkg: PackageJson): string[] {
+    const entries: string[] = []
+    const collect = (value: unknown) => {
+        if (typeof value === 'string') {
+            entries.push(value)
+        } else if (value && typeof value === 'object') {
+            Object.values(value).forEach(collect)
+        }
+    }
+
+    collect(pkg.main)
+    collect(pkg.module)
+    collect(pkg.types)
+    collect(pkg.bin)
+    collect(pkg.exports)
+
+    return [...new Set(entries.map(entry => entry.replace(/^\.\//, '')))]
+}
+
+async function readPackageJson(path: string): Promise<PackageJson | null> {
+    try {
+        return JSON.parse(await readFile(path, 'utf-8')) as PackageJson
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+    }
+}
+
+async function readPnpmWorkspace(projectRoot: string): Promise<string[]> {
+    try {
+        const content = await readFile(
+            join(projectRoot, 'pnpm-workspace.yaml'),
+            'utf-8',
+        )
+        return parsePnpmWorkspace(content)
+    } catch {
+        return []
+    }
+}
+
+/**
+ * Detects npm/yarn/bun (`workspaces` field) and pnpm (`pnpm-workspace.yaml`)
+ * workspaces and builds a sub-context for every package whose manifest
+ * `filter` allows. Returns undefined when the project isn't a monorepo.
+ */
+export async function analyzeWorkspaces(
+    projectRoot: string,
+    packageManager: string,
+    { filter = () => true }: { filter?: (path: string) => boolean } = {},
+): Promise<ProjectContext['workspace']> {
+    const rootPkg = await readPackageJson(join(projectRoot, 'package.json'))
+    const pnpmPatterns = await readPnpmWorkspace(projectRoot)
+    const workspaces = rootPkg?.workspaces
+    const patterns =
+        pnpmPatterns.length > 0
+            ? pnpmPatterns
+            : Array.isArray(workspaces)
+              ? workspaces
+              : (workspaces?.packages ?? [])
+
+    if (patterns.length === 0) return undefined
+
+    const include = patterns.filter(pattern => !pattern.startsWith('!'))
+    const exclude = patterns
+        .filter(pattern => pattern.startsWith('!'))
+        .map(pattern => `${pattern.slice(1).replace(/\/$/, '')}/package.json`)
+
+    const manifestPaths = await glob(
+        include.map(pattern => `${pattern.replace(/\/$/, '')}/package.json`),
+        {
+            cwd: projectRoot,
+            ignore: ['**/node_modules/**', ...exclude],
+            nodir: true,
+        },
+    )
+
+    const packages = await Promise.all(
+        manifestPaths
+            .filter(filter)
+            .sort()
+            .map(async (manifestPath): Promise<WorkspacePackage> => {
+                const content = await readFile(
+                    join(projectRoot, manifestPath),
+                    'utf-8',
+                )
+                const pkg = JSON.parse(content) as PackageJson
+                const path = dirname(manifestPath)
+
+                return {
+                    name: pkg.name ?? path,
+                    path,
+                    version: pkg.version,
+                    description: pkg.description,
+                    dependencies: parsePackageJson(content),
+                    entryPoints: getEntryPoints(pkg),
+                    internalDependencies: [],
+                }
+            }),
+    )
+
+    // Edges only point at packages that live in this workspace
+    const names = new Set(packages.map(pkg => pkg.name))
+    for (const pkg of packages) {
+        pkg.internalDependencies = Object.keys(pkg.dependencies)
+            .filter(name => names.has(name) && name !== pkg.name)
+            .sort()
+    }
+
+    return {
+        tool: pnpmPatterns.length > 0 ? 'pnpm' : packageManager,
+        packages,
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test'
+import dedent from 'dedent'
+
+import { readYaml } from './yaml'
+
+describe('readYaml', () => {
+    test('reads nested maps, lists and scalars', () => {
+        expect(
+            readYaml(dedent`
+                name: "CI" # comment
+                on: [push, pull_request]
+                jobs:
+                  test:
+                    steps:
+                      - uses: actions/checkout@v4
+                      - name: Test
+                        run: |
+                          bun install
+                          bun test
+                    needs:
+                    - lint
+            `),
+        ).toEqual([
+            {
+                name: 'CI',
+                on: ['push', 'pull_request'],
+                jobs: {
+                    test: {
+                        steps: [
+                            { uses: 'actions/checkout@v4' },
+                            { name: 'Test', run: 'bun install\nbun test' },
+                        ],
+                        needs: ['lint'],
+                    },
+                },
+            },
+        ])
+    })
+
+    test('reads every document of a multi-document file', () => {
+        expect(
+            readYaml('kind: Deployment\n---\nkind: Service\nspec:\n'),
+        ).toEqual([{ kind: 'Deployment' }, { kind: 'Service', spec: null }])
+    })
+})
@@ -0,0 +1,149 @@
+interface YamlLine {
+    indent: number
+    text: string
+}
+
+type YamlMap = Record<string, unknown>
+
+const isListItem = (text: string) => text === '-' || text.startsWith('- ')
+
+// `key: value` or `key:`, with plain or quoted keys
+const pair =
+    /^("[^"]*"|'[^']*'|[^\s'"[{#-][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*))?$/
+
+function unquote(value: string): string {
+    return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value
+}
+
+function scalar(raw: string): unknown {
+    const value = raw.trim()
+    // Flow sequences are split on commas, nested ones aren't supported
+    if (value.startsWith('[') && value.endsWith(']')) {
+        return value
+            .slice(1, -1)
+            .split(',')
+            .map(item => unquote(item.trim()))
+            .filter(Boolean)
+    }
+    return unquote(value)
+}
+
+function parseNode(
+    lines: YamlLine[],
+    index: number,
+): [value: unknown, next: number] {
+    const { indent, text } = lines[index]
+    return isListItem(text)
+        ? parseList(lines, index, indent)
+        : parseMap(lines, index, indent)
+}
+
+function parseValue(
+    lines: YamlLine[],
+    index: number,
+    indent: number,
+    rest: string,
+): [value: unknown, next: number] {
+    if (rest === '' || /^[&!]\S*$/.test(rest)) {
+        const next = lines[index]
+        // Lists may sit at the same indentation as their key
+        const nested =
+            next &&
+            (next.indent > indent ||
+                (next.indent === indent && isListItem(next.text)))
+        return nested ? parseNode(lines, index) : [null, index]
+    }
+
+    if (/^[|>][-+]?\d*$/.test(rest)) {
+        const body: string[] = []
+        while (index < lines.length && lines[index].indent > indent) {
+            body.push(lines[index++].text)
+        }
+        return [body.join(rest.startsWith('|') ? '\n' : ' '), index]
+    }
+
+    return [scalar(rest), index]
+}
+
+function parseMap(
+    lines: YamlLine[],
+    index: number,
+    indent: number,
+): [YamlMap, number] {
+    const map: YamlMap = {}
+    while (index < lines.length && lines[index].indent >= indent) {
+        const line = lines[index]
+        if (line.indent === indent && isListItem(line.text)) break
+
+        const match = line.indent === indent && line.text.match(pair)
+        index++
+        // Continuations of multi-line plain scalars are skipped
+        if (!match) continue
+
+        const [value, next] = parseValue(
+            lines,
+            index,
+            indent,
+            match[2]?.trim() ?? '',
+        )
+        map[unquote(match[1])] = value
+        index = next
+    }
+    return [map, index]
+}
+
+function parseList(
+    lines: YamlLine[],
+    index: number,
+    indent: number,
+): [unknown[], number] {
+    const list: unknown[] = []
+    while (
+        index < lines.length &&
+        lines[index].indent === indent &&
+        isListItem(lines[index].text)
+    ) {
+        const { text } = lines[index]
+        const rest = text.slice(1).trimStart()
+
+        if (rest && pair.test(rest)) {
+            // `- key: value` starts a map indented like its first key
+            lines[index] = {
+                indent: indent + text.length - rest.length,
+                text: rest,
+            }
+            const [map, next] = parseMap(lines, index, lines[index].indent)
+            list.push(map)
+            index = next
+        } else {
+            const [value, next] = parseValue(lines, index + 1, indent, rest)
+            list.push(value)
+            index = next
+        }
+    }
+    return [list, index]
+}
+
+/**
+ * Minimal YAML reader covering what CI, compose and Kubernetes files use:
+ * nested maps and lists, quoted and flow-sequence scalars and block
+ * scalars. Scalars are returned as strings; anchors, aliases and flow
+ * mappings aren't interpreted. Multi-document files yield one value per
+ * document.
+ */
+export function readYaml(content: string): unknown[] {
+    return content
+        .split(/^---.*$/m)
+        .map(document => {
+            const lines = document
+                .split('\n')
+                .map(line => line.replace(/(^|\s)#.*$/, '').trimEnd())
+                .filter(line => line.trim() !== '')
+                .map(line => ({
+                    indent: line.length - line.trimStart().length,
+                    text: line.trim(),
+                }))
+            return lines.length > 0 ? parseNode(lines, 0)[0] : null
+        })
+        .filter(document => document !== null)
+}
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test'
+
+import { normalizeMermaid, validateMermaid } from './mermaid'
+
+describe('mermaid', () => {
+    describe('normalizeMermaid', () => {
+        test('strips markdown fences', () => {
+            expect(normalizeMermaid('```mermaid\ngraph TD\nA-->B\n```')).toBe(
+                'graph TD\nA-->B',
+            )
+        })
+
+        test('expands escaped newlines in single-line diagrams', () => {
+            expect(normalizeMermaid('graph TD\\nA-->B')).toBe('graph TD\nA-->B')
+        })
+    })
+
+    describe('validateMermaid', () => {
+        test('accepts valid diagrams', () => {
+            expect(
+                validateMermaid('graph TD\nA[Project] -->|uses| B{Decision}'),
+            ).toEqual([])
+        })
+
+        test('rejects unknown diagram types', () => {
+            expect(validateMermaid('diagram\nA-->B')).toEqual([
+                'Unknown diagram type "diagram"',
+            ])
+        })
+
+        test('rejects unbalanced brackets', () => {
+            expect(validateMermaid('graph TD\nA[Project --> B')).toEqual([
+                'Diagram has unbalanced brackets',
+            ])
+        })
+
+        test('ignores brackets inside quoted labels', () => {
+            expect(validateMermaid('graph TD\nA["array[0"] --> B')).toEqual([])
+        })
+    })
+})
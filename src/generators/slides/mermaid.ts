@@ -0,0 +1,99 @@
+const diagramTypes = [
+    'graph',
+    'flowchart',
+    'sequenceDiagram',
+    'classDiagram',
+    'stateDiagram',
+    'stateDiagram-v2',
+    'erDiagram',
+    'journey',
+    'gantt',
+    'pie',
+    'mindmap',
+    'timeline',
+    'gitGraph',
+    'quadrantChart',
+    'C4Context',
+]
+
+const bracketPairs: Record<string, string> = {
+    '(': ')',
+    '[': ']',
+    '{': '}',
+}
+
+/**
+ * Removes markdown fences the model sometimes wraps diagrams in and expands
+ * escaped newlines in single-line diagrams.
+ */
+export function normalizeMermaid(diagram: string): string {
+    const source = diagram
+        .trim()
+        .replace(/^```(?:mermaid)?\s*\n?/, '')
+        .replace(/\n?```$/, '')
+        .trim()
+
+    return source.includes('\n') ? source : source.replace(/\\n/g, '\n')
+}
+
+/**
+ * Cheap structural validation of a normalized mermaid diagram. This doesn't
+ * replace the mermaid parser, but catches the failure modes we see most from
+ * LLMs: a missing diagram type and unbalanced brackets.
+ * Returns a list of problems, empty when the diagram looks valid.
+ */
+export function validateMermaid(diagram: string): string[] {
+    const problems: string[] = []
+    const source = diagram.trim()
+
+    if (!source) {
+        return ['Diagram is empty']
+    }
+
+    const firstLine = source.split('\n')[0].trim()
+    const type = firstLine.split(/\s+/)[0]
+    if (!diagramTypes.includes(type)) {
+        problems.push(`Unknown diagram type "${type}"`)
+    }
+
+    const closing = Object.values(bracketPairs)
+    const stack: string[] = []
+    let balanced = true
+    for (const char of source.replace(/"[^"]*"/g, '')) {
+        if (char in bracketPairs) {
+            stack.push(bracketPairs[char])
+        } else if (closing.includes(char) && stack.pop() !== char) {
+            balanced = false
+            break
+        }
+    }
+    if (!balanced || stack.length > 0) {
+        problems.push('Diagram has unbalanced brackets')
+    }
+
+    return problems
+}
+
+/**
+ * Renders a directed graph as mermaid `graph` source. Labels are arbitrary
+ * strings (package names, paths) so nodes get generated ids.
+ */
+export function createMermaidGraph(
+    labels: string[],
+    edges: Array<[from: string, to: string]>,
+    direction: 'TD' | 'LR' = 'TD',
+): string {
+    const ids = new Map(labels.map((label, index) => [label, `n${index}`]))
+    const lines = [`graph ${direction}`]
+
+    for (const [label, id] of ids) {
+        lines.push(`    ${id}["${label.replace(/"/g, '#quot;')}"]`)
+    }
+    for (const [from, to] of edges) {
+        const fromId = ids.get(from)
+        const toId = ids.get(to)
+        if (fromId && toId) lines.push(`    ${fromId} --> ${toId}`)
+    }
+
+    return lines.join('\n')
+}
@@ -1,16 +1,43 @@
 import { mkdir, stat } from 'fs/promises'
 import { join } from 'path'
 
+import { MockLanguageModelV1 } from 'ai/test'
 import { $ } from 'bun'
-import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import {
+    afterEach,
+    beforeAll,
+    beforeEach,
+    describe,
+    expect,
+    test,
+} from 'bun:test'
 
+import { EgressLog } from '../../llm/egress'
 import { SlidesGenerator } from './slides-generator'
 
-import type { ProjectContext } from '../../context/types'
+import type { ProjectContext, ReleaseCommit } from '../../context/types'
+import type { LLMProvider } from '../../llm/provider'
 
 describe('SlidesGenerator', () => {
     const TEST_OUTPUT_DIR = join(import.meta.dir, '__test_output__')
     const ORIGINAL_OPENAI_API_KEY = process.env.OPENAI_API_KEY
+    // Recorded responses for mockContext, replayed without network access.
+    // Run with RECORD_LLM_FIXTURES=1 and an API key to record them afresh
+    // after changing the prompts.
+    const FIXTURES_DIR = join(import.meta.dir, '__fixtures__/llm')
+    const recordFixtures = process.env.RECORD_LLM_FIXTURES === '1'
+    const replayConfig = {
+        llmCache: {
+            dir: FIXTURES_DIR,
+            replay: !recordFixtures,
+            record: recordFixtures,
+        },
+    }
+
+    // Recordings of earlier prompts are dropped before recording
+    beforeAll(async () => {
+        if (recordFixtures) await $`rm -rf ${FIXTURES_DIR}`
+    })
 
     // Mock project context for testing
     const mockContext: ProjectContext = {
@@ -27,7 +54,17 @@ describe('SlidesGenerator', () => {
             ],
         },
         dependencies: {
-            packageManager: 'bun',
+            ecosystem: 'node',
+            manifests: [
+                {
+                    path: 'package.json',
+                    ecosystem: 'node',
+                    packageManager: 'bun',
+                    packages: {
+                        'test-dep': '1.0.0',
+                    },
+                },
+            ],
             packages: {
                 'test-dep': '1.0.0',
             },
@@ -36,11 +73,42 @@ describe('SlidesGenerator', () => {
             recentCommits: ['feat: initial commit'],
             majorChanges: ['Added core functionality'],
             contributors: ['Test User'],
+            contributorStats: [
+                { name: 'Test User', email: 'test@example.com', commits: 1 },
+            ],
+            tags: [],
+            totalCommits: 1,
+            fileChurn: [],
+            commitTypes: { feat: 1 },
         },
         codebase: {
             mainLanguages: ['ts', 'js'],
             significantFiles: ['package.json', 'src/index.ts'],
             fileStructure: 'src/\n  index.ts\n  utils.ts',
+            tree: {
+                name: '.',
+                path: '',
+                type: 'directory',
+                children: [
+                    {
+                        name: 'src',
+                        path: 'src',
+                        type: 'directory',
+                        children: [
+                            {
+                                name: 'index.ts',
+                                path: 'src/index.ts',
+                                type: 'file',
+                            },
+                            {
+                                name: 'utils.ts',
+                                path: 'src/utils.ts',
+                                type: 'file',
+                            },
+                        ],
+                    },
+                ],
+            },
             importantFiles: [],
         },
     }
@@ -83,7 +151,11 @@ describe('SlidesGenerator', () => {
 
     describe('Integration Tests', () => {
         test('generate() creates slides and config files', async () => {
-            const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+            const generator = new SlidesGenerator(
+                TEST_OUTPUT_DIR,
+                undefined,
+                replayConfig,
+            )
             const output = await generator.generate(mockContext)
 
             // Check if files were created
@@ -107,12 +179,47 @@ describe('SlidesGenerator', () => {
             expect(configContent).toContain('theme')
             expect(configContent).toContain('highlighter')
         })
+
+        test('generate() writes the egress manifest when the model fails', async () => {
+            const egress = new EgressLog()
+            const generator = new SlidesGenerator(
+                TEST_OUTPUT_DIR,
+                'test-key',
+                { cache: false },
+                egress,
+            )
+            const provider = (modelId: string) =>
+                new MockLanguageModelV1({
+                    modelId,
+                    doGenerate: async () => {
+                        throw new Error('Service unavailable')
+                    },
+                })
+            generator['router']['llm'] = provider as LLMProvider
+
+            await expect(generator.generate(mockContext)).rejects.toThrow(
+                'All models failed',
+            )
+
+            const manifest = await Bun.file(
+                join(TEST_OUTPUT_DIR, 'egress.json'),
+            ).json()
+            expect(manifest.requests).toHaveLength(1)
+            expect(manifest.requests[0]).toMatchObject({
+                stage: 'contentGeneration',
+                model: 'gpt-4o-mini',
+            })
+        })
     })
 
     describe('Unit Tests', () => {
         describe('generateContent', () => {
             test('generates structured content from context', async () => {
-                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const generator = new SlidesGenerator(
+                    TEST_OUTPUT_DIR,
+                    undefined,
+                    replayConfig,
+                )
                 const content = await generator['generateContent'](mockContext)
 
                 expect(content.title).toBeDefined()
@@ -122,6 +229,203 @@ describe('SlidesGenerator', () => {
                 expect(Array.isArray(content.sections.technical)).toBe(true)
                 expect(Array.isArray(content.sections.roadmap)).toBe(true)
             })
+
+            test('writes retrieved sections from their own chunks', async () => {
+                const chunk = (path: string, content: string) => ({
+                    path,
+                    startLine: 1,
+                    endLine: 3,
+                    content,
+                    score: 1,
+                })
+                const generator = new SlidesGenerator(
+                    TEST_OUTPUT_DIR,
+                    'test-key',
+                    { cache: false },
+                )
+                const prompts: string[] = []
+                generator['router'].generateObject = (async (
+                    _stage: string,
+                    request: { prompt: string },
+                ) => {
+                    prompts.push(request.prompt)
+                    if (request.prompt.startsWith('Write the architecture')) {
+                        return { architecture: 'Grounded architecture' }
+                    }
+                    if (request.prompt.startsWith('Write the features')) {
+                        return { features: ['Grounded feature'] }
+                    }
+                    return {
+                        title: 'Test Project',
+                        headline: 'Slides from code',
+                        sections: {
+                            overview: 'An overview',
+                            architecture: 'Architecture',
+                            features: ['Feature'],
+                            technical: ['Detail'],
+                            roadmap: [],
+                        },
+                        diagrams: {},
+                    }
+                }) as never
+
+                const content = await generator['generateContent']({
+                    ...mockContext,
+                    retrieval: {
+                        architecture: [
+                            chunk('src/core.ts', 'export class Core {}'),
+                        ],
+                        features: [chunk('src/cli.ts', 'program.command()')],
+                        technical: [],
+                    },
+                })
+
+                expect(prompts).toHaveLength(3)
+                expect(prompts[0]).not.toContain('export class Core')
+                expect(prompts[0]).not.toContain('program.command()')
+                const architecture = prompts.find(prompt =>
+                    prompt.startsWith('Write the architecture'),
+                )
+                expect(architecture).toContain('export class Core')
+                expect(architecture).not.toContain('program.command()')
+                expect(content.sections).toMatchObject({
+                    architecture: 'Grounded architecture',
+                    features: ['Grounded feature'],
+                    technical: ['Detail'],
+                })
+            })
+            test('budgets retrieved chunks in the calls of their sections', async () => {
+                // ~1000 tokens each
+                const large = `${'x'.repeat(79)}\n`.repeat(50)
+                const chunk = (path: string) => ({
+                    path,
+                    startLine: 1,
+                    endLine: 50,
+                    content: large,
+                    score: 1,
+                })
+                const generator = new SlidesGenerator(
+                    TEST_OUTPUT_DIR,
+                    'test-key',
+                    { cache: false, budget: { maxTokens: 2_200 } },
+                )
+                const prompts: string[] = []
+                generator['router'].generateObject = (async (
+                    _stage: string,
+                    request: { prompt: string },
+                ) => {
+                    prompts.push(request.prompt)
+                    if (request.prompt.startsWith('Write the architecture')) {
+                        return { architecture: 'Grounded architecture' }
+                    }
+                    return {
+                        title: 'Test Project',
+                        headline: 'Slides from code',
+                        sections: {
+                            overview: 'An overview',
+                            architecture: 'Architecture',
+                            features: [],
+                            technical: [],
+                            roadmap: [],
+                        },
+                        diagrams: {},
+                    }
+                }) as never
+
+                await generator['generateContent']({
+                    ...mockContext,
+                    codebase: {
+                        ...mockContext.codebase,
+                        importantFiles: [{ path: 'src/a.ts', content: large }],
+                    },
+                    retrieval: {
+                        architecture: [
+                            chunk('src/core.ts'),
+                            chunk('src/app.ts'),
+                            chunk('src/extra.ts'),
+                        ],
+                        features: [],
+                        technical: [],
+                    },
+                })
+
+                // The section call has the whole budget for its chunks
+                expect(prompts).toHaveLength(2)
+                expect(prompts[0]).toContain('"path":"src/a.ts"')
+                expect(prompts[0]).not.toContain('[truncated]')
+                expect(prompts[1]).toContain('"path":"src/core.ts"')
+                expect(prompts[1]).toContain('"path":"src/app.ts"')
+                expect(prompts[1]).not.toContain('"path":"src/extra.ts"')
+            })
+
+            test('lists every file the prompt draws on as a source', async () => {
+                const generator = new SlidesGenerator(
+                    TEST_OUTPUT_DIR,
+                    'test-key',
+                    { cache: false },
+                )
+                const sources: string[] = []
+                generator['router'].generateObject = (async (
+                    _stage: string,
+                    request: { sources: Array<{ path: string }> },
+                ) => {
+                    sources.push(...request.sources.map(source => source.path))
+                    return {
+                        title: 'Test Project',
+                        headline: 'Slides from code',
+                        sections: {
+                            overview: 'An overview',
+                            architecture: 'Architecture',
+                            features: [],
+                            technical: [],
+                            roadmap: [],
+                        },
+                        diagrams: {},
+                    }
+                }) as never
+
+                await generator['generateContent']({
+                    ...mockContext,
+                    workspace: {
+                        tool: 'bun',
+                        packages: [
+                            {
+                                name: '@test/cli',
+                                path: 'packages/cli',
+                                dependencies: {},
+                                entryPoints: [],
+                                internalDependencies: [],
+                            },
+                        ],
+                    },
+                    publicApi: [
+                        {
+                            path: 'src/index.ts',
+                            exports: [{ name: 'run', kind: 'function' }],
+                        },
+                    ],
+                    usage: {
+                        install: [],
+                        run: [],
+                        examples: [
+                            {
+                                language: 'ts',
+                                code: 'run()',
+                                source: 'README.md#Usage',
+                            },
+                        ],
+                    },
+                })
+
+                expect(sources).toEqual([
+                    'README.md',
+                    'docs/additional.md',
+                    'package.json',
+                    'packages/cli/package.json',
+                    'src/index.ts',
+                    'README.md#Usage',
+                ])
+            })
         })
 
         describe('generateOutput', () => {
@@ -153,6 +457,463 @@ describe('SlidesGenerator', () => {
                 expect(output.markdown).toContain('```mermaid')
             })
 
+            test('renders the import graph as the architecture diagram', async () => {
+                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const mockContent = {
+                    title: 'Test Title',
+                    headline: 'Test Headline',
+                    sections: {
+                        overview: 'Test Overview',
+                        architecture: 'The CLI drives the analyzer.',
+                        features: [],
+                        technical: [],
+                        roadmap: [],
+                    },
+                    diagrams: {
+                        architecture: 'graph TD\nA[Invented]-->B',
+                    },
+                }
+                const context: ProjectContext = {
+                    ...mockContext,
+                    codebase: {
+                        ...mockContext.codebase,
+                        importGraph: {
+                            modules: ['.', 'src/cli', 'src/context'],
+                            edges: [
+                                ['.', 'src/cli'],
+                                ['src/cli', 'src/context'],
+                            ],
+                        },
+                    },
+                }
+
+                const output = await generator['generateOutput'](
+                    mockContent,
+                    context,
+                )
+
+                expect(output.markdown).toContain(
+                    'The CLI drives the analyzer.',
+                )
+                expect(output.markdown).toContain(
+                    [
+                        'graph TD',
+                        'n0["/"]',
+                        'n1["src/cli"]',
+                        'n2["src/context"]',
+                        'n0 --> n1',
+                        'n1 --> n2',
+                    ].join('\n'),
+                )
+                expect(output.markdown).not.toContain('Invented')
+            })
+
+            test('renders packages and dependency graph for workspaces', async () => {
+                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const mockContent = {
+                    title: 'Test Title',
+                    headline: 'Test Headline',
+                    sections: {
+                        overview: 'Test Overview',
+                        architecture: 'Test Architecture',
+                        features: ['Feature 1'],
+                        technical: [],
+                        roadmap: ['Step 1'],
+                    },
+                    diagrams: {},
+                }
+                const workspaceContext: ProjectContext = {
+                    ...mockContext,
+                    workspace: {
+                        tool: 'bun',
+                        packages: [
+                            {
+                                name: '@test/cli',
+                                path: 'packages/cli',
+                                dependencies: { '@test/core': 'workspace:*' },
+                                entryPoints: ['bin/test.js'],
+                                internalDependencies: ['@test/core'],
+                            },
+                            {
+                                name: '@test/core',
+                                path: 'packages/core',
+                                version: '1.0.0',
+                                description: 'Core library',
+                                dependencies: {},
+                                entryPoints: ['dist/index.js'],
+                                internalDependencies: [],
+                            },
+                        ],
+                    },
+                }
+
+                const output = await generator['generateOutput'](
+                    mockContent,
+                    workspaceContext,
+                )
+
+                expect(output.markdown).toContain('# Packages')
+                expect(output.markdown).toContain(
+                    '- **@test/core** `v1.0.0` (`packages/core`) — Core library',
+                )
+                expect(output.markdown).toContain(
+                    [
+                        '---',
+                        'layout: center',
+                        '---',
+                        '',
+                        '# Package Dependencies',
+                        '',
+                        '```mermaid',
+                        'graph TD',
+                        '    n0["@test/cli"]',
+                        '    n1["@test/core"]',
+                        '    n0 --> n1',
+                        '```',
+                    ].join('\n'),
+                )
+            })
+
+            test('renders the quality slide from the test suite analysis', async () => {
+                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const mockContent = {
+                    title: 'Test Title',
+                    headline: 'Test Headline',
+                    sections: {
+                        overview: 'Test Overview',
+                        architecture: 'Test Architecture',
+                        features: [],
+                        technical: [],
+                        roadmap: [],
+                        quality: ['Every analyzer stage has unit tests.'],
+                    },
+                    diagrams: {},
+                }
+                const context: ProjectContext = {
+                    ...mockContext,
+                    quality: {
+                        testFrameworks: ['bun:test'],
+                        testFiles: 12,
+                        testCases: 1,
+                        coverage: {
+                            report: 'coverage/lcov.info',
+                            lines: 87.5,
+                            branches: 70,
+                        },
+                        tooling: [
+                            {
+                                name: 'eslint',
+                                kind: 'lint',
+                                config: 'eslint.config.js',
+                            },
+                            {
+                                name: 'prettier',
+                                kind: 'format',
+                                config: '.prettierrc',
+                            },
+                        ],
+                    },
+                }
+
+                const output = await generator['generateOutput'](
+                    mockContent,
+                    context,
+                )
+
+                expect(output.markdown).toContain(
+                    [
+                        '# Quality',
+                        '',
+                        '- **Tests** — 12 files, 1 case (bun:test)',
+                        '- **Coverage** — 87.5% lines, 70% branches',
+                        '- **Linting** — eslint',
+                        '- **Formatting** — prettier',
+                        '',
+                        '- Every analyzer stage has unit tests.',
+                    ].join('\n'),
+                )
+            })
+
+            test('renders getting started commands and examples verbatim', async () => {
+                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const mockContent = {
+                    title: 'Test Title',
+                    headline: 'Test Headline',
+                    sections: {
+                        overview: 'Test Overview',
+                        architecture: 'Test Architecture',
+                        features: [],
+                        technical: [],
+                        roadmap: [],
+                    },
+                    diagrams: {},
+                }
+                const context: ProjectContext = {
+                    ...mockContext,
+                    usage: {
+                        install: ['npm install -g my-tool'],
+                        run: ['npm run dev'],
+                        examples: [
+                            {
+                                language: 'ts',
+                                code: 'await build({\n    watch: true,\n})',
+                                source: 'README.md#Usage',
+                            },
+                        ],
+                    },
+                }
+
+                const output = await generator['generateOutput'](
+                    mockContent,
+                    context,
+                )
+
+                expect(output.markdown).toContain(
+                    [
+                        '---',
+                        'layout: two-cols',
+                        '---',
+                        '',
+                        '# Getting Started',
+                        '',
+                        '```bash',
+                        'npm install -g my-tool',
+                        '```',
+                        '',
+                        '```bash',
+                        'npm run dev',
+                        '```',
+                        '',
+                        '::right::',
+                        '',
+                        '```ts',
+                        'await build({',
+                        '    watch: true,',
+                        '})',
+                        '```',
+                    ].join('\n'),
+                )
+            })
+
+            test('renders build and deploy with a pipeline diagram', async () => {
+                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const mockContent = {
+                    title: 'Test Title',
+                    headline: 'Test Headline',
+                    sections: {
+                        overview: 'Test Overview',
+                        architecture: 'Test Architecture',
+                        features: [],
+                        technical: [],
+                        roadmap: [],
+                    },
+                    diagrams: {},
+                }
+                const context: ProjectContext = {
+                    ...mockContext,
+                    infrastructure: {
+                        pipelines: [
+                            {
+                                provider: 'github-actions',
+                                path: '.github/workflows/ci.yml',
+                                name: 'CI',
+                                triggers: ['push'],
+                                jobs: [
+                                    { id: 'test', needs: [] },
+                                    {
+                                        id: 'deploy',
+                                        name: 'Deploy',
+                                        needs: ['test'],
+                                    },
+                                ],
+                            },
+                        ],
+                        containers: [
+                            {
+                                path: 'Dockerfile',
+                                baseImages: ['node:20'],
+                                ports: [],
+                            },
+                        ],
+                        compose: [],
+                        terraform: {
+                            providers: ['aws'],
+                            resources: 3,
+                            modules: [],
+                        },
+                        kubernetes: [],
+                        deployments: [
+                            { platform: 'vercel', path: 'vercel.json' },
+                        ],
+                    },
+                }
+
+                const output = await generator['generateOutput'](
+                    mockContent,
+                    context,
+                )
+
+                expect(output.markdown).toContain(
+                    [
+                        '# Build & Deploy',
+                        '',
+                        '- **CI** — GitHub Actions: CI (push)',
+                        '- **Containers** — node:20',
+                        '- **Terraform** — 3 resources (aws)',
+                        '- **Hosting** — vercel',
+                    ].join('\n'),
+                )
+                expect(output.markdown).toContain(
+                    [
+                        '```mermaid',
+                        'graph LR',
+                        '    n0["on push"]',
+                        '    n1["test"]',
+                        '    n2["Deploy"]',
+                        '    n0 --> n1',
+                        '    n1 --> n2',
+                        '```',
+                    ].join('\n'),
+                )
+            })
+
+            test('renders known gaps with file:line citations', async () => {
+                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const mockContent = {
+                    title: 'Test Title',
+                    headline: 'Test Headline',
+                    sections: {
+                        overview: 'Test Overview',
+                        architecture: 'Test Architecture',
+                        features: [],
+                        technical: [],
+                        roadmap: ['Implement streaming (`src/parser.ts:3`)'],
+                    },
+                    diagrams: {},
+                }
+                const context: ProjectContext = {
+                    ...mockContext,
+                    technicalDebt: {
+                        total: 3,
+                        counts: { todo: 2, unimplemented: 1 },
+                        modules: [
+                            {
+                                module: 'src',
+                                count: 2,
+                                markers: [
+                                    {
+                                        kind: 'unimplemented',
+                                        path: 'src/parser.ts',
+                                        line: 3,
+                                        text: "throw new Error('Not implemented')",
+                                    },
+                                    {
+                                        kind: 'todo',
+                                        path: 'src/parser.ts',
+                                        line: 1,
+                                        text: 'support streams',
+                                    },
+                                ],
+                            },
+                            {
+                                module: '.',
+                                count: 1,
+                                markers: [
+                                    {
+                                        kind: 'todo',
+                                        path: 'index.ts',
+                                        line: 7,
+                                        text: '',
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                }
+
+                const output = await generator['generateOutput'](
+                    mockContent,
+                    context,
+                )
+
+                expect(output.markdown).toContain(
+                    [
+                        '# Known Gaps',
+                        '',
+                        '3 markers: 1 stub, 2 TODO',
+                        '',
+                        '- `src`',
+                        '  - **Not implemented** (`src/parser.ts:3`)',
+                        '  - **TODO** support streams (`src/parser.ts:1`)',
+                        '- `/`',
+                        '  - **TODO** (`index.ts:7`)',
+                    ].join('\n'),
+                )
+                // Known gaps lead into the roadmap
+                expect(output.markdown.indexOf('# Known Gaps')).toBeLessThan(
+                    output.markdown.indexOf('# Roadmap'),
+                )
+            })
+
+            test('renders project identity on the cover and closing slides', async () => {
+                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const mockContent = {
+                    title: 'Slidev Gen Overview',
+                    headline: 'Slides from code',
+                    sections: {
+                        overview: 'Test Overview',
+                        architecture: 'Test Architecture',
+                        features: [],
+                        technical: [],
+                        roadmap: [],
+                    },
+                    diagrams: {},
+                }
+                const context: ProjectContext = {
+                    ...mockContext,
+                    metadata: {
+                        name: 'slidev-gen',
+                        version: '1.2.0',
+                        keywords: ['slides'],
+                        license: 'MIT',
+                        licenseFile: 'LICENSE',
+                        author: 'Jane Doe',
+                        repository: 'https://github.com/acme/slidev-gen',
+                        homepage: 'https://github.com/acme/slidev-gen',
+                        engines: { node: '>=18' },
+                        entryPoints: ['dist/cli.js'],
+                    },
+                }
+
+                const output = await generator['generateOutput'](
+                    mockContent,
+                    context,
+                )
+
+                expect(output.markdown).toContain(
+                    [
+                        '# slidev-gen',
+                        '',
+                        'Slides from code',
+                        '',
+                        '<small>`slidev-gen` · v1.2.0 · MIT</small>',
+                    ].join('\n'),
+                )
+                expect(output.markdown).toEndWith(
+                    [
+                        '# Learn More',
+                        '',
+                        '- **Repository** — https://github.com/acme/slidev-gen',
+                        '- **License** — MIT (`LICENSE`)',
+                        '- **Author** — Jane Doe',
+                        '- **Contributors** — Test User',
+                        '- **Requires** — node >=18',
+                        '- **Entry points** — `dist/cli.js`',
+                        '- **Keywords** — slides',
+                    ].join('\n'),
+                )
+            })
+
             test('handles missing diagrams gracefully', async () => {
                 const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
                 const mockContent = {
@@ -173,6 +934,255 @@ describe('SlidesGenerator', () => {
                 expect(output.markdown).not.toContain('```mermaid')
                 expect(output.markdown).toContain('Test Title')
             })
+
+            test('skips overview and architecture without content', async () => {
+                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const mockContent = {
+                    title: 'Test Title',
+                    headline: 'Test Headline',
+                    sections: {
+                        overview: '',
+                        architecture: '',
+                        features: ['Feature 1'],
+                        technical: [],
+                        roadmap: [],
+                    },
+                    diagrams: {},
+                }
+
+                const output = await generator['generateOutput'](mockContent, {
+                    ...mockContext,
+                    warnings: [
+                        {
+                            stage: 'codebase',
+                            message: 'Failed to analyze codebase: EACCES',
+                        },
+                    ],
+                })
+
+                expect(output.markdown).not.toContain('# Overview')
+                expect(output.markdown).not.toContain('# Architecture')
+                expect(output.markdown).toContain('Feature 1')
+            })
+        })
+
+        describe('generateReleaseOutput', () => {
+            test('renders release sections from categorized commits', () => {
+                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const commit = (
+                    shortHash: string,
+                    subject: string,
+                    fields: Partial<ReleaseCommit> = {},
+                ): ReleaseCommit => ({
+                    hash: shortHash.padEnd(40, '0'),
+                    shortHash,
+                    subject,
+                    author: 'Test User',
+                    date: '2025-01-02T00:00:00Z',
+                    description: subject,
+                    breaking: false,
+                    ...fields,
+                })
+                const breaking = commit(
+                    'aaa1111',
+                    'refactor!: rename options',
+                    {
+                        type: 'refactor',
+                        description: 'rename options',
+                        breaking: true,
+                    },
+                )
+                const feature = commit('bbb2222', 'feat(cli): add release', {
+                    type: 'feat',
+                    scope: 'cli',
+                    description: 'add release',
+                })
+                const fix = commit('ccc3333', 'fix: handle empty ranges', {
+                    type: 'fix',
+                    description: 'handle empty ranges',
+                })
+
+                const output = generator['generateReleaseOutput']({
+                    from: 'v1.0.0',
+                    to: 'v1.1.0',
+                    date: '2025-01-02T00:00:00Z',
+                    commits: [breaking, feature, fix],
+                    changedFiles: [
+                        { path: 'src/cli.ts', insertions: 10, deletions: 2 },
+                        { path: 'README.md', insertions: 1, deletions: 0 },
+                    ],
+                    contributors: [
+                        {
+                            name: 'Test User',
+                            email: 'test@example.com',
+                            commits: 3,
+                        },
+                    ],
+                    categories: {
+                        breaking: [breaking],
+                        features: [feature],
+                        fixes: [fix],
+                        other: [],
+                    },
+                })
+
+                expect(output.markdown).toContain('# Release v1.1.0')
+                expect(output.markdown).toContain(
+                    'Changes since v1.0.0 · 2025-01-02',
+                )
+                expect(output.markdown).toContain(
+                    '- 3 commits from 1 contributor',
+                )
+                expect(output.markdown).toContain(
+                    '- 2 files changed (+11 / -2)',
+                )
+                expect(output.markdown).toContain('- 1 new feature, 1 fix')
+                expect(output.markdown).toContain(
+                    'Most active areas: `src`, `/`',
+                )
+                expect(output.markdown).toContain(
+                    '- rename options (`aaa1111`)',
+                )
+                expect(output.markdown).toContain(
+                    '- **cli:** add release (`bbb2222`)',
+                )
+                expect(output.markdown).toContain(
+                    '- handle empty ranges (`ccc3333`)',
+                )
+                expect(output.markdown).toContain('- Test User (3 commits)')
+            })
+        })
+
+        describe('generateReviewOutput', () => {
+            test('renders modules, structure, hunks and open questions', () => {
+                const generator = new SlidesGenerator(TEST_OUTPUT_DIR)
+                const output = generator['generateReviewOutput'](
+                    {
+                        title: 'Add logging',
+                        summary: 'Adds a logging module.',
+                        openQuestions: ['Should logging be configurable?'],
+                    },
+                    {
+                        base: 'main',
+                        head: 'feature',
+                        mergeBase: 'abc1234',
+                        commits: [
+                            {
+                                shortHash: 'def5678',
+                                subject: 'Add logging module',
+                                author: 'Test User',
+                            },
+                        ],
+                        files: [
+                            {
+                                path: 'src/core/run.ts',
+                                status: 'modified',
+                                insertions: 2,
+                                deletions: 1,
+                                module: 'src/core',
+                            },
+                        ],
+                        modules: [
+                            {
+                                path: 'src/core',
+                                status: 'modified',
+                                files: 1,
+                                insertions: 2,
+                                deletions: 1,
+                            },
+                        ],
+                        hunks: [
+                            {
+                                path: 'src/core/run.ts',
+                                header: '@@ -1,3 +1,4 @@',
+                                language: 'ts',
+                                newStart: 1,
+                                lines: [
+                                    {
+                                        type: 'added',
+                                        content:
+                                            "import { log } from '../logging/logger'",
+                                    },
+                                    {
+                                        type: 'context',
+                                        content: 'export function run() {',
+                                    },
+                                    {
+                                        type: 'removed',
+                                        content: '    console.log("run")',
+                                    },
+                                    {
+                                        type: 'added',
+                                        content: "    log('run')",
+                                    },
+                                    { type: 'context', content: '}' },
+                                ],
+                            },
+                            {
+                                path: 'src/core/old.ts',
+                                header: '@@ -1 +0,0 @@',
+                                language: 'ts',
+                                newStart: 0,
+                                lines: [{ type: 'removed', content: 'old()' }],
+                            },
+                        ],
+                        structure: {
+                            before: { modules: ['src/core'], edges: [] },
+                            after: {
+                                modules: ['src/core', 'src/logging'],
+                                edges: [['src/core', 'src/logging']],
+                            },
+                        },
+                    },
+                )
+
+                expect(output.markdown).toContain('# Add logging')
+                expect(output.markdown).toContain(
+                    'main...feature · 1 commit, 1 file (+2 / -1)',
+                )
+                expect(output.markdown).toContain(
+                    '| `src/core` | modified | 1 | +2 / -1 |',
+                )
+                expect(output.markdown).toContain(
+                    [
+                        '---',
+                        'layout: two-cols',
+                        '---',
+                        '',
+                        '# Before',
+                        '',
+                        '```mermaid',
+                        'graph LR',
+                        '    n0["src/core"]',
+                        '```',
+                        '',
+                        '::right::',
+                        '',
+                        '# After',
+                        '',
+                        '```mermaid',
+                        'graph LR',
+                        '    n0["src/core"]',
+                        '    n1["src/logging"]',
+                        '    n0 --> n1',
+                        '```',
+                    ].join('\n'),
+                )
+                expect(output.markdown).toContain(
+                    [
+                        '```ts {1,3}',
+                        "import { log } from '../logging/logger'",
+                        'export function run() {',
+                        "    log('run')",
+                        '}',
+                        '```',
+                    ].join('\n'),
+                )
+                expect(output.markdown).toContain('```diff\n-old()\n```')
+                expect(output.markdown).toContain(
+                    '- Should logging be configurable?',
+                )
+            })
         })
 
         describe('writeOutput', () => {
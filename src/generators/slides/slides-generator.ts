@@ -1,48 +1,425 @@
 import { mkdir, writeFile } from 'node:fs/promises'
-import { join } from 'node:path'
+import { dirname, join } from 'node:path'
 
-import { createOpenAI } from '@ai-sdk/openai'
-import { generateObject } from 'ai'
 import dedent from 'dedent'
 import { execa } from 'execa'
+import { z } from 'zod'
 
+import { compactContext, compactDocuments } from '../../llm/budget'
+import { contentSources } from '../../llm/egress'
+import { createResponseCache } from '../../llm/response-cache'
+import { ModelRouter } from '../../llm/router'
+import {
+    createMermaidGraph,
+    normalizeMermaid,
+    validateMermaid,
+} from './mermaid'
 import {
     createSlide,
     defaultConfig,
     templates,
 } from './templates/slide-templates'
-import { slideContentSchema } from './types'
+import { reviewContentSchema, slideContentSchema } from './types'
 
-import type { ProjectContext } from '../../context/types'
-import type { SlideContent, SlideOutput, SlideTemplateData } from './types'
+import type { ProjectConfig } from '../../config/types'
+import type {
+    DebtMarker,
+    Infrastructure,
+    ModuleGraph,
+    Pipeline,
+    ProjectContext,
+    ProjectMetadata,
+    Quality,
+    ReleaseCommit,
+    ReleaseContext,
+    RetrievedChunk,
+    ReviewContext,
+    ReviewHunk,
+    TechnicalDebt,
+} from '../../context/types'
+import type { CompactionReport, PromptContext } from '../../llm/budget'
+import type { EgressLog, EgressSource } from '../../llm/egress'
+import type {
+    ReviewContent,
+    SlideContent,
+    SlideOutput,
+    SlideTemplateData,
+} from './types'
 
-export class SlidesGenerator {
-    private openai: ReturnType<typeof createOpenAI> | undefined
+type RetrievedSection = keyof NonNullable<ProjectContext['retrieval']>
 
-    constructor(
-        private readonly outputDir: string,
-        private readonly apiKey?: string,
-    ) {}
-
-    private initializeOpenAI(): ReturnType<typeof createOpenAI> {
-        if (!this.openai) {
-            const key = this.resolveApiKey(this.apiKey)
-            this.openai = createOpenAI({
-                apiKey: key,
-                compatibility: 'strict',
-            })
+// Sections written from their own retrieved chunks, one call each
+const { architecture, features, technical } =
+    slideContentSchema.shape.sections.shape
+const retrievedSectionSchemas: Record<
+    RetrievedSection,
+    z.Schema<Partial<SlideContent['sections']>>
+> = {
+    architecture: z.object({ architecture }),
+    features: z.object({ features }),
+    technical: z.object({ technical }),
+}
+
+/**
+ * Renders a module graph as mermaid, labelling the root module `/`.
+ */
+function renderModuleGraph(graph: ModuleGraph, direction: 'TD' | 'LR'): string {
+    const label = (module: string) => (module === '.' ? '/' : module)
+    return createMermaidGraph(
+        graph.modules.map(label),
+        graph.edges.map(([from, to]): [string, string] => [
+            label(from),
+            label(to),
+        ]),
+        direction,
+    )
+}
+
+function plural(count: number, word: string, words = `${word}s`): string {
+    return `${count} ${count === 1 ? word : words}`
+}
+
+const ciProviders: Record<Pipeline['provider'], string> = {
+    'github-actions': 'GitHub Actions',
+    'gitlab-ci': 'GitLab CI',
+}
+
+/**
+ * One summary line per detected area of the build and deploy setup.
+ */
+function summarizeInfrastructure(infrastructure: Infrastructure): string[] {
+    const summary: string[] = []
+    const list = (items: string[]) => [...new Set(items)].join(', ')
+
+    const pipelines = Object.entries(ciProviders).flatMap(
+        ([provider, label]) => {
+            const matching = infrastructure.pipelines.filter(
+                pipeline => pipeline.provider === provider,
+            )
+            if (matching.length === 0) return []
+            return `${label}: ${matching
+                .map(pipeline =>
+                    pipeline.triggers.length
+                        ? `${pipeline.name} (${pipeline.triggers.join(', ')})`
+                        : pipeline.name,
+                )
+                .join(', ')}`
+        },
+    )
+    if (pipelines.length > 0) summary.push(`**CI** — ${pipelines.join('; ')}`)
+
+    if (infrastructure.containers.length > 0) {
+        summary.push(
+            `**Containers** — ${list(infrastructure.containers.flatMap(container => container.baseImages))}`,
+        )
+    }
+    const services = infrastructure.compose.flatMap(file => file.services)
+    if (services.length > 0) {
+        summary.push(`**Compose** — ${list(services)}`)
+    }
+    if (infrastructure.terraform) {
+        const { providers, resources } = infrastructure.terraform
+        summary.push(
+            `**Terraform** — ${plural(resources, 'resource')}${providers.length ? ` (${providers.join(', ')})` : ''}`,
+        )
+    }
+    if (infrastructure.kubernetes.length > 0) {
+        summary.push(
+            `**Kubernetes** — ${list(infrastructure.kubernetes.flatMap(file => file.kinds))}`,
+        )
+    }
+    if (infrastructure.deployments.length > 0) {
+        summary.push(
+            `**Hosting** — ${list(infrastructure.deployments.map(deployment => deployment.platform))}`,
+        )
+    }
+    return summary
+}
+
+/**
+ * Renders CI pipelines as mermaid: triggers start the jobs without
+ * dependencies, the others follow their `needs`. Job names are prefixed
+ * with the pipeline name when there are several pipelines.
+ */
+function renderPipelines(pipelines: Pipeline[]): string | undefined {
+    const withJobs = pipelines.filter(pipeline => pipeline.jobs.length > 0)
+    if (withJobs.length === 0) return undefined
+
+    const labels: string[] = []
+    const edges: Array<[string, string]> = []
+    for (const pipeline of withJobs) {
+        const prefix = withJobs.length > 1 ? `${pipeline.name}: ` : ''
+        const label = (id: string) => {
+            const job = pipeline.jobs.find(job => job.id === id)
+            return `${prefix}${job?.name ?? id}`
+        }
+        const trigger = pipeline.triggers.length
+            ? `${prefix}on ${pipeline.triggers.join(', ')}`
+            : undefined
+
+        if (trigger) labels.push(trigger)
+        for (const job of pipeline.jobs) {
+            labels.push(label(job.id))
+            if (job.needs.length === 0 && trigger) {
+                edges.push([trigger, label(job.id)])
+            }
+            for (const need of job.needs) {
+                edges.push([label(need), label(job.id)])
+            }
         }
-        return this.openai
     }
+    return createMermaidGraph([...new Set(labels)], edges, 'LR')
+}
 
-    private resolveApiKey(providedKey?: string): string {
-        const key = providedKey ?? process.env.OPENAI_API_KEY
-        if (!key) {
-            throw new Error(
-                'OpenAI API key must be provided either as constructor argument or in process.env.OPENAI_API_KEY',
+/**
+ * Headline numbers of the quality slide. Empty when there is nothing to
+ * report, e.g. no tests and no tooling.
+ */
+function summarizeQuality(quality: Quality): string[] {
+    const stats: string[] = []
+    if (quality.testFiles > 0) {
+        const frameworks = quality.testFrameworks.length
+            ? ` (${quality.testFrameworks.join(', ')})`
+            : ''
+        stats.push(
+            `**Tests** — ${plural(quality.testFiles, 'file')}, ${plural(quality.testCases, 'case')}${frameworks}`,
+        )
+    }
+    if (quality.coverage) {
+        const { lines, functions, branches } = quality.coverage
+        const metrics = Object.entries({ lines, functions, branches })
+            .filter(([, value]) => value !== undefined)
+            .map(([metric, value]) => `${value}% ${metric}`)
+        if (metrics.length > 0) {
+            stats.push(`**Coverage** — ${metrics.join(', ')}`)
+        }
+    }
+    for (const [kind, label] of [
+        ['lint', 'Linting'],
+        ['format', 'Formatting'],
+    ] as const) {
+        const tools = quality.tooling.filter(tool => tool.kind === kind)
+        if (tools.length > 0) {
+            stats.push(
+                `**${label}** — ${tools.map(tool => tool.name).join(', ')}`,
             )
         }
-        return key
+    }
+    return stats
+}
+
+// Contributors named on the closing slide
+const MAX_CREDITED_CONTRIBUTORS = 5
+
+/**
+ * Cover line and closing slide details from the project metadata. The
+ * closing slide also credits the top contributors from git history.
+ */
+function summarizeMetadata(
+    metadata: ProjectMetadata | undefined,
+    contributors: string[],
+): NonNullable<SlideTemplateData['project']> {
+    const engines = Object.entries(metadata?.engines ?? {}).map(
+        ([runtime, range]) => `${runtime} ${range}`,
+    )
+    const identity = [
+        metadata?.name && `\`${metadata.name}\``,
+        metadata?.version && `v${metadata.version}`,
+        metadata?.license,
+    ]
+        .filter(Boolean)
+        .join(' · ')
+
+    const credited = contributors.slice(0, MAX_CREDITED_CONTRIBUTORS)
+    const others = contributors.length - credited.length
+    const license = metadata?.license ?? 'unknown license'
+    const details = [
+        metadata?.repository && `**Repository** — ${metadata.repository}`,
+        metadata?.homepage &&
+            metadata.homepage !== metadata.repository &&
+            `**Homepage** — ${metadata.homepage}`,
+        (metadata?.license || metadata?.licenseFile) &&
+            `**License** — ${license}${metadata.licenseFile ? ` (\`${metadata.licenseFile}\`)` : ''}`,
+        metadata?.author && `**Author** — ${metadata.author}`,
+        credited.length > 0 &&
+            `**Contributors** — ${credited.join(', ')}${others > 0 ? ` and ${plural(others, 'other')}` : ''}`,
+        engines.length > 0 && `**Requires** — ${engines.join(', ')}`,
+        metadata?.entryPoints.length &&
+            !metadata.private &&
+            `**Entry points** — ${metadata.entryPoints.map(entry => `\`${entry}\``).join(', ')}`,
+        metadata?.keywords.length &&
+            `**Keywords** — ${metadata.keywords.join(', ')}`,
+    ].filter((detail): detail is string => typeof detail === 'string')
+
+    return { identity: identity || undefined, details }
+}
+
+// Label of a marker, and the words counting markers of its kind
+const debtLabels: Record<
+    DebtMarker['kind'],
+    [label: string, word: string, words: string]
+> = {
+    unimplemented: ['Not implemented', 'stub', 'stubs'],
+    fixme: ['FIXME', 'FIXME', 'FIXME'],
+    hack: ['HACK', 'HACK', 'HACK'],
+    deprecated: ['Deprecated', 'deprecation', 'deprecations'],
+    xxx: ['XXX', 'XXX', 'XXX'],
+    todo: ['TODO', 'TODO', 'TODO'],
+}
+
+// Modules and markers per module that fit on the known gaps slide
+const MAX_GAP_MODULES = 4
+const MAX_GAPS_PER_MODULE = 2
+
+/**
+ * Known gaps slide: marker counts, then the modules with the most markers
+ * and their most pressing markers, cited as `path:line`.
+ */
+function summarizeDebt(
+    debt: TechnicalDebt,
+): NonNullable<SlideTemplateData['knownGaps']> {
+    const counts = (Object.keys(debtLabels) as DebtMarker['kind'][])
+        .filter(kind => debt.counts[kind])
+        .map(kind => {
+            const [, word, words] = debtLabels[kind]
+            return plural(debt.counts[kind], word, words)
+        })
+
+    return {
+        summary: `${plural(debt.total, 'marker')}: ${counts.join(', ')}`,
+        modules: debt.modules.slice(0, MAX_GAP_MODULES).map(module => ({
+            module: module.module,
+            items: module.markers.slice(0, MAX_GAPS_PER_MODULE).map(marker => {
+                const label = `**${debtLabels[marker.kind][0]}**`
+                const text =
+                    marker.kind === 'unimplemented' || !marker.text
+                        ? ''
+                        : ` ${marker.text}`
+                return `${label}${text} (\`${marker.path}:${marker.line}\`)`
+            }),
+        })),
+    }
+}
+
+/**
+ * Prompt note scoping a focused deck to its part of the project. Empty
+ * for decks about the whole project.
+ */
+function focusNote(context: ProjectContext): string {
+    if (!context.focus) return ''
+    return `This presentation is only about ${context.focus.path}, which the context is scoped to. Use focus.project to place it within the wider project, but keep every section about ${context.focus.path}.`
+}
+
+/**
+ * Prompt note on the analysis stages that came back empty, so the model
+ * leaves out the sections that depend on them. Empty without warnings.
+ */
+function missingData(context: ProjectContext): string {
+    const warnings = context.warnings ?? []
+    if (warnings.length === 0) return ''
+    const stages = warnings
+        .map(warning => `${warning.stage} (${warning.message})`)
+        .join(', ')
+    return `Some project data is unavailable: ${stages}. Leave out or shorten the sections that would depend on it instead of guessing.`
+}
+
+/**
+ * Files the prompt context holds content or facts from, for the egress
+ * manifest. Structured entries are counted as they are serialized.
+ */
+function promptSources(context: PromptContext): EgressSource[] {
+    const entry = (path: string, value: unknown) => ({
+        path,
+        content: JSON.stringify(value),
+    })
+    const infrastructure = context.infrastructure
+    const coverage = context.quality?.coverage
+    return contentSources([
+        context.documentation.readme,
+        ...context.documentation.additionalDocs,
+        ...context.codebase.importantFiles,
+        ...context.dependencies.manifests.map(manifest =>
+            entry(manifest.path, manifest),
+        ),
+        ...(context.workspace?.packages ?? []).map(pkg =>
+            entry(`${pkg.path}/package.json`, pkg),
+        ),
+        ...(context.publicApi ?? []).map(file =>
+            entry(file.path, file.exports),
+        ),
+        ...(context.usage?.examples ?? []).map(example => ({
+            path: example.source,
+            content: example.code,
+        })),
+        ...(infrastructure
+            ? [
+                  ...infrastructure.pipelines,
+                  ...infrastructure.containers,
+                  ...infrastructure.compose,
+                  ...infrastructure.kubernetes,
+                  ...infrastructure.deployments,
+              ].map(item => entry(item.path, item))
+            : []),
+        ...(coverage ? [entry(coverage.report, coverage)] : []),
+        ...(context.technicalDebt?.modules ?? []).flatMap(module =>
+            module.markers.map(marker => ({
+                path: `${marker.path}:${marker.line}`,
+                content: marker.text,
+            })),
+        ),
+    ])
+}
+
+/**
+ * Shows the post-change code with added lines highlighted. Hunks that only
+ * remove code are shown as a diff instead.
+ */
+function renderHunk(hunk: ReviewHunk): NonNullable<SlideTemplateData['hunk']> {
+    const hasAdditions = hunk.lines.some(line => line.type === 'added')
+    if (!hasAdditions) {
+        return {
+            path: hunk.path,
+            header: hunk.header,
+            language: 'diff',
+            code: hunk.lines
+                .map(
+                    line =>
+                        `${line.type === 'removed' ? '-' : ' '}${line.content}`,
+                )
+                .join('\n'),
+            highlights: [],
+        }
+    }
+
+    const lines = hunk.lines.filter(line => line.type !== 'removed')
+    return {
+        path: hunk.path,
+        header: hunk.header,
+        language: hunk.language,
+        code: lines.map(line => line.content).join('\n'),
+        highlights: lines.flatMap((line, index) =>
+            line.type === 'added' ? [index + 1] : [],
+        ),
+    }
+}
+
+export class SlidesGenerator {
+    private readonly router: ModelRouter
+
+    constructor(
+        private readonly outputDir: string,
+        private readonly apiKey?: string,
+        private readonly config: Partial<ProjectConfig> = {},
+        private readonly egress?: EgressLog,
+    ) {
+        this.router = new ModelRouter(
+            config,
+            apiKey,
+            undefined,
+            // Responses are recorded next to the slides they produced
+            createResponseCache({ slidesPath: outputDir, ...config }),
+            egress,
+        )
     }
 
     private async ensureSlidevInstalled(): Promise<void> {
@@ -67,10 +444,27 @@ export class SlidesGenerator {
         }
     }
 
+    /**
+     * Runs a generation and writes the egress manifest afterwards, also when
+     * it fails, so requests of failed model attempts are accounted for.
+     */
+    private async withEgressManifest<T>(
+        generate: () => Promise<T>,
+    ): Promise<T> {
+        try {
+            return await generate()
+        } finally {
+            await this.egress?.write(join(this.outputDir, 'egress.json'))
+        }
+    }
+
     async generate(context: ProjectContext): Promise<SlideOutput> {
-        const content = await this.generateContent(context)
-        const output = await this.generateOutput(content)
-        await this.writeOutput(output)
+        const output = await this.withEgressManifest(async () => {
+            const content = await this.generateContent(context)
+            const output = await this.generateOutput(content, context)
+            await this.writeOutput(output)
+            return output
+        })
 
         // Return the paths to the generated files along with the output
         return {
@@ -82,6 +476,210 @@ export class SlidesGenerator {
         }
     }
 
+    /**
+     * Renders a release deck (highlights, breaking changes, new features,
+     * fixes, thanks) from the commits between two revisions. The deck is
+     * built from git metadata alone, so no LLM call is made.
+     */
+    async generateRelease(release: ReleaseContext): Promise<SlideOutput> {
+        return this.withEgressManifest(async () => {
+            const output = this.generateReleaseOutput(release)
+            await this.writeOutput(output)
+            return output
+        })
+    }
+
+    private generateReleaseOutput(release: ReleaseContext): SlideOutput {
+        const { breaking, features, fixes, other } = release.categories
+        const formatCommit = (commit: ReleaseCommit) =>
+            `${commit.scope ? `**${commit.scope}:** ` : ''}${commit.description} (\`${commit.shortHash}\`)`
+
+        const insertions = release.changedFiles.reduce(
+            (total, file) => total + file.insertions,
+            0,
+        )
+        const deletions = release.changedFiles.reduce(
+            (total, file) => total + file.deletions,
+            0,
+        )
+
+        // Directories with the most changed lines
+        const areas = new Map<string, number>()
+        for (const file of release.changedFiles) {
+            const area = dirname(file.path)
+            areas.set(
+                area,
+                (areas.get(area) ?? 0) + file.insertions + file.deletions,
+            )
+        }
+        const topAreas = [...areas.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, 3)
+            .map(([area]) => `\`${area === '.' ? '/' : area}\``)
+
+        const highlights = [
+            `${plural(release.commits.length, 'commit')} from ${plural(release.contributors.length, 'contributor')}`,
+            `${plural(release.changedFiles.length, 'file')} changed (+${insertions} / -${deletions})`,
+            `${plural(features.length, 'new feature')}, ${plural(fixes.length, 'fix', 'fixes')}`,
+            ...(breaking.length > 0
+                ? [`${plural(breaking.length, 'breaking change')}`]
+                : []),
+            ...(other.length > 0
+                ? [`${plural(other.length, 'other change')}`]
+                : []),
+            ...(topAreas.length > 0
+                ? [`Most active areas: ${topAreas.join(', ')}`]
+                : []),
+        ]
+
+        const templateData: SlideTemplateData = {
+            title: `Release ${release.to}`,
+            headline: [
+                `Changes since ${release.from}`,
+                release.date?.slice(0, 10),
+            ]
+                .filter(Boolean)
+                .join(' · '),
+            release: {
+                highlights,
+                breaking: breaking.map(formatCommit),
+                features: features.map(formatCommit),
+                fixes: fixes.map(formatCommit),
+                contributors: release.contributors.map(
+                    contributor =>
+                        `${contributor.name} (${plural(contributor.commits, 'commit')})`,
+                ),
+            },
+        }
+
+        const slides = [
+            createSlide(templates.cover, templateData),
+            createSlide(templates.releaseHighlights, templateData),
+            createSlide(templates.breakingChanges, templateData),
+            createSlide(templates.newFeatures, templateData),
+            createSlide(templates.fixes, templateData),
+            createSlide(templates.thanks, templateData),
+        ]
+
+        return {
+            markdown: slides.filter(Boolean).join('\n\n'),
+            assets: [],
+            config: defaultConfig,
+            paths: {
+                slides: join(this.outputDir, 'slides.md'),
+                config: join(this.outputDir, 'slidev.config.ts'),
+            },
+        }
+    }
+
+    /**
+     * Renders a code review deck for a branch diff: summary, touched
+     * modules, module structure before/after, key hunks and open questions.
+     */
+    async generateReview(review: ReviewContext): Promise<SlideOutput> {
+        return this.withEgressManifest(async () => {
+            const content = await this.generateReviewContent(review)
+            const output = this.generateReviewOutput(content, review)
+            await this.writeOutput(output)
+            return output
+        })
+    }
+
+    private async generateReviewContent(
+        review: ReviewContext,
+    ): Promise<ReviewContent> {
+        // In dry-run mode, return mock content
+        if (this.apiKey === 'dry-run') {
+            return {
+                title: `Review of ${review.head}`,
+                summary: 'Mock summary for dry run',
+                openQuestions: ['Mock Question 1', 'Mock Question 2'],
+            }
+        }
+
+        return this.router.generateObject('contentGeneration', {
+            system: dedent`
+                You are a senior engineer preparing a design review. Explain changes clearly and raise the questions that matter for the design.
+            `,
+            prompt: dedent`
+                Generate review slide content for the following branch diff.
+                Base the summary and questions only on the commits, files, modules and hunks provided.
+
+                ${JSON.stringify(review)}
+            `,
+            schema: reviewContentSchema,
+            sources: contentSources(
+                review.hunks.map(hunk => ({
+                    path: hunk.path,
+                    content: hunk.lines.map(line => line.content).join('\n'),
+                })),
+            ),
+        })
+    }
+
+    private generateReviewOutput(
+        content: ReviewContent,
+        review: ReviewContext,
+    ): SlideOutput {
+        const insertions = review.files.reduce(
+            (total, file) => total + file.insertions,
+            0,
+        )
+        const deletions = review.files.reduce(
+            (total, file) => total + file.deletions,
+            0,
+        )
+
+        const templateData: SlideTemplateData = {
+            title: content.title,
+            headline: `${review.base}...${review.head} · ${plural(review.commits.length, 'commit')}, ${plural(review.files.length, 'file')} (+${insertions} / -${deletions})`,
+            overview: content.summary,
+            review: {
+                modules: review.modules,
+                openQuestions: content.openQuestions,
+            },
+            structure: review.structure && {
+                before: renderModuleGraph(review.structure.before, 'LR'),
+                after: renderModuleGraph(review.structure.after, 'LR'),
+            },
+        }
+
+        const slides = [
+            createSlide(templates.cover, templateData),
+            createSlide(templates.overview, templateData),
+            createSlide(templates.touchedModules, templateData),
+            createSlide(templates.moduleStructure, templateData),
+            ...review.hunks.map(hunk =>
+                createSlide(templates.codeHunk, { hunk: renderHunk(hunk) }),
+            ),
+            createSlide(templates.openQuestions, templateData),
+        ]
+
+        return {
+            markdown: slides.filter(Boolean).join('\n\n'),
+            assets: [],
+            config: defaultConfig,
+            paths: {
+                slides: join(this.outputDir, 'slides.md'),
+                config: join(this.outputDir, 'slidev.config.ts'),
+            },
+        }
+    }
+
+    /**
+     * Fits the context into the prompt budget of the content generation
+     * models, reporting what was truncated or dropped.
+     */
+    compact(context: ProjectContext): {
+        context: PromptContext
+        report: CompactionReport
+    } {
+        return compactContext(context, {
+            models: this.router.getModelChain('contentGeneration'),
+            ...this.config.budget,
+        })
+    }
+
     private async generateContent(
         context: ProjectContext,
     ): Promise<SlideContent> {
@@ -90,9 +688,11 @@ export class SlidesGenerator {
             return {
                 headline: 'Mock headline for dry run',
                 title:
-                    context.documentation.readme.content
+                    context.metadata?.name ??
+                    (context.documentation.readme.content
                         .split('\n')[0]
-                        .replace('# ', '') || 'Project Overview',
+                        .replace('# ', '') ||
+                        'Project Overview'),
                 sections: {
                     overview: 'Mock overview for dry run',
                     architecture: 'Mock architecture description',
@@ -110,9 +710,9 @@ export class SlidesGenerator {
             }
         }
 
-        const openai = this.initializeOpenAI()
-        const { object } = await generateObject({
-            model: openai('gpt-4o-mini'),
+        // Retrieved chunks go to the calls of their sections instead
+        const promptContext = this.compact(context).context
+        const content = await this.router.generateObject('contentGeneration', {
             system: dedent`
                 You are a technical presentation expert. Generate clear, concise slides that effectively communicate technical concepts.
             `,
@@ -120,29 +720,181 @@ export class SlidesGenerator {
                 Generate presentation data based on the following project context.
                 
                 Remember to format all text with proper newlines and spacing for readability.
-                
-                ${JSON.stringify(context)}
+                When describing the API, rely on the extracted publicApi exports, signatures and summaries rather than guessing.
+                ${[focusNote(context), missingData(context)].filter(Boolean).join('\n')}
+                ${JSON.stringify(promptContext)}
             `,
             schema: slideContentSchema,
+            sources: promptSources(promptContext),
+        })
+
+        const written = await Promise.all(
+            (Object.keys(retrievedSectionSchemas) as RetrievedSection[])
+                .filter(
+                    section => (context.retrieval?.[section].length ?? 0) > 0,
+                )
+                .map(section =>
+                    this.generateRetrievedSection(section, content, context),
+                ),
+        )
+        const sections = Object.assign({ ...content.sections }, ...written)
+
+        // The import graph replaces the model's architecture diagram
+        return this.repairDiagrams({
+            ...content,
+            sections,
+            diagrams: context.codebase.importGraph
+                ? { ...content.diagrams, architecture: undefined }
+                : content.diagrams,
         })
+    }
+
+    /**
+     * Writes a section from the chunks retrieved for it, so each section's
+     * prompt holds the code relevant to it rather than every section's. The
+     * chunks get the call's whole budget, most relevant first. Returns no
+     * sections when the call fails, keeping the one written from the whole
+     * context.
+     */
+    private async generateRetrievedSection(
+        section: RetrievedSection,
+        content: SlideContent,
+        context: ProjectContext,
+    ): Promise<Partial<SlideContent['sections']>> {
+        const prompt = (chunks: RetrievedChunk[]) => dedent`
+            Write the ${section} section of a presentation about ${content.title} (${content.headline}).
+
+            ${content.sections.overview}
+
+            Remember to format all text with proper newlines and spacing for readability.
+            ${JSON.stringify({
+                // The architecture section describes the import graph too
+                codebase:
+                    section === 'architecture'
+                        ? { importGraph: context.codebase.importGraph }
+                        : undefined,
+                retrieval: { [section]: chunks },
+            })}
+        `
+        const { documents: chunks } = compactDocuments(
+            (context.retrieval?.[section] ?? []).map(chunk => ({
+                section: 'retrievedChunk' as const,
+                path: `${chunk.path}:${chunk.startLine}-${chunk.endLine}`,
+                document: chunk,
+            })),
+            {
+                models: this.router.getModelChain('contentGeneration'),
+                ...this.config.budget,
+                base: prompt([]),
+            },
+        )
+
+        try {
+            return await this.router.generateObject('contentGeneration', {
+                system: dedent`
+                    You are a technical presentation expert. Generate clear, concise slides that effectively communicate technical concepts.
+                `,
+                prompt: prompt(chunks),
+                schema: retrievedSectionSchemas[section],
+                sources: contentSources(chunks),
+            })
+        } catch (error) {
+            console.warn(`Failed to write the ${section} section:`, error)
+            return {}
+        }
+    }
 
-        return object as SlideContent
+    /**
+     * Normalizes generated mermaid diagrams and asks the diagram repair model
+     * to fix the ones that fail validation. Diagrams that can't be repaired
+     * are dropped rather than rendered broken.
+     */
+    private async repairDiagrams(content: SlideContent): Promise<SlideContent> {
+        const repair = async (diagram: string): Promise<string | undefined> => {
+            const normalized = normalizeMermaid(diagram)
+            const problems = validateMermaid(normalized)
+            if (problems.length === 0) return normalized
+
+            try {
+                const { diagram: repaired } = await this.router.generateObject(
+                    'diagramRepair',
+                    {
+                        system: dedent`
+                            You are a mermaid diagram expert. Fix syntax errors in diagrams while preserving their meaning.
+                        `,
+                        prompt: dedent`
+                            The following mermaid diagram is invalid:
+                            ${problems.map(problem => `- ${problem}`).join('\n')}
+
+                            Return the corrected diagram source without markdown fences.
+
+                            ${normalized}
+                        `,
+                        schema: z.object({
+                            diagram: z
+                                .string()
+                                .describe('The corrected mermaid diagram'),
+                        }),
+                    },
+                )
+                const result = normalizeMermaid(repaired)
+                return validateMermaid(result).length === 0 ? result : undefined
+            } catch (error) {
+                console.warn('Failed to repair mermaid diagram:', error)
+                return undefined
+            }
+        }
+
+        const architecture = content.diagrams.architecture
+            ? await repair(content.diagrams.architecture)
+            : undefined
+        const flowcharts = content.diagrams.flowcharts
+            ? (
+                  await Promise.all(content.diagrams.flowcharts.map(repair))
+              ).filter((diagram): diagram is string => diagram !== undefined)
+            : undefined
+
+        return {
+            ...content,
+            diagrams: { architecture, flowcharts },
+        }
     }
 
-    private async generateOutput(content: SlideContent): Promise<SlideOutput> {
+    private async generateOutput(
+        content: SlideContent,
+        context?: ProjectContext,
+    ): Promise<SlideOutput> {
         const slides: string[] = []
 
         // Convert SlideContent to SlideTemplateData format
         const templateData: SlideTemplateData = {
-            title: content.title,
+            // The package name wins over the model's wording
+            title: context?.metadata?.name ?? content.title,
             headline: content.headline,
+            project:
+                context &&
+                summarizeMetadata(context.metadata, context.git.contributors),
             overview: content.sections.overview,
             architecture: {
                 description: content.sections.architecture,
-                diagram: content.diagrams.architecture,
+                diagram: context?.codebase.importGraph
+                    ? renderModuleGraph(context.codebase.importGraph, 'TD')
+                    : content.diagrams.architecture,
             },
             features: content.sections.features,
             roadmap: content.sections.roadmap,
+            api: content.sections.api,
+            gettingStarted: context?.usage,
+            infrastructure: context?.infrastructure && {
+                summary: summarizeInfrastructure(context.infrastructure),
+                pipeline: renderPipelines(context.infrastructure.pipelines),
+            },
+            quality: context?.quality && {
+                stats: summarizeQuality(context.quality),
+                highlights: content.sections.quality ?? [],
+            },
+            knownGaps:
+                context?.technicalDebt && summarizeDebt(context.technicalDebt),
         }
 
         // Generate title slide
@@ -154,9 +906,43 @@ export class SlidesGenerator {
         // Generate architecture slide
         slides.push(createSlide(templates.architecture, templateData))
 
+        // Generate packages slides for monorepos
+        const workspacePackages = context?.workspace?.packages ?? []
+        if (workspacePackages.length > 0) {
+            const packageData: SlideTemplateData = {
+                packages: workspacePackages,
+                packageGraph: workspacePackages.some(
+                    pkg => pkg.internalDependencies.length > 0,
+                )
+                    ? createMermaidGraph(
+                          workspacePackages.map(pkg => pkg.name),
+                          workspacePackages.flatMap(pkg =>
+                              pkg.internalDependencies.map(
+                                  (dep): [string, string] => [pkg.name, dep],
+                              ),
+                          ),
+                      )
+                    : undefined,
+            }
+            slides.push(createSlide(templates.packages, packageData))
+            slides.push(createSlide(templates.packageGraph, packageData))
+        }
+
         // Generate features slide
         slides.push(createSlide(templates.features, templateData))
 
+        // Generate getting started slide from README and package.json usage
+        slides.push(createSlide(templates.gettingStarted, templateData))
+
+        // Generate API slide from the extracted public API
+        slides.push(createSlide(templates.api, templateData))
+
+        // Generate quality slide from the test suite analysis
+        slides.push(createSlide(templates.quality, templateData))
+
+        // Generate build and deploy slide from CI and infrastructure configs
+        slides.push(createSlide(templates.buildDeploy, templateData))
+
         // Generate technical slides with smart grouping
         if (content.sections.technical.length > 0) {
             // Add technical section header
@@ -193,9 +979,15 @@ export class SlidesGenerator {
             }
         }
 
+        // Generate known gaps slide from TODO/FIXME and deprecation markers
+        slides.push(createSlide(templates.knownGaps, templateData))
+
         // Generate roadmap slide
         slides.push(createSlide(templates.roadmap, templateData))
 
+        // Generate closing slide with links, license and authorship
+        slides.push(createSlide(templates.closing, templateData))
+
         // Filter out empty slides and join with newlines
         const markdown = slides.filter(Boolean).join('\n\n')
 
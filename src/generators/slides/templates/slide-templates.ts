@@ -7,29 +7,50 @@ interface SlideTemplate {
     content: string | ((data: SlideTemplateData) => string)
 }
 
+/**
+ * Fenced code block for Shiki. The fence is longer than any backtick run in
+ * the code. Append it after dedent so the code's indentation is preserved.
+ */
+function codeBlock(language: string, code: string, meta = ''): string {
+    const longestRun = Math.max(
+        0,
+        ...(code.match(/`+/g) ?? []).map(run => run.length),
+    )
+    const fence = '`'.repeat(Math.max(3, longestRun + 1))
+    return `${fence}${language}${meta}\n${code}\n${fence}`
+}
+
 export const templates: Record<string, SlideTemplate> = {
     cover: {
         layout: 'cover',
-        content: (data: SlideTemplateData) => dedent`
-            # ${data.title}
+        content: (data: SlideTemplateData) => {
+            const cover = dedent`
+                # ${data.title}
 
-            ${data.headline}
-        `,
+                ${data.headline}
+            `
+            return data.project?.identity
+                ? `${cover}\n\n<small>${data.project.identity}</small>`
+                : cover
+        },
     },
 
     overview: {
         layout: 'center',
-        content: (data: SlideTemplateData) => dedent`
-            # Overview
+        content: (data: SlideTemplateData) =>
+            data.overview
+                ? dedent`
+                    # Overview
 
-            ${data.overview}`,
+                    ${data.overview}`
+                : '',
     },
 
     architecture: {
         layout: 'cover',
         content: (data: SlideTemplateData) => {
             const arch = data.architecture
-            if (!arch) return ''
+            if (!arch?.description && !arch?.diagram) return ''
 
             return dedent`
                 # Architecture
@@ -64,6 +85,255 @@ export const templates: Record<string, SlideTemplate> = {
         },
     },
 
+    packages: {
+        layout: 'default',
+        content: (data: SlideTemplateData) => {
+            if (!data.packages?.length) return ''
+
+            return dedent`
+                # Packages
+
+                ${data.packages
+                    .map(pkg => {
+                        const version = pkg.version
+                            ? ` \`v${pkg.version}\``
+                            : ''
+                        const description = pkg.description
+                            ? ` — ${pkg.description}`
+                            : ''
+                        return `- **${pkg.name}**${version} (\`${pkg.path}\`)${description}`
+                    })
+                    .join('\n')}
+            `
+        },
+    },
+
+    packageGraph: {
+        layout: 'center',
+        content: (data: SlideTemplateData) => {
+            if (!data.packageGraph) return ''
+
+            return `# Package Dependencies\n\n${codeBlock('mermaid', data.packageGraph)}`
+        },
+    },
+
+    gettingStarted: {
+        layout: 'two-cols',
+        content: (data: SlideTemplateData) => {
+            const usage = data.gettingStarted
+            if (!usage) return ''
+
+            // Commands and examples are shown verbatim
+            const commands = [usage.install, usage.run]
+                .filter(block => block.length > 0)
+                .map(block => codeBlock('bash', block.join('\n')))
+            const examples = usage.examples.map(example =>
+                codeBlock(example.language, example.code),
+            )
+            if (commands.length === 0 && examples.length === 0) return ''
+
+            return [
+                '# Getting Started',
+                ...commands,
+                ...(examples.length > 0 ? ['::right::', ...examples] : []),
+            ].join('\n\n')
+        },
+    },
+
+    api: {
+        layout: 'default',
+        content: (data: SlideTemplateData) => {
+            if (!data.api?.length) return ''
+
+            return dedent`
+                # API
+
+                ${data.api.map((entry: string) => `- ${entry}`).join('\n')}
+            `
+        },
+    },
+
+    quality: {
+        layout: 'default',
+        content: (data: SlideTemplateData) => {
+            if (!data.quality?.stats.length) return ''
+
+            return dedent`
+                # Quality
+
+                ${data.quality.stats.map(stat => `- ${stat}`).join('\n')}
+
+                ${data.quality.highlights.map(item => `- ${item}`).join('\n')}
+            `
+        },
+    },
+
+    buildDeploy: {
+        layout: 'two-cols',
+        content: (data: SlideTemplateData) => {
+            if (!data.infrastructure?.summary.length) return ''
+            const { summary, pipeline } = data.infrastructure
+
+            return [
+                '# Build & Deploy',
+                summary.map(line => `- ${line}`).join('\n'),
+                ...(pipeline
+                    ? ['::right::', `\`\`\`mermaid\n${pipeline}\n\`\`\``]
+                    : []),
+            ].join('\n\n')
+        },
+    },
+
+    knownGaps: {
+        layout: 'default',
+        content: (data: SlideTemplateData) => {
+            if (!data.knownGaps?.modules.length) return ''
+            const { summary, modules } = data.knownGaps
+
+            return [
+                '# Known Gaps',
+                summary,
+                modules
+                    .flatMap(({ module, items }) => [
+                        `- \`${module === '.' ? '/' : module}\``,
+                        ...items.map(item => `  - ${item}`),
+                    ])
+                    .join('\n'),
+            ].join('\n\n')
+        },
+    },
+
+    releaseHighlights: {
+        layout: 'center',
+        content: (data: SlideTemplateData) => {
+            if (!data.release?.highlights.length) return ''
+
+            return dedent`
+                # Highlights
+
+                ${data.release.highlights.map(item => `- ${item}`).join('\n')}
+            `
+        },
+    },
+
+    breakingChanges: {
+        layout: 'default',
+        content: (data: SlideTemplateData) => {
+            if (!data.release?.breaking.length) return ''
+
+            return dedent`
+                # ⚠️ Breaking Changes
+
+                ${data.release.breaking.map(item => `- ${item}`).join('\n')}
+            `
+        },
+    },
+
+    newFeatures: {
+        layout: 'default',
+        content: (data: SlideTemplateData) => {
+            if (!data.release?.features.length) return ''
+
+            return dedent`
+                # New Features
+
+                ${data.release.features.map(item => `- ${item}`).join('\n')}
+            `
+        },
+    },
+
+    fixes: {
+        layout: 'default',
+        content: (data: SlideTemplateData) => {
+            if (!data.release?.fixes.length) return ''
+
+            return dedent`
+                # Fixes
+
+                ${data.release.fixes.map(item => `- ${item}`).join('\n')}
+            `
+        },
+    },
+
+    thanks: {
+        layout: 'center',
+        content: (data: SlideTemplateData) => {
+            if (!data.release?.contributors.length) return ''
+
+            return dedent`
+                # Thank You
+
+                ${data.release.contributors.map(name => `- ${name}`).join('\n')}
+            `
+        },
+    },
+
+    touchedModules: {
+        layout: 'default',
+        content: (data: SlideTemplateData) => {
+            if (!data.review?.modules.length) return ''
+
+            return dedent`
+                # Touched Modules
+
+                | Module | Status | Files | Lines |
+                | ------ | ------ | ----- | ----- |
+                ${data.review.modules
+                    .map(
+                        module =>
+                            `| \`${module.path === '.' ? '/' : module.path}\` | ${module.status} | ${module.files} | +${module.insertions} / -${module.deletions} |`,
+                    )
+                    .join('\n')}
+            `
+        },
+    },
+
+    moduleStructure: {
+        layout: 'two-cols',
+        content: (data: SlideTemplateData) => {
+            if (!data.structure) return ''
+
+            // The diagrams span several lines, so they are added after dedent
+            return [
+                '# Before',
+                codeBlock('mermaid', data.structure.before),
+                '::right::',
+                '# After',
+                codeBlock('mermaid', data.structure.after),
+            ].join('\n\n')
+        },
+    },
+
+    codeHunk: {
+        layout: 'default',
+        content: (data: SlideTemplateData) => {
+            if (!data.hunk) return ''
+            const { path, header, language, code, highlights } = data.hunk
+            const lines = highlights.length ? ` {${highlights.join(',')}}` : ''
+
+            return (
+                dedent`
+                    # \`${path}\`
+
+                    <small>\`${header}\`</small>
+                ` + `\n\n${codeBlock(language, code, lines)}`
+            )
+        },
+    },
+
+    openQuestions: {
+        layout: 'center',
+        content: (data: SlideTemplateData) => {
+            if (!data.review?.openQuestions.length) return ''
+
+            return dedent`
+                # Open Questions
+
+                ${data.review.openQuestions.map(question => `- ${question}`).join('\n')}
+            `
+        },
+    },
+
     technicalHeader: {
         layout: 'section',
         content: () => dedent`
@@ -118,6 +388,19 @@ export const templates: Record<string, SlideTemplate> = {
             `
         },
     },
+
+    closing: {
+        layout: 'center',
+        content: (data: SlideTemplateData) => {
+            if (!data.project?.details.length) return ''
+
+            return dedent`
+                # Learn More
+
+                ${data.project.details.map(detail => `- ${detail}`).join('\n')}
+            `
+        },
+    },
 }
 
 export function createSlide(
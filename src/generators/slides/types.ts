@@ -4,7 +4,7 @@ export const slideContentSchema = z.object({
     title: z
         .string()
         .describe(
-            'The title of the presentation (no subtitle, just the name of the presentation)',
+            'The title of the presentation (no subtitle, just the name of the presentation). Use the project name from metadata.name when present.',
         ),
     headline: z
         .string()
@@ -20,29 +20,43 @@ export const slideContentSchema = z.object({
         architecture: z
             .string()
             .describe(
-                'A high-level overview of the project architecture, in 3 sentences. Each sentence should be on a new line.',
+                'A high-level overview of the project architecture, in 3 sentences. Each sentence should be on a new line. When the context has a codebase.importGraph, describe how its modules depend on each other. Ground it in the code retrieved for retrieval.architecture when present.',
             ),
         features: z
             .array(z.string())
             .describe(
-                'The most compelling features of the project, in 1 sentence each. Each feature should be prefixed with a bullet point.',
+                'The most compelling features of the project, in 1 sentence each. Each feature should be prefixed with a bullet point. Ground them in the code and docs retrieved for retrieval.features when present.',
             ),
         technical: z
             .array(z.string())
             .describe(
-                'Technical details of the project, in 1 sentence each. Each detail should be prefixed with a bullet point.',
+                'Technical details of the project, in 1 sentence each. Each detail should be prefixed with a bullet point. Ground them in the code retrieved for retrieval.technical when present, naming the files involved.',
             ),
         roadmap: z
             .array(z.string())
             .describe(
-                'Roadmap of the project. Each item should be prefixed with a bullet point.',
+                'Roadmap of the project. Each item should be prefixed with a bullet point. When the context has technicalDebt, base it on the most significant known gaps listed there and cite them as path:line.',
+            ),
+        api: z
+            .array(z.string())
+            .optional()
+            .describe(
+                'The most important public API entries, in 1 sentence each, formatted as "`name` — description". Only use exports listed in the publicApi field of the context, and omit this section if it is missing.',
+            ),
+        quality: z
+            .array(z.string())
+            .optional()
+            .describe(
+                'Observations about the test suite and code quality tooling, in 1 sentence each (e.g. how thoroughly the code is tested, gaps in coverage). Only use the quality field of the context, and omit this section if it is missing.',
             ),
     }),
     diagrams: z.object({
         architecture: z
             .string()
             .optional()
-            .describe('Architecture diagram in mermaid'),
+            .describe(
+                'Architecture diagram in mermaid. Omit it when the context has a codebase.importGraph, which is rendered instead.',
+            ),
         flowcharts: z
             .array(z.string())
             .optional()
@@ -52,6 +66,26 @@ export const slideContentSchema = z.object({
 
 export type SlideContent = z.infer<typeof slideContentSchema>
 
+export const reviewContentSchema = z.object({
+    title: z
+        .string()
+        .describe(
+            'A short title describing what the branch changes (no subtitle)',
+        ),
+    summary: z
+        .string()
+        .describe(
+            'What the change does and why, in 3 sentences. Each sentence should be on a new line.',
+        ),
+    openQuestions: z
+        .array(z.string())
+        .describe(
+            'Questions reviewers should discuss about the design of the change, in 1 sentence each. Reference files or modules where relevant.',
+        ),
+})
+
+export type ReviewContent = z.infer<typeof reviewContentSchema>
+
 export interface SlideOutput {
     markdown: string
     assets: string[]
@@ -65,6 +99,12 @@ export interface SlideOutput {
 export interface SlideTemplateData {
     headline?: string
     title?: string
+    project?: {
+        // Shown on the cover, e.g. "`slidev-gen` v0.3.0 · MIT"
+        identity?: string
+        // Closing slide lines, e.g. "**License** — MIT (`LICENSE`)"
+        details: string[]
+    }
     overview?: string
     architecture?: {
         description: string
@@ -77,4 +117,65 @@ export interface SlideTemplateData {
         diagrams?: string[]
     }
     roadmap?: string[]
+    gettingStarted?: {
+        install: string[]
+        run: string[]
+        examples: Array<{ language: string; code: string }>
+    }
+    api?: string[]
+    infrastructure?: {
+        // One line per area, e.g. "**CI** — GitHub Actions: CI (push)"
+        summary: string[]
+        pipeline?: string
+    }
+    knownGaps?: {
+        // e.g. "12 markers: 1 stub, 3 FIXME, 8 TODO"
+        summary: string
+        modules: Array<{
+            module: string
+            // e.g. "**FIXME** retry on timeout (`src/llm/router.ts:42`)"
+            items: string[]
+        }>
+    }
+    quality?: {
+        // Headline numbers, e.g. "**Tests** — 12 files, 48 cases"
+        stats: string[]
+        highlights: string[]
+    }
+    packages?: Array<{
+        name: string
+        path: string
+        version?: string
+        description?: string
+    }>
+    packageGraph?: string
+    review?: {
+        modules: Array<{
+            path: string
+            status: 'added' | 'modified' | 'removed'
+            files: number
+            insertions: number
+            deletions: number
+        }>
+        openQuestions: string[]
+    }
+    hunk?: {
+        path: string
+        header: string
+        language: string
+        code: string
+        // 1-based line numbers within `code`
+        highlights: number[]
+    }
+    structure?: {
+        before: string
+        after: string
+    }
+    release?: {
+        highlights: string[]
+        breaking: string[]
+        features: string[]
+        fixes: string[]
+        contributors: string[]
+    }
 }
@@ -0,0 +1,295 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+    compactContext,
+    compactDocuments,
+    estimateTokens,
+    getContextWindow,
+} from './budget'
+
+import type { ProjectContext } from '../context/types'
+
+describe('budget', () => {
+    const createContext = (
+        overrides: {
+            readme?: string
+            docs?: Array<{ path: string; content: string }>
+            files?: Array<{ path: string; content: string }>
+        } = {},
+    ): ProjectContext => ({
+        documentation: {
+            readme: {
+                path: 'README.md',
+                content: overrides.readme ?? '# Project\nShort readme.',
+            },
+            additionalDocs: overrides.docs ?? [],
+        },
+        dependencies: { ecosystem: 'node', manifests: [], packages: {} },
+        git: {
+            recentCommits: [],
+            majorChanges: [],
+            contributors: [],
+            contributorStats: [],
+            tags: [],
+            totalCommits: 0,
+            fileChurn: [],
+            commitTypes: {},
+        },
+        codebase: {
+            mainLanguages: ['ts'],
+            fileStructure: '.\n└── src\n\n1 directory, 0 files',
+            tree: {
+                name: '.',
+                path: '',
+                type: 'directory',
+                children: [{ name: 'src', path: 'src', type: 'directory' }],
+            },
+            significantFiles: [],
+            importantFiles: overrides.files ?? [],
+        },
+    })
+
+    // ~1000 tokens of text
+    const large = 'x'.repeat(79) + '\n'
+    const largeContent = large.repeat(50)
+
+    test('getContextWindow matches the longest model prefix', () => {
+        expect(getContextWindow('gpt-4')).toBe(8_192)
+        expect(getContextWindow('gpt-4o-mini')).toBe(128_000)
+        expect(getContextWindow('gpt-4-turbo-preview')).toBe(128_000)
+        expect(getContextWindow('claude-3-5-sonnet-latest')).toBe(200_000)
+        expect(getContextWindow('llama3.1')).toBe(8_192)
+    })
+
+    test('estimateTokens scales with text length', () => {
+        expect(estimateTokens('a'.repeat(400), 'gpt-4o')).toBe(100)
+        expect(estimateTokens('a'.repeat(350), 'claude-3-5-haiku')).toBe(100)
+    })
+
+    test('keeps everything that fits and leaves out the structured tree', () => {
+        const context = createContext({
+            docs: [{ path: 'docs/guide.md', content: '# Guide' }],
+            files: [{ path: 'src/index.ts', content: 'export {}' }],
+        })
+        const { context: compacted, report } = compactContext(context, {
+            models: ['gpt-4o-mini'],
+        })
+
+        expect(compacted.documentation).toEqual(context.documentation)
+        expect(compacted.codebase.importantFiles).toEqual(
+            context.codebase.importantFiles,
+        )
+        expect('tree' in compacted.codebase).toBe(false)
+        expect(report.truncated).toEqual([])
+        expect(report.dropped).toEqual([])
+        expect(report.overBudget).toBe(false)
+        expect(report.tokensAfter).toBeLessThan(report.tokensBefore)
+    })
+
+    test('truncates files above the per-file cap', () => {
+        const { context, report } = compactContext(
+            createContext({
+                files: [{ path: 'src/big.ts', content: largeContent }],
+            }),
+            { models: ['gpt-4o'], maxFileTokens: 300 },
+        )
+
+        expect(context.codebase.importantFiles[0].content).toEndWith(
+            '… [truncated]',
+        )
+        expect(report.truncated).toHaveLength(1)
+        expect(report.truncated[0]).toMatchObject({
+            section: 'importantFile',
+            path: 'src/big.ts',
+        })
+        expect(report.truncated[0].keptTokens).toBeLessThanOrEqual(300)
+    })
+
+    test('drops lower priority docs once the budget is spent', () => {
+        const { context, report } = compactContext(
+            createContext({
+                files: [
+                    { path: 'src/a.ts', content: largeContent },
+                    { path: 'src/b.ts', content: largeContent },
+                ],
+                docs: [{ path: 'docs/deep/guide.md', content: largeContent }],
+            }),
+            { models: ['gpt-4o'], maxTokens: 2_300 },
+        )
+
+        expect(context.codebase.importantFiles.map(f => f.path)).toEqual([
+            'src/a.ts',
+            'src/b.ts',
+        ])
+        expect(context.documentation.additionalDocs).toEqual([])
+        expect(report.dropped).toEqual([
+            {
+                section: 'documentation',
+                path: 'docs/deep/guide.md',
+                tokens: expect.any(Number),
+            },
+        ])
+        expect(report.overBudget).toBe(false)
+    })
+
+    test('leaves retrieved chunks to the calls of their sections', () => {
+        const retrieved = (path: string) => ({
+            path,
+            startLine: 1,
+            endLine: 50,
+            content: largeContent,
+            score: 1,
+        })
+        const files = [
+            { path: 'src/a.ts', content: largeContent },
+            { path: 'src/b.ts', content: largeContent },
+        ]
+        const { context, report } = compactContext(
+            {
+                ...createContext({ files }),
+                retrieval: {
+                    architecture: [retrieved('src/core.ts')],
+                    features: [retrieved('src/cli.ts')],
+                    technical: [],
+                },
+            },
+            { models: ['gpt-4o'], maxTokens: 2_300 },
+        )
+
+        expect(context.retrieval).toBeUndefined()
+        expect(context.codebase.importantFiles).toEqual(files)
+        expect(report.truncated).toEqual([])
+        expect(report.dropped).toEqual([])
+        expect(report.tokensBefore).toBeLessThan(2_300)
+    })
+
+    test('cuts the lists of structured sections to fit', () => {
+        const publicApi = Array.from({ length: 40 }, (_, index) => ({
+            path: `src/module-${index}.ts`,
+            exports: [
+                {
+                    name: `createModule${index}`,
+                    kind: 'function' as const,
+                    signature: `createModule${index}(options: ModuleOptions): Module`,
+                },
+            ],
+        }))
+        const { context, report } = compactContext(
+            {
+                ...createContext(),
+                publicApi,
+                usage: {
+                    install: ['npm install tool'],
+                    run: [],
+                    examples: [
+                        {
+                            language: 'ts',
+                            code: largeContent,
+                            source: 'README.md',
+                        },
+                    ],
+                },
+            },
+            { models: ['gpt-4o'], maxFileTokens: 300 },
+        )
+
+        expect(context.publicApi?.length).toBeGreaterThan(0)
+        expect(context.publicApi).toEqual(
+            publicApi.slice(0, context.publicApi?.length),
+        )
+        expect(context.usage).toEqual({
+            install: ['npm install tool'],
+            run: [],
+            examples: [],
+        })
+        expect(report.truncated.map(entry => entry.section)).toEqual([
+            'publicApi',
+            'usage',
+        ])
+        for (const entry of report.truncated) {
+            expect(entry.keptTokens).toBeLessThanOrEqual(300)
+        }
+    })
+
+    test('drops structured sections once the budget is spent', () => {
+        // Less than the rest of the context needs
+        const { report: base } = compactContext(createContext(), {
+            models: ['gpt-4o'],
+        })
+        const { context, report } = compactContext(
+            {
+                ...createContext(),
+                quality: {
+                    testFrameworks: [],
+                    testFiles: 12,
+                    testCases: 80,
+                    tooling: [],
+                },
+            },
+            { models: ['gpt-4o'], maxTokens: base.tokensAfter - 10 },
+        )
+
+        expect(context.quality).toBeUndefined()
+        expect(report.dropped[0]).toMatchObject({
+            section: 'quality',
+            path: 'quality',
+        })
+    })
+
+    test('uses the smallest context window in the model chain', () => {
+        const { report } = compactContext(createContext(), {
+            models: ['gpt-4o', 'gpt-4'],
+            maxTokens: 100_000,
+        })
+
+        expect(report.contextWindow).toBe(8_192)
+        expect(report.budget).toBeLessThan(8_192)
+    })
+
+    test('compactDocuments fits documents after the rest of the prompt', () => {
+        const doc = (path: string) => ({ path, content: largeContent })
+        const { documents, report } = compactDocuments(
+            [
+                {
+                    section: 'readme',
+                    path: 'README.md',
+                    document: doc('README.md'),
+                },
+                {
+                    section: 'documentation',
+                    path: 'docs/a.md',
+                    document: doc('docs/a.md'),
+                },
+                {
+                    section: 'documentation',
+                    path: 'docs/b.md',
+                    document: doc('docs/b.md'),
+                },
+            ],
+            {
+                models: ['gpt-4o'],
+                maxTokens: 2_000,
+                maxFileTokens: 900,
+                base: 'x'.repeat(400),
+            },
+        )
+
+        expect(documents.map(doc => doc.path)).toEqual([
+            'README.md',
+            'docs/a.md',
+        ])
+        expect(documents[0].content).toEndWith('… [truncated]')
+        expect(report.truncated.map(entry => entry.path)).toEqual([
+            'README.md',
+            'docs/a.md',
+        ])
+        expect(report.dropped).toEqual([
+            {
+                section: 'documentation',
+                path: 'docs/b.md',
+                tokens: expect.any(Number),
+            },
+        ])
+        expect(report.overBudget).toBe(false)
+    })
+})
@@ -0,0 +1,417 @@
+import type { ProjectContext } from '../context/types'
+
+export interface BudgetOptions {
+    // Models the prompt may be sent to; the smallest window wins
+    models: string[]
+    // Prompt budget in tokens (clamped to the models' context windows)
+    maxTokens?: number
+    // Cap for any single document or file
+    maxFileTokens?: number
+}
+
+// Analysis results sent as structured data, admitted before the texts
+const structuredSections = [
+    'workspace',
+    'publicApi',
+    'quality',
+    'usage',
+    'infrastructure',
+    'technicalDebt',
+] as const
+
+type StructuredSection = (typeof structuredSections)[number]
+
+export type CompactionSection =
+    | StructuredSection
+    | 'readme'
+    | 'fileStructure'
+    | 'importantFile'
+    | 'retrievedChunk'
+    | 'documentation'
+
+export interface CompactionReport {
+    models: string[]
+    contextWindow: number
+    budget: number
+    tokensBefore: number
+    tokensAfter: number
+    // True when the context still exceeds the budget after compaction
+    overBudget: boolean
+    truncated: Array<{
+        section: CompactionSection
+        path: string
+        tokens: number
+        keptTokens: number
+    }>
+    dropped: Array<{
+        section: CompactionSection
+        path: string
+        tokens: number
+    }>
+}
+
+/**
+ * Context sent to the content generation model. The structured file tree is
+ * left out since `fileStructure` renders the same information far more
+ * compactly.
+ */
+export type PromptContext = Omit<ProjectContext, 'codebase'> & {
+    codebase: Omit<ProjectContext['codebase'], 'tree'>
+}
+
+// Prompt budget when none is configured, to keep large windows affordable
+const DEFAULT_MAX_TOKENS = 32_000
+const DEFAULT_MAX_FILE_TOKENS = 4_000
+// Room left for the system prompt, schema and the response
+const RESERVED_TOKENS = 3_000
+// Below this, a truncated file is more noise than signal
+const MIN_TRUNCATED_TOKENS = 200
+
+// Longest prefix wins
+const contextWindows: Array<[prefix: string, tokens: number]> = [
+    ['gpt-4.1', 1_047_576],
+    ['gpt-4o', 128_000],
+    ['gpt-4-turbo', 128_000],
+    ['gpt-4-32k', 32_768],
+    ['gpt-4', 8_192],
+    ['gpt-3.5-turbo', 16_385],
+    ['o1-mini', 128_000],
+    ['o1', 200_000],
+    ['o3', 200_000],
+    ['o4', 200_000],
+    ['claude', 200_000],
+]
+
+// Unknown models (e.g. local ones) get a conservative window
+const DEFAULT_CONTEXT_WINDOW = 8_192
+
+/**
+ * Average characters per token for a model's tokenizer.
+ */
+function charsPerToken(modelId: string): number {
+    if (/^(gpt-4o|gpt-4\.1|o\d)/.test(modelId)) return 4
+    if (/^gpt-/.test(modelId)) return 3.8
+    // Claude and unknown tokenizers encode text less efficiently
+    return 3.5
+}
+
+export function getContextWindow(modelId: string): number {
+    const match = contextWindows
+        .filter(([prefix]) => modelId.startsWith(prefix))
+        .sort((a, b) => b[0].length - a[0].length)[0]
+    return match?.[1] ?? DEFAULT_CONTEXT_WINDOW
+}
+
+/**
+ * Estimates the number of tokens `text` encodes to for a model.
+ */
+export function estimateTokens(text: string, modelId: string): number {
+    return Math.ceil(text.length / charsPerToken(modelId))
+}
+
+/**
+ * Cuts text to roughly `tokens`, preferring a line boundary.
+ */
+function truncate(text: string, tokens: number, modelId: string): string {
+    const limit = Math.floor(tokens * charsPerToken(modelId))
+    const cut = text.slice(0, limit)
+    const lastNewline = cut.lastIndexOf('\n')
+    const kept = lastNewline > limit / 2 ? cut.slice(0, lastNewline) : cut
+    return `${kept}\n… [truncated]`
+}
+
+/**
+ * Drops trailing entries of the largest lists in `value`, which are ordered
+ * most relevant first, until it fits `tokens`. Returns undefined when it
+ * doesn't fit even with all lists emptied.
+ */
+function trimLists<T>(
+    value: T,
+    tokens: number,
+    estimate: (value: unknown) => number,
+): T | undefined {
+    const trimmed = structuredClone(value)
+    const listsOf = (node: unknown): unknown[][] => {
+        if (Array.isArray(node)) return [node, ...node.flatMap(listsOf)]
+        if (typeof node === 'object' && node !== null) {
+            return Object.values(node).flatMap(listsOf)
+        }
+        return []
+    }
+
+    while (estimate(trimmed) > tokens) {
+        const largest = listsOf(trimmed)
+            .filter(list => list.length > 0)
+            .map(list => ({ list, size: JSON.stringify(list).length }))
+            .sort((a, b) => b.size - a.size)[0]
+        if (!largest) return undefined
+        largest.list.pop()
+    }
+    return trimmed
+}
+
+interface BudgetItem {
+    section: CompactionSection
+    path: string
+    content: string
+    // Called with the kept (possibly truncated) content, null when dropped
+    apply: (content: string | null) => void
+}
+
+/**
+ * Model to estimate tokens with (the least efficient tokenizer in the
+ * chain), the smallest context window and the prompt budget.
+ */
+function resolveBudget(
+    models: string[],
+    maxTokens: number,
+): { model: string; contextWindow: number; budget: number } {
+    const model = [...models].sort(
+        (a, b) => charsPerToken(a) - charsPerToken(b),
+    )[0]
+    const contextWindow = Math.min(...models.map(getContextWindow))
+    const budget = Math.max(
+        0,
+        Math.min(maxTokens, contextWindow - RESERVED_TOKENS),
+    )
+    return { model, contextWindow, budget }
+}
+
+/**
+ * Admits texts in order while `remaining` tokens last, each capped at
+ * `maxFileTokens`. Texts that don't fit are truncated, or dropped when too
+ * little room is left, and listed in the report.
+ */
+function admitItems(
+    items: BudgetItem[],
+    remaining: number,
+    maxFileTokens: number,
+    model: string,
+    report: CompactionReport,
+): void {
+    for (const item of items) {
+        // Content is sent JSON encoded, so escapes count too
+        const encoded = JSON.stringify(item.content)
+        const tokens = estimateTokens(encoded, model)
+        const allowed = Math.min(maxFileTokens, remaining)
+
+        if (tokens <= allowed) {
+            item.apply(item.content)
+            remaining -= tokens
+        } else if (allowed >= MIN_TRUNCATED_TOKENS) {
+            const content = truncate(
+                item.content,
+                Math.floor((allowed * item.content.length) / encoded.length),
+                model,
+            )
+            const keptTokens = estimateTokens(JSON.stringify(content), model)
+            item.apply(content)
+            remaining -= keptTokens
+            report.truncated.push({
+                section: item.section,
+                path: item.path,
+                tokens,
+                keptTokens,
+            })
+        } else {
+            item.apply(null)
+            report.dropped.push({
+                section: item.section,
+                path: item.path,
+                tokens,
+            })
+        }
+    }
+}
+
+/**
+ * Fits the project context into the prompt budget of the given models.
+ * The structured analysis results (workspace, public API, quality, usage,
+ * infrastructure and technical debt) come first, with their lists cut
+ * short when they don't fit. The README, file structure, important files
+ * and additional docs follow in that order. Each section is capped at
+ * `maxFileTokens`; what doesn't fit is truncated or dropped and listed in
+ * the report. Retrieved chunks are left out: they are sent in calls of
+ * their own, budgeted with `compactDocuments`.
+ */
+export function compactContext(
+    context: ProjectContext,
+    {
+        models,
+        maxTokens = DEFAULT_MAX_TOKENS,
+        maxFileTokens = DEFAULT_MAX_FILE_TOKENS,
+    }: BudgetOptions,
+): { context: PromptContext; report: CompactionReport } {
+    const { model, contextWindow, budget } = resolveBudget(models, maxTokens)
+    const estimate = (value: unknown) =>
+        estimateTokens(JSON.stringify(value), model)
+
+    const items: BudgetItem[] = []
+
+    const compacted: PromptContext = {
+        ...context,
+        documentation: {
+            readme: { ...context.documentation.readme, content: '' },
+            additionalDocs: [],
+        },
+        codebase: {
+            ...context.codebase,
+            fileStructure: '',
+            importantFiles: [],
+        },
+    }
+    delete (compacted.codebase as Partial<ProjectContext['codebase']>).tree
+    delete compacted.retrieval
+    for (const section of structuredSections) delete compacted[section]
+
+    items.push({
+        section: 'readme',
+        path: context.documentation.readme.path,
+        content: context.documentation.readme.content,
+        apply: content => {
+            compacted.documentation.readme.content = content ?? ''
+        },
+    })
+    items.push({
+        section: 'fileStructure',
+        path: '.',
+        content: context.codebase.fileStructure,
+        apply: content => {
+            compacted.codebase.fileStructure = content ?? ''
+        },
+    })
+    for (const file of context.codebase.importantFiles) {
+        items.push({
+            section: 'importantFile',
+            path: file.path,
+            content: file.content,
+            apply: content => {
+                if (content !== null) {
+                    compacted.codebase.importantFiles.push({ ...file, content })
+                }
+            },
+        })
+    }
+    // Shallow, short docs are usually overviews
+    const docs = [...context.documentation.additionalDocs].sort(
+        (a, b) =>
+            a.path.split('/').length - b.path.split('/').length ||
+            a.content.length - b.content.length,
+    )
+    for (const doc of docs) {
+        items.push({
+            section: 'documentation',
+            path: doc.path,
+            content: doc.content,
+            apply: content => {
+                if (content !== null) {
+                    compacted.documentation.additionalDocs.push({
+                        ...doc,
+                        content,
+                    })
+                }
+            },
+        })
+    }
+
+    const report: CompactionReport = {
+        models,
+        contextWindow,
+        budget,
+        tokensBefore: estimate({ ...context, retrieval: undefined }),
+        tokensAfter: 0,
+        overBudget: false,
+        truncated: [],
+        dropped: [],
+    }
+
+    let remaining = budget - estimate(compacted)
+    const admit = <K extends StructuredSection>(section: K) => {
+        const value = context[section]
+        if (value === undefined) return
+
+        const tokens = estimate(value)
+        const allowed = Math.min(maxFileTokens, remaining)
+        const kept =
+            tokens <= allowed ? value : trimLists(value, allowed, estimate)
+        if (kept === undefined) {
+            report.dropped.push({ section, path: section, tokens })
+            return
+        }
+        compacted[section] = kept
+        const keptTokens = estimate(kept)
+        remaining -= keptTokens
+        if (kept !== value) {
+            report.truncated.push({
+                section,
+                path: section,
+                tokens,
+                keptTokens,
+            })
+        }
+    }
+    structuredSections.forEach(admit)
+
+    admitItems(items, remaining, maxFileTokens, model, report)
+
+    report.tokensAfter = estimate(compacted)
+    report.overBudget = report.tokensAfter > budget
+
+    return { context: compacted, report }
+}
+
+/**
+ * Fits documents into the prompt budget of the given models, for prompts
+ * that send them along with little else. `base` (the rest of the prompt)
+ * comes off the budget first, then the documents are admitted in order,
+ * each capped at `maxFileTokens`. Dropped documents are left out of the
+ * result, and they and truncated ones are listed in the report.
+ */
+export function compactDocuments<T extends { content: string }>(
+    documents: Array<{ section: CompactionSection; path: string; document: T }>,
+    {
+        models,
+        maxTokens = DEFAULT_MAX_TOKENS,
+        maxFileTokens = DEFAULT_MAX_FILE_TOKENS,
+        base = '',
+    }: BudgetOptions & { base?: unknown },
+): { documents: T[]; report: CompactionReport } {
+    const { model, contextWindow, budget } = resolveBudget(models, maxTokens)
+    const estimate = (value: unknown) =>
+        estimateTokens(JSON.stringify(value), model)
+
+    const kept: T[] = []
+    const report: CompactionReport = {
+        models,
+        contextWindow,
+        budget,
+        tokensBefore: estimate([
+            base,
+            ...documents.map(({ document }) => document.content),
+        ]),
+        tokensAfter: 0,
+        overBudget: false,
+        truncated: [],
+        dropped: [],
+    }
+
+    admitItems(
+        documents.map(({ section, path, document }) => ({
+            section,
+            path,
+            content: document.content,
+            apply: content => {
+                if (content !== null) kept.push({ ...document, content })
+            },
+        })),
+        budget - estimate(base),
+        maxFileTokens,
+        model,
+        report,
+    )
+
+    report.tokensAfter = estimate([base, ...kept.map(doc => doc.content)])
+    report.overBudget = report.tokensAfter > budget
+
+    return { documents: kept, report }
+}
@@ -0,0 +1,67 @@
+import { mkdir, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+
+import type { ModelStage } from '../config/types'
+
+export interface EgressSource {
+    path: string
+    // UTF-8 bytes of the file's content, or of the facts taken from it,
+    // included in the prompt
+    bytes: number
+}
+
+export interface EgressRequest {
+    stage: ModelStage
+    provider: string
+    model: string
+    sentAt: string
+    // UTF-8 bytes of the system and user prompts
+    promptBytes: number
+    sources: EgressSource[]
+}
+
+export interface EgressManifest {
+    generatedAt: string
+    requests: EgressRequest[]
+}
+
+/**
+ * Byte counts of `{ path, content }` entries (documents, files) as they are
+ * included in a prompt. Empty entries are left out.
+ */
+export function contentSources(
+    entries: Array<{ path: string; content: string }>,
+): EgressSource[] {
+    return entries
+        .filter(entry => entry.content.length > 0)
+        .map(entry => ({
+            path: entry.path,
+            bytes: Buffer.byteLength(entry.content, 'utf-8'),
+        }))
+}
+
+/**
+ * Audit trail of the requests sent to model providers during a run. Every
+ * attempt is recorded, including ones that fail, since the data left the
+ * machine either way; responses served from the response cache are not.
+ */
+export class EgressLog {
+    private readonly requests: EgressRequest[] = []
+
+    record(request: EgressRequest): void {
+        this.requests.push(request)
+    }
+
+    get entries(): readonly EgressRequest[] {
+        return this.requests
+    }
+
+    async write(path: string): Promise<void> {
+        const manifest: EgressManifest = {
+            generatedAt: new Date().toISOString(),
+            requests: this.requests,
+        }
+        await mkdir(dirname(path), { recursive: true })
+        await writeFile(path, `${JSON.stringify(manifest, null, 2)}\n`, 'utf-8')
+    }
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+
+import { createLLMProvider, getApiKeyEnv, resolveApiKey } from './provider'
+
+describe('LLM provider', () => {
+    const ORIGINAL_ENV = { ...process.env }
+
+    beforeEach(() => {
+        delete process.env.OPENAI_API_KEY
+        delete process.env.ANTHROPIC_API_KEY
+        delete process.env.LOCAL_LLM_KEY
+    })
+
+    afterEach(() => {
+        process.env = { ...ORIGINAL_ENV }
+    })
+
+    describe('getApiKeyEnv', () => {
+        test('defaults to the provider specific variable', () => {
+            expect(getApiKeyEnv()).toBe('OPENAI_API_KEY')
+            expect(getApiKeyEnv({ name: 'anthropic' })).toBe(
+                'ANTHROPIC_API_KEY',
+            )
+            expect(getApiKeyEnv({ name: 'openai-compatible' })).toBeUndefined()
+        })
+
+        test('honors a custom variable name', () => {
+            expect(
+                getApiKeyEnv({ name: 'openai', apiKeyEnv: 'LOCAL_LLM_KEY' }),
+            ).toBe('LOCAL_LLM_KEY')
+        })
+    })
+
+    describe('resolveApiKey', () => {
+        test('prefers an explicitly provided key', () => {
+            process.env.OPENAI_API_KEY = 'env-key'
+            expect(resolveApiKey(undefined, 'explicit-key')).toBe(
+                'explicit-key',
+            )
+        })
+
+        test('reads the configured environment variable', () => {
+            process.env.LOCAL_LLM_KEY = 'local-key'
+            expect(
+                resolveApiKey({ name: 'openai', apiKeyEnv: 'LOCAL_LLM_KEY' }),
+            ).toBe('local-key')
+        })
+
+        test('throws when a required key is missing', () => {
+            expect(() => resolveApiKey({ name: 'anthropic' })).toThrow(
+                'Anthropic API key must be provided',
+            )
+        })
+
+        test('allows keyless OpenAI-compatible servers', () => {
+            expect(
+                resolveApiKey({
+                    name: 'openai-compatible',
+                    baseURL: 'http://localhost:11434/v1',
+                }),
+            ).toBeUndefined()
+        })
+    })
+
+    describe('createLLMProvider', () => {
+        test('creates models for the configured provider', () => {
+            const llm = createLLMProvider(
+                {
+                    name: 'openai-compatible',
+                    baseURL: 'http://localhost:11434/v1',
+                },
+                undefined,
+            )
+            const model = llm('llama3.1')
+
+            expect(model.modelId).toBe('llama3.1')
+            expect(model.provider).toStartWith('openai-compatible')
+        })
+
+        test('requires a baseURL for OpenAI-compatible servers', () => {
+            expect(() =>
+                createLLMProvider({ name: 'openai-compatible' }),
+            ).toThrow('requires a baseURL')
+        })
+    })
+})
@@ -0,0 +1,113 @@
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { createAzure } from '@ai-sdk/azure'
+import { createOpenAI } from '@ai-sdk/openai'
+
+import { SlidevGenError } from '../errors/SlidevGenError'
+
+import type { LanguageModelV1 } from 'ai'
+import type { ProviderConfig, ProviderName } from '../config/types'
+
+/**
+ * Resolves a model id (e.g. `gpt-4o-mini`, `claude-3-5-sonnet-latest`) to a
+ * language model of the configured provider.
+ */
+export type LLMProvider = (modelId: string) => LanguageModelV1
+
+interface ProviderDefaults {
+    label: string
+    apiKeyEnv?: string
+}
+
+const providerDefaults: Record<ProviderName, ProviderDefaults> = {
+    openai: { label: 'OpenAI', apiKeyEnv: 'OPENAI_API_KEY' },
+    anthropic: { label: 'Anthropic', apiKeyEnv: 'ANTHROPIC_API_KEY' },
+    azure: { label: 'Azure OpenAI', apiKeyEnv: 'AZURE_API_KEY' },
+    // Local servers (Ollama, vLLM, LM Studio) usually don't require a key
+    'openai-compatible': { label: 'OpenAI-compatible' },
+}
+
+export function getProviderName(config?: ProviderConfig): ProviderName {
+    return config?.name ?? 'openai'
+}
+
+export function getProviderLabel(config?: ProviderConfig): string {
+    return providerDefaults[getProviderName(config)].label
+}
+
+/**
+ * Name of the environment variable the API key is read from, if any.
+ */
+export function getApiKeyEnv(config?: ProviderConfig): string | undefined {
+    return (
+        config?.apiKeyEnv ?? providerDefaults[getProviderName(config)].apiKeyEnv
+    )
+}
+
+/**
+ * Resolves the API key for the configured provider.
+ * An explicitly provided key wins over the environment. Throws when the
+ * provider requires a key and none can be found.
+ */
+export function resolveApiKey(
+    config?: ProviderConfig,
+    providedKey?: string,
+): string | undefined {
+    if (providedKey) return providedKey
+
+    const envName = getApiKeyEnv(config)
+    const envKey = envName ? process.env[envName] : undefined
+    if (envKey) return envKey
+
+    if (envName) {
+        throw SlidevGenError.apiKeyMissing(
+            `${getProviderLabel(config)} API key must be provided either as constructor argument or in process.env.${envName}`,
+        )
+    }
+
+    return undefined
+}
+
+export function createLLMProvider(
+    config?: ProviderConfig,
+    providedKey?: string,
+): LLMProvider {
+    const name = getProviderName(config)
+    const apiKey = resolveApiKey(config, providedKey)
+
+    switch (name) {
+        case 'anthropic': {
+            const anthropic = createAnthropic({
+                apiKey,
+                baseURL: config?.baseURL,
+            })
+            return modelId => anthropic(modelId)
+        }
+        case 'azure': {
+            const azure = createAzure({ apiKey, baseURL: config?.baseURL })
+            return modelId => azure(modelId)
+        }
+        case 'openai-compatible': {
+            if (!config?.baseURL) {
+                throw SlidevGenError.invalidConfiguration(
+                    'The openai-compatible provider requires a baseURL (e.g. http://localhost:11434/v1)',
+                )
+            }
+            const compatible = createOpenAI({
+                name: 'openai-compatible',
+                baseURL: config.baseURL,
+                // The SDK requires a key even when the server ignores it
+                apiKey: apiKey ?? 'not-needed',
+                compatibility: 'compatible',
+            })
+            return modelId => compatible(modelId)
+        }
+        case 'openai': {
+            const openai = createOpenAI({
+                apiKey,
+                baseURL: config?.baseURL,
+                compatibility: 'strict',
+            })
+            return modelId => openai(modelId)
+        }
+    }
+}
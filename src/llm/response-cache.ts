@@ -0,0 +1,99 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+
+import { SlidevGenError } from '../errors/SlidevGenError'
+
+import type { ModelStage, ProjectConfig } from '../config/types'
+
+export interface RecordedRequest {
+    model: string
+    system: string
+    prompt: string
+    // JSON schema of the requested object
+    schema: unknown
+}
+
+export interface RecordedResponse {
+    key: string
+    stage: ModelStage
+    request: RecordedRequest
+    object: unknown
+    recordedAt: string
+}
+
+/**
+ * Content-addressed store of structured LLM responses. Entries are keyed by
+ * a hash of the model, prompts and schema, so any change to the request
+ * misses the cache. In replay mode the model is never called; in record
+ * mode it is always called and its responses are recorded afresh.
+ */
+export class ResponseCache {
+    constructor(
+        private readonly dir: string,
+        readonly replay = false,
+        readonly record = false,
+    ) {
+        if (replay && record) {
+            throw new SlidevGenError(
+                'InvalidConfiguration',
+                'llmCache.replay and llmCache.record cannot both be set',
+            )
+        }
+    }
+
+    key(request: RecordedRequest): string {
+        return createHash('sha256')
+            .update(
+                JSON.stringify([
+                    request.model,
+                    request.system,
+                    request.prompt,
+                    request.schema,
+                ]),
+            )
+            .digest('hex')
+    }
+
+    async get(key: string): Promise<RecordedResponse | undefined> {
+        try {
+            const content = await readFile(
+                join(this.dir, `${key}.json`),
+                'utf-8',
+            )
+            return JSON.parse(content) as RecordedResponse
+        } catch {
+            return undefined
+        }
+    }
+
+    async set(response: RecordedResponse): Promise<void> {
+        await mkdir(this.dir, { recursive: true })
+        await writeFile(
+            join(this.dir, `${response.key}.json`),
+            `${JSON.stringify(response, null, 2)}\n`,
+            'utf-8',
+        )
+    }
+}
+
+/**
+ * Response cache for the configuration, stored in
+ * `<slidesPath>/.cache/llm` unless `llmCache.dir` points elsewhere.
+ * Disabled by `cache: false`, except in replay and record mode which
+ * depend on it.
+ */
+export function createResponseCache(
+    config: Partial<ProjectConfig> = {},
+): ResponseCache | undefined {
+    const replay = config.llmCache?.replay ?? false
+    const record = config.llmCache?.record ?? false
+    if (config.cache === false && !replay && !record) return undefined
+
+    return new ResponseCache(
+        config.llmCache?.dir ??
+            join(config.slidesPath ?? './.slides', '.cache', 'llm'),
+        replay,
+        record,
+    )
+}
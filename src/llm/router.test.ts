@@ -0,0 +1,335 @@
+import { join } from 'path'
+
+import { MockLanguageModelV1 } from 'ai/test'
+import { $ } from 'bun'
+import { afterAll, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { z } from 'zod'
+
+import { ProjectConfigSchema } from '../config/types'
+import { EgressLog } from './egress'
+import { ResponseCache } from './response-cache'
+import { ModelRouter } from './router'
+
+import type { LLMProvider } from './provider'
+
+describe('ModelRouter', () => {
+    const schema = z.object({ paths: z.array(z.string()) })
+
+    const createModel = (modelId: string, text: string | Error) =>
+        new MockLanguageModelV1({
+            modelId,
+            defaultObjectGenerationMode: 'json',
+            doGenerate: async () => {
+                if (text instanceof Error) throw text
+                return {
+                    rawCall: { rawPrompt: null, rawSettings: {} },
+                    finishReason: 'stop',
+                    usage: { promptTokens: 1, completionTokens: 1 },
+                    text,
+                }
+            },
+        })
+
+    const createProvider =
+        (responses: Record<string, string | Error>, calls: string[]) =>
+        (modelId: string) => {
+            calls.push(modelId)
+            return createModel(modelId, responses[modelId])
+        }
+
+    describe('getModelChain', () => {
+        test('uses stage defaults without configuration', () => {
+            const router = new ModelRouter()
+            expect(router.getModelChain('fileSelection')).toEqual(['o3-mini'])
+            expect(router.getModelChain('contentGeneration')).toEqual([
+                'gpt-4o-mini',
+            ])
+        })
+
+        test('uses stage defaults for an empty config file', () => {
+            const router = new ModelRouter(ProjectConfigSchema.parse({}))
+            expect(router.getModelChain('fileSelection')).toEqual(['o3-mini'])
+            expect(router.getModelChain('contentGeneration')).toEqual([
+                'gpt-4o-mini',
+            ])
+            expect(router.getModelChain('diagramRepair')).toEqual([
+                'gpt-4o-mini',
+            ])
+        })
+
+        test('prefers stage model over top-level model', () => {
+            const router = new ModelRouter({
+                model: 'gpt-4',
+                models: {
+                    contentGeneration: 'gpt-4o',
+                    fallbacks: ['gpt-4o-mini', 'gpt-4o'],
+                },
+            })
+
+            expect(router.getModelChain('contentGeneration')).toEqual([
+                'gpt-4o',
+                'gpt-4o-mini',
+            ])
+            expect(router.getModelChain('fileSelection')).toEqual([
+                'gpt-4',
+                'gpt-4o-mini',
+                'gpt-4o',
+            ])
+        })
+    })
+
+    describe('generateObject', () => {
+        const request = { system: 'system', prompt: 'prompt', schema }
+
+        test('returns the primary model result', async () => {
+            const calls: string[] = []
+            const provider = createProvider(
+                { primary: '{"paths":["src/index.ts"]}' },
+                calls,
+            ) as LLMProvider
+            const router = new ModelRouter(
+                { model: 'primary', models: { fallbacks: ['backup'] } },
+                undefined,
+                provider,
+            )
+
+            const result = await router.generateObject('fileSelection', request)
+
+            expect(result.paths).toEqual(['src/index.ts'])
+            expect(calls).toEqual(['primary'])
+        })
+
+        test('falls back on failures and schema-invalid objects', async () => {
+            const calls: string[] = []
+            const provider = createProvider(
+                {
+                    primary: new Error('rate limited'),
+                    invalid: '{"paths":"not-an-array"}',
+                    backup: '{"paths":["src/cli/index.ts"]}',
+                },
+                calls,
+            ) as LLMProvider
+            const router = new ModelRouter(
+                {
+                    model: 'primary',
+                    models: { fallbacks: ['invalid', 'backup'] },
+                },
+                undefined,
+                provider,
+            )
+
+            const result = await router.generateObject('fileSelection', request)
+
+            expect(result.paths).toEqual(['src/cli/index.ts'])
+            expect(calls).toEqual(['primary', 'invalid', 'backup'])
+        })
+
+        test('records every attempt in the egress log', async () => {
+            const egress = new EgressLog()
+            const provider = createProvider(
+                {
+                    primary: new Error('rate limited'),
+                    backup: '{"paths":["src/index.ts"]}',
+                },
+                [],
+            ) as LLMProvider
+            const router = new ModelRouter(
+                { model: 'primary', models: { fallbacks: ['backup'] } },
+                undefined,
+                provider,
+                undefined,
+                egress,
+            )
+
+            await router.generateObject('fileSelection', {
+                ...request,
+                sources: [{ path: 'README.md', bytes: 42 }],
+            })
+
+            expect(
+                egress.entries.map(
+                    ({ model, provider, promptBytes, sources }) => ({
+                        model,
+                        provider,
+                        promptBytes,
+                        sources,
+                    }),
+                ),
+            ).toEqual(
+                ['primary', 'backup'].map(model => ({
+                    model,
+                    provider: 'openai',
+                    promptBytes: 'systemprompt'.length,
+                    sources: [{ path: 'README.md', bytes: 42 }],
+                })),
+            )
+        })
+
+        test('throws when every model fails', async () => {
+            const provider = createProvider(
+                { primary: new Error('offline') },
+                [],
+            ) as LLMProvider
+            const router = new ModelRouter(
+                { model: 'primary' },
+                undefined,
+                provider,
+            )
+
+            expect(
+                router.generateObject('fileSelection', request),
+            ).rejects.toThrow('All models failed for stage "fileSelection"')
+        })
+    })
+
+    describe('response cache', () => {
+        const CACHE_DIR = join(import.meta.dir, '__test_llm_cache__')
+        const request = { system: 'system', prompt: 'prompt', schema }
+
+        beforeEach(async () => {
+            await $`rm -rf ${CACHE_DIR}`
+        })
+
+        afterAll(async () => {
+            await $`rm -rf ${CACHE_DIR}`
+        })
+
+        test('records responses and serves them without calling the model', async () => {
+            const calls: string[] = []
+            const provider = createProvider(
+                { primary: '{"paths":["src/index.ts"]}' },
+                calls,
+            ) as LLMProvider
+            const config = { model: 'primary' }
+
+            const recording = new ModelRouter(
+                config,
+                undefined,
+                provider,
+                new ResponseCache(CACHE_DIR),
+            )
+            await recording.generateObject('fileSelection', request)
+
+            const replaying = new ModelRouter(
+                config,
+                undefined,
+                provider,
+                new ResponseCache(CACHE_DIR, true),
+            )
+            const result = await replaying.generateObject(
+                'fileSelection',
+                request,
+            )
+
+            expect(result.paths).toEqual(['src/index.ts'])
+            expect(calls).toEqual(['primary'])
+        })
+
+        test('calls the model and records afresh in record mode', async () => {
+            const calls: string[] = []
+            const config = { model: 'primary' }
+            await new ModelRouter(
+                config,
+                undefined,
+                createProvider(
+                    { primary: '{"paths":["src/old.ts"]}' },
+                    calls,
+                ) as LLMProvider,
+                new ResponseCache(CACHE_DIR),
+            ).generateObject('fileSelection', request)
+
+            const recording = new ModelRouter(
+                config,
+                undefined,
+                createProvider(
+                    { primary: '{"paths":["src/new.ts"]}' },
+                    calls,
+                ) as LLMProvider,
+                new ResponseCache(CACHE_DIR, false, true),
+            )
+            const recorded = await recording.generateObject(
+                'fileSelection',
+                request,
+            )
+            const replayed = await new ModelRouter(
+                config,
+                undefined,
+                undefined,
+                new ResponseCache(CACHE_DIR, true),
+            ).generateObject('fileSelection', request)
+
+            expect(calls).toEqual(['primary', 'primary'])
+            expect(recorded.paths).toEqual(['src/new.ts'])
+            expect(replayed.paths).toEqual(['src/new.ts'])
+            expect(() => new ResponseCache(CACHE_DIR, true, true)).toThrow(
+                'cannot both be set',
+            )
+        })
+
+        test('returns the response when it cannot be recorded', async () => {
+            // A file where the cache directory should be
+            await Bun.write(CACHE_DIR, '')
+            const calls: string[] = []
+            const router = new ModelRouter(
+                { model: 'primary', models: { fallbacks: ['backup'] } },
+                undefined,
+                createProvider(
+                    {
+                        primary: '{"paths":["src/index.ts"]}',
+                        backup: '{"paths":["src/backup.ts"]}',
+                    },
+                    calls,
+                ) as LLMProvider,
+                new ResponseCache(CACHE_DIR),
+            )
+            const warn = spyOn(console, 'warn').mockImplementation(() => {})
+
+            const result = await router.generateObject('fileSelection', request)
+            const warnings = warn.mock.calls.length
+            warn.mockRestore()
+
+            expect(result.paths).toEqual(['src/index.ts'])
+            expect(calls).toEqual(['primary'])
+            expect(warnings).toBe(1)
+        })
+
+        test('misses when the prompt changes', async () => {
+            const calls: string[] = []
+            const provider = createProvider(
+                { primary: '{"paths":["src/index.ts"]}' },
+                calls,
+            ) as LLMProvider
+            const router = new ModelRouter(
+                { model: 'primary' },
+                undefined,
+                provider,
+                new ResponseCache(CACHE_DIR),
+            )
+
+            await router.generateObject('fileSelection', request)
+            await router.generateObject('fileSelection', {
+                ...request,
+                prompt: 'another prompt',
+            })
+
+            expect(calls).toEqual(['primary', 'primary'])
+        })
+
+        test('fails in replay mode when no response was recorded', async () => {
+            const calls: string[] = []
+            const router = new ModelRouter(
+                { model: 'primary' },
+                undefined,
+                createProvider({}, calls) as LLMProvider,
+                new ResponseCache(CACHE_DIR, true),
+            )
+
+            expect(
+                router.generateObject('fileSelection', request),
+            ).rejects.toThrow(
+                'No recorded response for stage "fileSelection" (models: primary) in replay mode',
+            )
+            expect(calls).toEqual([])
+        })
+    })
+})
@@ -0,0 +1,162 @@
+import { generateObject, zodSchema } from 'ai'
+
+import { SlidevGenError } from '../errors/SlidevGenError'
+import { createLLMProvider, getProviderName } from './provider'
+
+import type { z } from 'zod'
+import type { ModelStage, ProjectConfig } from '../config/types'
+import type { EgressLog, EgressSource } from './egress'
+import type { LLMProvider } from './provider'
+import type { RecordedRequest, ResponseCache } from './response-cache'
+
+/**
+ * Models used for each stage when neither the stage nor the top-level
+ * `model` is configured.
+ */
+export const defaultStageModels: Record<ModelStage, string> = {
+    fileSelection: 'o3-mini',
+    contentGeneration: 'gpt-4o-mini',
+    diagramRepair: 'gpt-4o-mini',
+}
+
+export interface RoutedObjectRequest<T> {
+    system: string
+    prompt: string
+    schema: z.Schema<T, z.ZodTypeDef, unknown>
+    // Project files whose content is part of the prompt, for the egress log
+    sources?: EgressSource[]
+}
+
+/**
+ * Routes structured generation requests to the model configured for each
+ * pipeline stage, walking the ordered fallback list when a model call fails
+ * or returns an object that doesn't match the schema.
+ */
+export class ModelRouter {
+    constructor(
+        private readonly config: Partial<ProjectConfig> = {},
+        private readonly apiKey?: string,
+        private llm?: LLMProvider,
+        private readonly cache?: ResponseCache,
+        private readonly egress?: EgressLog,
+    ) {}
+
+    get replay(): boolean {
+        return this.cache?.replay ?? false
+    }
+
+    private initializeProvider(): LLMProvider {
+        if (!this.llm) {
+            this.llm = createLLMProvider(this.config.provider, this.apiKey)
+        }
+        return this.llm
+    }
+
+    /**
+     * Ordered, de-duplicated list of models to try for a stage.
+     */
+    getModelChain(stage: ModelStage): string[] {
+        const primary =
+            this.config.models?.[stage] ??
+            this.config.model ??
+            defaultStageModels[stage]
+
+        return [...new Set([primary, ...(this.config.models?.fallbacks ?? [])])]
+    }
+
+    async generateObject<T>(
+        stage: ModelStage,
+        request: RoutedObjectRequest<T>,
+    ): Promise<T> {
+        const chain = this.getModelChain(stage)
+        const schema = zodSchema(request.schema).jsonSchema
+        const recorded = (model: string): RecordedRequest => ({
+            model,
+            system: request.system,
+            prompt: request.prompt,
+            schema,
+        })
+
+        // Recorded responses are used before calling any model
+        if (this.cache && !this.cache.record) {
+            for (const modelId of chain) {
+                const hit = await this.cache.get(
+                    this.cache.key(recorded(modelId)),
+                )
+                const parsed = hit && request.schema.safeParse(hit.object)
+                if (parsed?.success) return parsed.data
+            }
+
+            if (this.cache.replay) {
+                throw SlidevGenError.llmGenerationFailed(
+                    `No recorded response for stage "${stage}" (models: ${chain.join(', ')}) in replay mode`,
+                )
+            }
+        }
+
+        const llm = this.initializeProvider()
+        const failures: string[] = []
+        let lastError: Error | undefined
+
+        for (const modelId of chain) {
+            this.egress?.record({
+                stage,
+                provider: getProviderName(this.config.provider),
+                model: modelId,
+                sentAt: new Date().toISOString(),
+                promptBytes: Buffer.byteLength(
+                    request.system + request.prompt,
+                    'utf-8',
+                ),
+                sources: request.sources ?? [],
+            })
+
+            let result: T
+            try {
+                const { object } = await generateObject({
+                    model: llm(modelId),
+                    system: request.system,
+                    prompt: request.prompt,
+                    schema: request.schema,
+                })
+
+                // Providers in JSON mode may hand back loosely typed objects
+                const parsed = request.schema.safeParse(object)
+                if (!parsed.success) {
+                    throw new Error(
+                        `Response did not match schema: ${parsed.error.message}`,
+                    )
+                }
+
+                result = parsed.data
+            } catch (error) {
+                lastError =
+                    error instanceof Error ? error : new Error(String(error))
+                failures.push(`${modelId}: ${lastError.message}`)
+                continue
+            }
+
+            // The response is valid even when it can't be recorded
+            if (this.cache) {
+                const entry = recorded(modelId)
+                try {
+                    await this.cache.set({
+                        key: this.cache.key(entry),
+                        stage,
+                        request: entry,
+                        object: result,
+                        recordedAt: new Date().toISOString(),
+                    })
+                } catch (error) {
+                    console.warn('Failed to record LLM response:', error)
+                }
+            }
+            return result
+        }
+
+        throw SlidevGenError.llmGenerationFailed(
+            `All models failed for stage "${stage}":\n${failures.join('\n')}`,
+            lastError,
+        )
+    }
+}
@@ -65,7 +65,6 @@ describe('ConfigManager', () => {
                 // Test against the schema defaults
                 expect(config).toEqual({
                     slidesPath: './.slides',
-                    model: 'gpt-4',
                     theme: 'default',
                     deploymentType: 'github',
                 })